@@ -1,11 +1,61 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { MagicParticles } from './components/MagicParticles';
+import { MagicParticles, ParticleStepper } from './components/MagicParticles';
 import { WebcamHandler } from './components/WebcamHandler';
-import { AppMode, Point3D, ShapeDefinition } from './types';
+import { AIProviderId, AppMode, GestureRecognizerId, MotionRegion, ShapeDefinition, ShapeGenerator, VisionFrame } from './types';
 import * as MathUtils from './utils/math';
-import { generateGeminiShape, detectGesture } from './services/geminiService';
+import { createRandom, randomSeed } from './utils/random';
+import { generateShape, isShapeCached, ShapeGenerationError } from './services/shapePipeline';
+import { IMPORT_EXTENSIONS, importShapeFile, ShapeImportError } from './services/shapeImporter';
+import { createGestureRecognizer, GESTURE_RECOGNIZER_OPTIONS } from './services/gestureRecognizer';
+import { AI_PROVIDER_OPTIONS, createAIProvider, defaultAIProviderId, getRequestScheduler } from './services/aiProviderRegistry';
+import { DroppedRequestError } from './services/requestScheduler';
+import { QuotaIndicator } from './components/QuotaIndicator';
+import { GestureStateConfig, GestureStateMachine } from './utils/gestureStateMachine';
+import { SwipeEvent } from './utils/opticalFlow';
+import { PerformanceGovernor } from './simulation/PerformanceGovernor';
+import { PerformanceProbe } from './components/PerformanceProbe';
+import { MorphStyle } from './simulation/correspondence';
+import { createCountdownShape, nextOccurrence } from './utils/countdown';
+import {
+  createLibraryEntry,
+  deleteShape,
+  exportShapePack,
+  importShapePack,
+  LibraryShape,
+  listShapes,
+  renameShape,
+  saveShape,
+  setShapePinned,
+  ShapeLibraryError,
+  ShapePackFormat,
+  toShapeDefinition,
+} from './services/shapeLibrary';
+import { ShapeGallery } from './components/ShapeGallery';
+import { downloadBlob, fileSlug } from './utils/download';
+import { createShareLink, MAX_SHAPE_HOLD, readShareLink, SharedScene, ShareLinkError } from './services/shareLink';
+import { PaletteId, PALETTES } from './utils/palette';
+import { SimulationParams } from './simulation/ParticleSimulation';
+import { ShowCue, ShowPlayer, ShowPlayerState } from './show/ShowPlayer';
+import { parseShowTimeline, ShowTimelineError } from './show/parse';
+import { ShowShapeRef, ShowTimeline } from './show/types';
+import { DEMO_SHOW } from './show/demoShow';
+import { ShowControls } from './components/ShowControls';
+import { AudioInput, AudioInputError } from './audio/AudioInput';
+import { BeatReaction } from './audio/reactive';
+import { AudioPanel } from './components/AudioPanel';
+import { CaptureError, CaptureTarget, captureStill, renderGif, renderVideoOffline, VideoRecorder } from './capture/capture';
+import { CaptureBridge } from './components/CaptureBridge';
+import { CapturePanel, CaptureRenderSettings } from './components/CapturePanel';
+import { HandControlTracker } from './utils/handControls';
+import { HandPose } from './utils/handAnalysis';
+import { CAMERA_DISTANCE, HandCameraRig } from './components/HandCameraRig';
+import { DEFAULT_WAND_SETTINGS, PointerWand, WandSettings } from './utils/pointerWand';
+import { MagicWand } from './components/MagicWand';
+import { WandPanel } from './components/WandPanel';
+import { PhysicsPanel } from './components/PhysicsPanel';
+import { BEHAVIOR_OPTIONS } from './simulation/behaviors/registry';
 import { 
   Sparkles, 
   Hand, 
@@ -13,145 +63,800 @@ import {
   Wand2, 
   Camera, 
   Loader2,
-  ChevronDown
+  ChevronDown,
+  Shuffle,
+  Upload,
+  Box,
+  Library,
+  Share2,
+  Palette,
+  Dices,
+  Clapperboard,
+  Music,
+  Video,
+  Square,
+  X,
+  WandSparkles,
+  Orbit,
+  SlidersHorizontal
 } from 'lucide-react';
 import clsx from 'clsx';
 
-// Increased particle count for more detailed models
-const PARTICLE_COUNT = 6000;
+// Particle budget; the active count adapts to measured frame time within these bounds
+const PARTICLE_BUDGET = { min: 1500, max: 12000, initial: 6000 };
+
+// Live recordings take whatever the display delivers, up to this
+const RECORDING_FPS = 60;
+
+// Built-ins are generated once at the maximum budget and shuffled, so any active count
+// can use a prefix of the same cloud without re-targeting the particles already placed.
+// The seed makes the cloud reproducible; rerolling samples it again with a new one.
+const reseedShape = (shape: ShapeDefinition, seed: number): ShapeDefinition =>
+  shape.generate ? { ...shape, seed, points: MathUtils.sampleSeeded(shape.generate, PARTICLE_BUDGET.max, seed) } : shape;
+
+const builtInShape = (id: string, name: string, generate: ShapeGenerator, description: string) =>
+  reseedShape({ id, name, points: [], generate, description }, 1);
+
+const aiShape = (prompt: string, points: ShapeDefinition['points']): ShapeDefinition => ({
+  id: 'custom',
+  name: prompt,
+  points,
+  color: '#00ccff', // Fallback for uncolored points
+  description: "AI Generated Magic"
+});
+
+const describeShapeRef = (ref: ShowShapeRef) => {
+  if (ref.type === 'builtin') return ref.id;
+  if (ref.type === 'saved') return `"${ref.name}"`;
+  if (ref.type === 'text') return `text "${ref.text}"`;
+  return `"${ref.prompt}"`;
+};
 
 const DEFAULT_SHAPES: ShapeDefinition[] = [
-  { id: 'tree', name: 'Festive Tree', points: MathUtils.generateTreePoints(PARTICLE_COUNT), description: "Point Up or use buttons to change" },
-  { id: 'present', name: 'Magic Present', points: MathUtils.generatePresentPoints(PARTICLE_COUNT), description: "Open Hand: Scatter | Fist: Form" },
-  { id: 'wreath', name: 'Holiday Wreath', points: MathUtils.generateWreathPoints(PARTICLE_COUNT), description: "A circle of joy" },
-  { id: 'cane', name: 'Candy Cane', points: MathUtils.generateCandyCanePoints(PARTICLE_COUNT), description: "Sweet winter treats" },
-  { id: 'santa_hat', name: 'Santa Hat', points: MathUtils.generateSantaHatPoints(PARTICLE_COUNT), description: "Jolly accessories" },
-  { id: 'snowman', name: 'Snowman', points: MathUtils.generateSnowmanPoints(PARTICLE_COUNT), description: "Do you want to build a snowman?" },
-  { id: 'star', name: 'North Star', points: MathUtils.generateStarPoints(PARTICLE_COUNT), description: "Guiding light" },
+  builtInShape('tree', 'Festive Tree', MathUtils.generateTreePoints, "Point Up or use buttons to change"),
+  builtInShape('present', 'Magic Present', MathUtils.generatePresentPoints, "Open Hand: Scatter | Fist: Form"),
+  builtInShape('wreath', 'Holiday Wreath', MathUtils.generateWreathPoints, "A circle of joy"),
+  builtInShape('cane', 'Candy Cane', MathUtils.generateCandyCanePoints, "Sweet winter treats"),
+  builtInShape('santa_hat', 'Santa Hat', MathUtils.generateSantaHatPoints, "Jolly accessories"),
+  builtInShape('snowman', 'Snowman', MathUtils.generateSnowmanPoints, "Do you want to build a snowman?"),
+  builtInShape('star', 'North Star', MathUtils.generateStarPoints, "Guiding light"),
+  createCountdownShape({ id: 'countdown_christmas', name: 'Christmas Countdown', target: nextOccurrence(11, 25), greeting: "Merry|Christmas!" }),
+  createCountdownShape({ id: 'countdown_new_year', name: 'New Year Countdown', target: nextOccurrence(0, 1), greeting: "Happy|New Year!" }),
 ];
 
+// "YYYY-MM-DDTHH:mm" in local time, as used by datetime-local inputs
+const toLocalInputValue = (date: Date) => {
+  const pad = (v: number) => String(v).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Frame-rate recognizers need several agreeing frames; the slow cloud one trusts each answer
+const GESTURE_STABILITY: Record<GestureRecognizerId, Partial<GestureStateConfig>> = {
+  local: { enterFrames: 4, exitFrames: 4 },
+  ai: { enterFrames: 1, exitFrames: 1, cooldownMs: {} },
+};
+
 function App() {
+  const [shapes, setShapes] = useState<ShapeDefinition[]>(DEFAULT_SHAPES);
   const [currentShapeIdx, setCurrentShapeIdx] = useState(0);
-  const [customShapePoints, setCustomShapePoints] = useState<Point3D[] | null>(null);
-  const [customShapeName, setCustomShapeName] = useState<string | null>(null);
+  const [customShape, setCustomShape] = useState<ShapeDefinition | null>(null);
   
   const [mode, setMode] = useState<AppMode>(AppMode.FORM);
+  const [particleCount, setParticleCount] = useState(PARTICLE_BUDGET.initial);
+  const [morphStyle, setMorphStyle] = useState<MorphStyle>('nearest');
+  const [shapeHold, setShapeHold] = useState(0); // How much of the shape other modes keep
+  const [palette, setPalette] = useState<PaletteId>('original');
+  const [physics, setPhysics] = useState<Partial<SimulationParams>>({});
+  const [simulationSeed, setSimulationSeed] = useState(1);
   const [motionIntensity, setMotionIntensity] = useState(0);
+  const [motionRegion, setMotionRegion] = useState<MotionRegion | null>(null);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
   const [selectedCameraId, setSelectedCameraId] = useState<string | undefined>(undefined);
+  const [recognizerId, setRecognizerId] = useState<GestureRecognizerId>('local');
+  const [aiProviderId, setAiProviderId] = useState<AIProviderId>(defaultAIProviderId);
 
   const [aiLoading, setAiLoading] = useState(false);
   const [promptInput, setPromptInput] = useState("");
   const [aiStatus, setAiStatus] = useState("");
 
-  const activeShape = useMemo(() => {
-    if (customShapePoints && customShapeName) {
-      return { 
-        id: 'custom', 
-        name: customShapeName, 
-        points: customShapePoints, 
-        color: '#00ccff', // Fallback for custom shapes
-        description: "AI Generated Magic" 
-      };
-    }
-    return DEFAULT_SHAPES[currentShapeIdx];
-  }, [currentShapeIdx, customShapePoints, customShapeName]);
+  const [importLoading, setImportLoading] = useState(false);
+  const [solidImport, setSolidImport] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hoverModeRef = useRef<AppMode | null>(null); // Mode to return to after a hover swirl
+
+  const [library, setLibrary] = useState<LibraryShape[]>([]);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+
+  // A running show, with every step's shape resolved up front so AI prompts don't stall it
+  const [show, setShow] = useState<{ player: ShowPlayer; shapes: (ShapeDefinition | null)[] } | null>(null);
+  const [showCue, setShowCue] = useState<ShowCue | null>(null);
+  const [showState, setShowState] = useState<ShowPlayerState>('stopped');
+  const [showLoading, setShowLoading] = useState(false);
+  const showInputRef = useRef<HTMLInputElement>(null);
+
+  const [audioInput, setAudioInput] = useState<AudioInput | null>(null);
+  const [audioLoading, setAudioLoading] = useState(false);
+  const [audioPanelOpen, setAudioPanelOpen] = useState(false);
+  const [physicsPanelOpen, setPhysicsPanelOpen] = useState(false);
+  const [audioSensitivity, setAudioSensitivity] = useState(1);
+  const [beatReaction, setBeatReaction] = useState<BeatReaction>('pulse');
+
+  const captureTargetRef = useRef<CaptureTarget | null>(null);
+  const stepperRef = useRef<ParticleStepper | null>(null);
+  const captureAbortRef = useRef<AbortController | null>(null);
+  const [capturePanelOpen, setCapturePanelOpen] = useState(false);
+  const [recorder, setRecorder] = useState<VideoRecorder | null>(null);
+  const [captureProgress, setCaptureProgress] = useState<number | null>(null);
+  const [cleanCapture, setCleanCapture] = useState(false);
+  // Clean captures hide the interface and leave the webcam out of the motion
+  const cleanCapturing = cleanCapture && (recorder !== null || captureProgress !== null);
+
+  useEffect(() => {
+    listShapes().then(setLibrary).catch((e) => console.warn("Shape library unavailable:", e));
+  }, []);
+
+  // Built-ins and imports, then library shapes pinned by the user
+  const carousel = useMemo(
+    () => [...shapes, ...library.filter((entry) => entry.pinned).map(toShapeDefinition)],
+    [shapes, library]
+  );
+
+  // Unpinning can shorten the carousel under the current index
+  const activeShape = customShape ?? carousel[currentShapeIdx % carousel.length];
+
+  // A fresh source per activation, so a countdown restarts its layout when shown again
+  const shapeSource = useMemo(() => activeShape.createSource?.(activeShape.seed) ?? null, [activeShape]);
+
+  // The show's step overrides the user's palette and morph style while it runs
+  const showStep = showCue?.step ?? null;
+  const activePalette = showStep?.palette ?? palette;
+  const activeMorphStyle: MorphStyle = showStep ? (showStep.transition === 'dissolve' ? 'chaos' : 'nearest') : morphStyle;
+  const orbitSpeed = showState === 'playing' ? showStep?.orbitSpeed ?? 0 : 0;
+
+  const targetPoints = useMemo(
+    () => MathUtils.fitPointsToCount(activeShape.points, particleCount, createRandom(activeShape.seed ?? 1)),
+    [activeShape, particleCount]
+  );
+
+  const governor = useMemo(() => new PerformanceGovernor({
+    minCount: PARTICLE_BUDGET.min,
+    maxCount: PARTICLE_BUDGET.max,
+    initialCount: PARTICLE_BUDGET.initial,
+  }), []);
+
+  const handleFrameTime = useCallback((delta: number) => {
+    const next = governor.sample(delta);
+    if (next !== null) setParticleCount(next);
+  }, [governor]);
+
+  const aiProvider = useMemo(() => createAIProvider(aiProviderId), [aiProviderId]);
+
+  // The previous backend's scheduler keeps no timers running once we switch away
+  useEffect(() => {
+    const scheduler = getRequestScheduler(aiProviderId);
+    return () => scheduler.dispose();
+  }, [aiProviderId]);
+
+  const recognizer = useMemo(() => createGestureRecognizer(recognizerId, aiProvider), [recognizerId, aiProvider]);
+  const gestureMachine = useMemo(() => new GestureStateMachine(GESTURE_STABILITY[recognizerId]), [recognizerId]);
+
+  // Continuous hand controls; with no hand in view the mouse and OrbitControls take over
+  const handTracker = useMemo(() => new HandControlTracker(), []);
+  const handStatus = useSyncExternalStore(handTracker.subscribe, handTracker.getStatus);
+  const handsActive = isCameraActive && !cleanCapturing && handStatus.hands > 0;
+
+  // Pointer wand: while on, pointers disturb the particles instead of orbiting the camera
+  const wand = useMemo(() => new PointerWand(), []);
+  const [wandActive, setWandActive] = useState(false);
+  const [wandSettings, setWandSettings] = useState<WandSettings>(DEFAULT_WAND_SETTINGS);
 
-  const handleMotion = useCallback((intensity: number) => {
+  useEffect(() => {
+    wand.settings = wandSettings;
+  }, [wand, wandSettings]);
+
+  useEffect(() => {
+    if (!isCameraActive) handTracker.reset();
+  }, [isCameraActive, handTracker]);
+
+  const handleMotion = useCallback((intensity: number, region: MotionRegion | null) => {
     setMotionIntensity(intensity);
+    setMotionRegion(region);
   }, []);
 
   const handleCamerasFound = useCallback((devices: MediaDeviceInfo[]) => {
     setCameras(devices);
   }, []);
 
+  // Live input wins over the show; it picks up again once hands are quiet
+  const interruptShow = useCallback(() => show?.player.interrupt(), [show]);
+
   const handleNextShape = useCallback(() => {
-    setCustomShapePoints(null);
-    setCustomShapeName(null);
-    setCurrentShapeIdx((prev) => (prev + 1) % DEFAULT_SHAPES.length);
-  }, []);
+    interruptShow();
+    setCustomShape(null);
+    setCurrentShapeIdx((prev) => (prev + 1) % carousel.length);
+  }, [carousel.length, interruptShow]);
 
   const handlePrevShape = useCallback(() => {
-    setCustomShapePoints(null);
-    setCustomShapeName(null);
-    setCurrentShapeIdx((prev) => (prev - 1 + DEFAULT_SHAPES.length) % DEFAULT_SHAPES.length);
-  }, []);
+    interruptShow();
+    setCustomShape(null);
+    setCurrentShapeIdx((prev) => (prev % carousel.length - 1 + carousel.length) % carousel.length);
+  }, [carousel.length, interruptShow]);
+
+  // A new variation of the current shape. Only shapes that know their generator can be
+  // sampled again; AI, imported and library shapes are fixed point clouds.
+  const canReroll = !!activeShape.generate;
+
+  const handleReroll = () => {
+    if (!activeShape.generate) return;
+    const rerolled = reseedShape(activeShape, randomSeed());
+    if (customShape) setCustomShape(rerolled);
+    else setShapes((prev) => prev.map((shape) => (shape.id === rerolled.id ? rerolled : shape)));
+  };
+
+  // Swipes are detected locally from optical flow, so they never cost an API call
+  const handleSwipe = useCallback((swipe: SwipeEvent) => {
+    interruptShow();
+    if (swipe.direction === 'left') {
+      setAiStatus("Swipe: Next");
+      handleNextShape();
+    } else if (swipe.direction === 'right') {
+      setAiStatus("Swipe: Previous");
+      handlePrevShape();
+    } else if (swipe.direction === 'up') {
+      setAiStatus("Swipe: Form Shape");
+      setMode(AppMode.FORM);
+    } else {
+      setAiStatus("Swipe: Scatter!");
+      setMode(AppMode.SCATTER);
+    }
+  }, [handleNextShape, handlePrevShape, interruptShow]);
+
+  // Pulling two hands apart opens a scatter, bringing them back together re-forms the shape
+  const handleHands = useCallback((hands: HandPose[], timestamp: number) => {
+    const event = handTracker.push(hands, timestamp);
+    if (!event) return;
+    interruptShow();
+    if (event === 'open') {
+      setAiStatus("Hands: Scatter!");
+      setMode(AppMode.SCATTER);
+    } else {
+      setAiStatus("Hands: Form Shape");
+      setMode(AppMode.FORM);
+    }
+  }, [handTracker, interruptShow]);
+
+  // "text: Merry Christmas | Team --font Cinzel" is spelled out locally instead of asking the AI provider
+  const createTextShape = async (prompt: string) => {
+    const { text, options } = MathUtils.parseTextPrompt(prompt);
+    const font = { ...MathUtils.DEFAULT_TEXT_OPTIONS, ...options };
+    try {
+      await document.fonts.load(`${font.weight} 96px "${font.font}"`);
+    } catch (e) {
+      // The canvas falls back to a serif font
+    }
+    const shape = reseedShape({
+      id: 'text',
+      name: text.replace(/\s*\|\s*/g, ' '),
+      points: [],
+      generate: (count, random) => MathUtils.generateTextPoints(text, count, options, random),
+      color: '#ffffff',
+      description: "Spelled in starlight"
+    }, randomSeed());
+    return shape.points.length > 0 ? shape : null;
+  };
+
+  const handleTextShape = async (text: string) => {
+    const shape = await createTextShape(text);
+    if (!shape) {
+      setAiStatus("Nothing to spell.");
+      return;
+    }
+    setCustomShape(shape);
+  };
 
   const handleGenerateShape = async () => {
     if (!promptInput.trim()) return;
+    const textMatch = promptInput.match(/^\s*text:\s*(.*)$/i);
+    if (textMatch) {
+      await handleTextShape(textMatch[1]);
+      return;
+    }
     setAiLoading(true);
     setAiStatus("Summoning magic...");
     try {
-      const points = await generateGeminiShape(promptInput, PARTICLE_COUNT);
-      if (points.length > 0) {
-        setCustomShapeName(promptInput);
-        setCustomShapePoints(points);
-        setAiStatus("Magic summoned!");
-        setTimeout(() => setAiStatus(""), 3000);
-      } else {
-        setAiStatus("The spell fizzled.");
+      // Generated at the full budget, like the built-ins, so any active count is a prefix
+      const cached = isShapeCached(aiProvider, promptInput, PARTICLE_BUDGET.max);
+      const points = await generateShape(aiProvider, promptInput, PARTICLE_BUDGET.max, {
+        onProgress: (done, total) => setAiStatus(`Summoning magic... ${done}/${total}`),
+      });
+      const shape = aiShape(promptInput, points);
+      setCustomShape(shape);
+      // Summons cost time and quota, so every new one is kept
+      if (!cached) {
+        saveShape(shape, promptInput)
+          .then((entry) => setLibrary((prev) => [entry, ...prev]))
+          .catch((e) => console.warn("Couldn't save shape:", e));
       }
+      setAiStatus("Magic summoned!");
+      setTimeout(() => setAiStatus(""), 3000);
     } catch (e) {
       console.error(e);
-      setAiStatus("Connection error.");
+      setAiStatus(e instanceof ShapeGenerationError ? e.message : "The spell fizzled.");
     } finally {
       setAiLoading(false);
     }
   };
 
-  const handleVisionFrame = useCallback(async (base64: string) => {
+  // Imports are sampled at the maximum budget so the governor can use any prefix.
+  // They join the carousel after the built-ins.
+  const handleImportFile = async (file: File) => {
+    setImportLoading(true);
+    setAiStatus(`Importing ${file.name}...`);
+    try {
+      const shape = await importShapeFile(file, {
+        count: PARTICLE_BUDGET.max,
+        volumeFraction: solidImport ? 0.4 : 0,
+        depth: solidImport ? 0.12 : 0,
+        bevel: solidImport ? 0.03 : 0,
+        random: createRandom(1), // The same file always gives the same cloud
+      });
+      setCustomShape(null);
+      // Against the latest list, so imports and rerolls landing together all survive
+      setShapes((prev) => {
+        setCurrentShapeIdx(prev.length);
+        return [...prev, shape];
+      });
+      setAiStatus("Shape imported!");
+      setTimeout(() => setAiStatus(""), 3000);
+    } catch (e) {
+      console.error(e);
+      setAiStatus(e instanceof ShapeImportError ? e.message : "Couldn't read that file.");
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const replaceLibraryEntry = (entry: LibraryShape) =>
+    setLibrary((prev) => prev.map((existing) => (existing.id === entry.id ? entry : existing)));
+
+  const reportLibraryError = (e: unknown) => {
+    console.error(e);
+    setAiStatus(e instanceof ShapeLibraryError ? e.message : "Shape library error.");
+  };
+
+  const handleSaveCurrent = () => {
+    saveShape(activeShape)
+      .then((entry) => {
+        setLibrary((prev) => [entry, ...prev]);
+        setAiStatus("Saved to library");
+      })
+      .catch(reportLibraryError);
+  };
+
+  const handleExportLibrary = (format: ShapePackFormat) => {
+    downloadBlob(exportShapePack(library, format), format === 'json' ? 'holiday-shapes.json' : 'holiday-shapes.hhmp');
+  };
+
+  const handleImportPack = (file: File) => {
+    importShapePack(file)
+      .then((entries) => {
+        setLibrary((prev) => [...entries, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+        setAiStatus(`Added ${entries.length} shape${entries.length === 1 ? "" : "s"}`);
+      })
+      .catch(reportLibraryError);
+  };
+
+  const handleShare = async () => {
+    const isBuiltIn = !customShape && DEFAULT_SHAPES.some((shape) => shape.id === activeShape.id);
+    const scene: SharedScene = {
+      shape: isBuiltIn
+        ? { kind: 'builtin', id: activeShape.id, seed: activeShape.seed }
+        : { kind: 'cloud', name: activeShape.name, color: activeShape.color, points: activeShape.points },
+      mode,
+      hold: shapeHold,
+      palette,
+      physics,
+      seed: simulationSeed,
+    };
+
+    try {
+      const result = await createShareLink(scene, window.location.href);
+      if (result.kind === 'too-large') {
+        // Too detailed for a URL even when thinned out; hand over a shape pack instead
+        const fileName = `${fileSlug(activeShape.name)}.hhmp`;
+        downloadBlob(exportShapePack([createLibraryEntry(activeShape)], 'binary'), fileName);
+        setAiStatus("Too big for a link, downloaded as a shape pack");
+        return;
+      }
+      window.history.replaceState(null, '', result.url);
+      await navigator.clipboard.writeText(result.url).catch(() => {});
+      setAiStatus(result.pointCount ? `Link copied (${result.pointCount} points)` : "Link copied!");
+      setTimeout(() => setAiStatus(""), 3000);
+    } catch (e) {
+      console.error(e);
+      setAiStatus("Couldn't create a share link.");
+    }
+  };
+
+  const applySharedScene = useCallback((scene: SharedScene) => {
+    if (scene.shape.kind === 'builtin') {
+      const id = scene.shape.id;
+      const index = DEFAULT_SHAPES.findIndex((shape) => shape.id === id);
+      if (index < 0) {
+        setAiStatus("The shared shape doesn't exist here.");
+        return;
+      }
+      // Links from before seeds were shared show the default variation
+      const seed = scene.shape.seed ?? 1;
+      setShapes((prev) => prev.map((shape) => (shape.id === id && shape.seed !== seed ? reseedShape(shape, seed) : shape)));
+      setCustomShape(null);
+      setCurrentShapeIdx(index);
+    } else {
+      setCustomShape({
+        id: 'shared',
+        name: scene.shape.name,
+        points: scene.shape.points,
+        color: scene.shape.color ?? '#00ccff',
+        description: "Shared with you"
+      });
+    }
+    setMode(scene.mode);
+    setShapeHold(scene.hold);
+    setPalette(scene.palette);
+    setPhysics(scene.physics);
+    setSimulationSeed(scene.seed);
+  }, []);
+
+  // Restore a shared scene from the URL fragment, on load and when the fragment changes
+  useEffect(() => {
+    const restore = () => {
+      readShareLink(window.location.hash)
+        .then((scene) => scene && applySharedScene(scene))
+        .catch((e) => {
+          console.error(e);
+          setAiStatus(e instanceof ShareLinkError ? e.message : "Couldn't open the share link.");
+        });
+    };
+    restore();
+    window.addEventListener('hashchange', restore);
+    return () => window.removeEventListener('hashchange', restore);
+  }, [applySharedScene]);
+
+  // --- Shows ---
+
+  const resolveShowShape = async (ref: ShowShapeRef): Promise<ShapeDefinition | null> => {
+    switch (ref.type) {
+      case 'builtin': {
+        const shape = shapes.find((candidate) => candidate.id === ref.id);
+        if (!shape) return null;
+        return ref.seed === undefined ? shape : reseedShape(shape, ref.seed);
+      }
+      case 'saved': {
+        // Straight from storage, so a show started on load doesn't race the library listing
+        const name = ref.name.trim().toLowerCase();
+        const entry = (await listShapes()).find((candidate) => candidate.name.trim().toLowerCase() === name);
+        return entry ? toShapeDefinition(entry) : null;
+      }
+      case 'text':
+        return createTextShape(ref.text);
+      case 'prompt':
+        return aiShape(ref.prompt, await generateShape(aiProvider, ref.prompt, PARTICLE_BUDGET.max));
+    }
+  };
+
+  const startShow = async (timeline: ShowTimeline) => {
+    setShowLoading(true);
+    try {
+      const stepShapes: (ShapeDefinition | null)[] = [];
+      const missing: string[] = [];
+      for (const [i, step] of timeline.steps.entries()) {
+        setAiStatus(`Preparing show... ${i + 1}/${timeline.steps.length}`);
+        const shape = await resolveShowShape(step.shape).catch((e) => {
+          console.warn("Show step unavailable:", e);
+          return null;
+        });
+        // Steps without a shape keep whatever is on screen
+        if (!shape) missing.push(describeShapeRef(step.shape));
+        stepShapes.push(shape);
+      }
+      const player = new ShowPlayer(timeline);
+      setShow({ player, shapes: stepShapes });
+      player.play();
+      setAiStatus(missing.length > 0 ? `Show started without ${missing.join(', ')}` : `Playing ${timeline.name || "the show"}`);
+      setTimeout(() => setAiStatus(""), 3000);
+    } finally {
+      setShowLoading(false);
+    }
+  };
+
+  const reportShowError = (e: unknown) => {
+    console.error(e);
+    setAiStatus(e instanceof ShowTimelineError ? `Show: ${e.message}` : "Couldn't load that show.");
+  };
+
+  const handleShowFile = (file: File) => {
+    file.text()
+      .then((json) => startShow(parseShowTimeline(json)))
+      .catch(reportShowError);
+  };
+
+  const handleCloseShow = () => {
+    setShow(null);
+    setShowCue(null);
+    setShowState('stopped');
+  };
+
+  // Follow the player: only cue and state changes re-render, not every position tick
+  useEffect(() => {
+    if (!show) return;
+    const sync = () => {
+      const status = show.player.getStatus();
+      setShowCue(status.cue);
+      setShowState(status.state);
+    };
+    sync();
+    const unsubscribe = show.player.subscribe(sync);
+    return () => {
+      unsubscribe();
+      show.player.dispose();
+    };
+  }, [show]);
+
+  // Scatter keeps the old shape blown apart; form brings in the step's shape
+  useEffect(() => {
+    if (!show || !showCue) return;
+    if (showCue.phase === 'scatter') {
+      setMode(AppMode.SCATTER);
+      return;
+    }
+    const shape = show.shapes[showCue.stepIndex];
+    if (shape) setCustomShape(shape);
+    setMode(AppMode.FORM);
+  }, [show, showCue]);
+
+  // Lobby displays start straight into a show: ?show=demo or ?show=<url of a timeline>
+  useEffect(() => {
+    const source = new URLSearchParams(window.location.search).get('show');
+    if (!source) return;
+    const timeline = source === 'demo'
+      ? Promise.resolve(DEMO_SHOW)
+      : fetch(source).then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.text();
+        }).then(parseShowTimeline);
+    timeline.then(startShow).catch(reportShowError);
+    // Only on load; later shows come from the Show button
+  }, []);
+
+  // --- Audio ---
+
+  const startAudio = (create: () => Promise<AudioInput>) => {
+    setAudioLoading(true);
+    create()
+      .then((input) => {
+        setAudioInput(input);
+        setAiStatus(`Dancing to ${input.label}`);
+        setTimeout(() => setAiStatus(""), 3000);
+      })
+      .catch((e) => {
+        console.error(e);
+        setAiStatus(e instanceof AudioInputError ? e.message : "Couldn't start the audio.");
+      })
+      .finally(() => setAudioLoading(false));
+  };
+
+  // One input at a time; the old one is closed when it is replaced or dropped
+  useEffect(() => () => audioInput?.dispose(), [audioInput]);
+
+  useEffect(() => {
+    audioInput?.setSensitivity(audioSensitivity);
+  }, [audioInput, audioSensitivity]);
+
+  // --- Capture ---
+
+  const reportCaptureError = (e: unknown) => {
+    console.error(e);
+    setAiStatus(e instanceof CaptureError ? e.message : "Capture failed.");
+  };
+
+  const handleStill = (scale: number) => {
+    const target = captureTargetRef.current;
+    if (!target) return;
+    captureStill(target, scale)
+      .then((blob) => downloadBlob(blob, `${fileSlug(activeShape.name)}@${scale}x.png`))
+      .catch(reportCaptureError);
+  };
+
+  const handleRecord = () => {
+    const target = captureTargetRef.current;
+    if (!target) return;
+    try {
+      setRecorder(new VideoRecorder(target, { fps: RECORDING_FPS }));
+    } catch (e) {
+      reportCaptureError(e);
+    }
+  };
+
+  const handleStopRecording = () => {
+    if (!recorder) return;
+    setRecorder(null);
+    const fileName = `${fileSlug(activeShape.name)}.webm`;
+    recorder.stop().then((blob) => downloadBlob(blob, fileName));
+  };
+
+  const handleRender = async (settings: CaptureRenderSettings) => {
+    const target = captureTargetRef.current;
+    const stepper = stepperRef.current;
+    if (!target || !stepper) return;
+    const controller = new AbortController();
+    captureAbortRef.current = controller;
+    const fileName = `${fileSlug(activeShape.name)}.${settings.format}`;
+    setCaptureProgress(0);
+    try {
+      // Let a clean layout take effect before the first frame
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      const options = {
+        fps: settings.fps,
+        seconds: settings.seconds,
+        signal: controller.signal,
+        onProgress: (done: number, total: number) => setCaptureProgress(done / total),
+      };
+      const blob = settings.format === 'gif'
+        ? await renderGif(target, stepper, { ...options, width: settings.width })
+        : await renderVideoOffline(target, stepper, options);
+      downloadBlob(blob, fileName);
+    } catch (e) {
+      if (!controller.signal.aborted) reportCaptureError(e);
+    } finally {
+      captureAbortRef.current = null;
+      setCaptureProgress(null);
+    }
+  };
+
+  const handleCancelRender = () => captureAbortRef.current?.abort();
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  };
+
+  const handleVisionFrame = useCallback(async (frame: VisionFrame) => {
     if (!isCameraActive) return;
     try {
-        const gesture = await detectGesture(base64);
-        
-        if (gesture === 'OPEN_HAND') {
-           setAiStatus("Gesture: Scatter!");
-           // Note: Motion usually handles visual scatter, but this confirms AI sees it
-        } else if (gesture === 'FIST') {
-           setAiStatus("Gesture: Form Shape");
-        } else if (gesture === 'POINTING_UP') {
-           setAiStatus("Gesture: Next!");
-           handleNextShape();
-        } else {
+        const result = await recognizer.recognize(frame);
+        const events = gestureMachine.push({ ...result, timestamp: frame.timestamp });
+
+        for (const event of events) {
+          if (event.type === 'exit') {
             setAiStatus("");
+            continue;
+          }
+          if (event.type !== 'enter') continue;
+          interruptShow();
+
+          if (event.gesture === 'OPEN_HAND') {
+             setAiStatus("Gesture: Scatter!");
+             setMode(AppMode.SCATTER);
+          } else if (event.gesture === 'FIST') {
+             setAiStatus("Gesture: Form Shape");
+             setMode(AppMode.FORM);
+          } else if (event.gesture === 'POINTING_UP') {
+             setAiStatus("Gesture: Next!");
+             handleNextShape();
+          }
         }
     } catch (e) {
-        // Silently fail on 429 to avoid UI spam, or show subtle indicator
-        console.warn("AI busy");
+        // Skipped frames are the scheduler doing its job; rate limits show in the quota indicator
+        if (!(e instanceof DroppedRequestError)) console.warn("Gesture recognition failed:", e);
     }
-  }, [isCameraActive, handleNextShape]);
+  }, [isCameraActive, handleNextShape, recognizer, gestureMachine, interruptShow]);
 
   return (
-    <div className="relative w-full h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 overflow-hidden text-white select-none">
+    <div 
+      className="relative w-full h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 overflow-hidden text-white select-none"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       
       {/* 3D Scene */}
       <div className="absolute inset-0 z-0">
         <Canvas camera={{ position: [0, 0, 4.5], fov: 60 }}>
           <ambientLight intensity={0.5} />
+          <PerformanceProbe onFrame={handleFrameTime} />
+          <CaptureBridge targetRef={captureTargetRef} />
           <MagicParticles 
             mode={mode} 
-            targetPoints={activeShape.points} 
-            count={PARTICLE_COUNT} 
+            shapeHold={Math.pow(shapeHold, 3)} // The shape's spring is stiff; a little already holds a lot
+            targetPoints={targetPoints} 
+            source={shapeSource}
+            capacity={PARTICLE_BUDGET.max}
+            count={particleCount} 
+            morphStyle={activeMorphStyle}
+            palette={activePalette}
+            physics={physics}
+            seed={simulationSeed}
             color={activeShape.color}
-            motionIntensity={isCameraActive ? motionIntensity : 0}
+            motionIntensity={isCameraActive && !cleanCapturing ? motionIntensity : 0}
+            motionRegion={isCameraActive && !cleanCapturing ? motionRegion : null}
+            audio={audioInput}
+            beatReaction={beatReaction}
+            stepperRef={stepperRef}
+            hands={handsActive ? handTracker : null}
+            wand={wandActive ? wand : null}
+          />
+          {wandActive && <MagicWand wand={wand} />}
+          {handsActive && <HandCameraRig hands={handTracker} />}
+          <OrbitControls 
+            enabled={!handsActive && !wandActive}
+            enablePan={false} 
+            minDistance={CAMERA_DISTANCE.min}
+            maxDistance={CAMERA_DISTANCE.max}
+            maxPolarAngle={Math.PI / 1.5} 
+            minPolarAngle={Math.PI / 3} 
+            autoRotate={orbitSpeed !== 0} 
+            autoRotateSpeed={orbitSpeed} 
           />
-          <OrbitControls enableZoom={false} enablePan={false} maxPolarAngle={Math.PI / 1.5} minPolarAngle={Math.PI / 3} />
         </Canvas>
       </div>
 
+      {/* Shape Library */}
+      {galleryOpen && (
+        <ShapeGallery 
+            shapes={library}
+            canSaveCurrent={!shapeSource}
+            onSaveCurrent={handleSaveCurrent}
+            onSelect={(entry) => {
+              setCustomShape(toShapeDefinition(entry));
+              setGalleryOpen(false);
+            }}
+            onRename={(id, name) => renameShape(id, name).then(replaceLibraryEntry).catch(reportLibraryError)}
+            onDelete={(id) => deleteShape(id)
+              .then(() => setLibrary((prev) => prev.filter((entry) => entry.id !== id)))
+              .catch(reportLibraryError)}
+            onTogglePin={(entry) => setShapePinned(entry.id, !entry.pinned).then(replaceLibraryEntry).catch(reportLibraryError)}
+            onExport={handleExportLibrary}
+            onImportPack={handleImportPack}
+            onClose={() => setGalleryOpen(false)}
+        />
+      )}
+
       {/* Webcam Handler (Invisible) */}
-      {isCameraActive && (
+      {isCameraActive && !cleanCapturing && (
         <WebcamHandler 
             onMotion={handleMotion} 
             onFrame={handleVisionFrame} 
+            frameIntervalMs={recognizer.frameIntervalMs}
+            onSwipe={handleSwipe}
+            onHands={handleHands}
             deviceId={selectedCameraId}
             onCamerasFound={handleCamerasFound}
         />
       )}
 
+      {/* Clean capture: only a way to stop it */}
+      {cleanCapturing && (
+        <div className="absolute bottom-6 right-6 z-10 flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-xs font-mono text-red-200">
+          {captureProgress !== null ? (
+            <>
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {Math.round(captureProgress * 100)}%
+              <button onClick={handleCancelRender} title="Cancel the render" className="text-white/60 hover:text-white">
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          ) : (
+            <button onClick={handleStopRecording} className="flex items-center gap-2 hover:text-white">
+              <Square className="w-3 h-3" />
+              Stop recording
+            </button>
+          )}
+        </div>
+      )}
+
       {/* UI Overlay */}
-      <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
+      <div className={clsx("absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6", cleanCapturing && "hidden")}>
         
         {/* Header */}
         <div className="text-center space-y-2 pt-4">
@@ -159,10 +864,15 @@ function App() {
             Holiday Hand Magic
           </h1>
           <p className="font-cinzel text-sm md:text-base text-blue-200 opacity-80 tracking-widest uppercase">
-            {isCameraActive ? "Open Hand: Scatter • Fist: Form Shape • Point Up: Next" : "Hover Mouse to Scatter • Hold Click to Form"}
+            {isCameraActive ? "Open Hand: Scatter • Fist: Form Shape • Point Up: Next • Swipe: Browse • Pinch: Zoom • Two Hands: Stretch" : wandActive ? "Hover or Touch to Draw Through the Particles" : "Hover Mouse to Scatter • Hold Click to Form • Scroll to Zoom"}
           </p>
         </div>
 
+        {/* AI Quota */}
+        <div className="absolute top-6 right-6">
+            <QuotaIndicator scheduler={getRequestScheduler(aiProviderId)} label={aiProvider.label} />
+        </div>
+
         {/* AI Status Indicator */}
         {aiStatus && (
             <div className="absolute top-28 left-1/2 -translate-x-1/2 bg-black/40 backdrop-blur-md px-4 py-1 rounded-full border border-white/10 text-xs font-mono text-cyan-300 transition-opacity duration-500">
@@ -174,6 +884,46 @@ function App() {
 
         {/* Bottom Controls */}
         <div className="w-full max-w-4xl mx-auto space-y-6 pointer-events-auto">
+
+          {/* Show Player */}
+          {show && <ShowControls player={show.player} onClose={handleCloseShow} />}
+
+          {/* Audio */}
+          {audioPanelOpen && (
+            <AudioPanel 
+              input={audioInput}
+              loading={audioLoading}
+              sensitivity={audioSensitivity}
+              onSensitivityChange={setAudioSensitivity}
+              beatReaction={beatReaction}
+              onBeatReactionChange={setBeatReaction}
+              onMicrophone={() => startAudio(() => AudioInput.fromMicrophone({ sensitivity: audioSensitivity }))}
+              onFile={(file) => startAudio(() => AudioInput.fromFile(file, { sensitivity: audioSensitivity }))}
+              onStop={() => setAudioInput(null)}
+            />
+          )}
+
+          {/* Physics */}
+          {physicsPanelOpen && <PhysicsPanel physics={physics} onChange={setPhysics} />}
+
+          {/* Wand */}
+          {wandActive && <WandPanel settings={wandSettings} onChange={setWandSettings} />}
+
+          {/* Capture */}
+          {capturePanelOpen && (
+            <CapturePanel 
+              recording={recorder !== null}
+              busy={captureProgress !== null}
+              progress={captureProgress}
+              clean={cleanCapture}
+              onCleanChange={setCleanCapture}
+              onStill={handleStill}
+              onRecord={handleRecord}
+              onStop={handleStopRecording}
+              onRender={handleRender}
+              onCancel={handleCancelRender}
+            />
+          )}
           
           {/* Navigation & Shape Info */}
           <div className="flex items-center justify-between">
@@ -191,6 +941,29 @@ function App() {
               <p className="font-cinzel text-xs text-blue-200/60 mt-1">
                 {activeShape.description}
               </p>
+              {canReroll && (
+                <button
+                  onClick={handleReroll}
+                  title={`New variation (seed ${activeShape.seed})`}
+                  className="mt-2 inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-[10px] font-cinzel text-white/60 hover:text-white transition-colors"
+                >
+                  <Dices className="w-3 h-3" />
+                  Reroll
+                </button>
+              )}
+              {/* Countdown target, any date */}
+              {shapeSource && (
+                <input 
+                  type="datetime-local"
+                  onChange={(e) => {
+                    const target = new Date(e.target.value);
+                    if (isNaN(target.getTime())) return;
+                    setCustomShape(createCountdownShape({ id: 'countdown_custom', name: 'Countdown', target, greeting: "Happy|Holidays!" }));
+                  }}
+                  min={toLocalInputValue(new Date())}
+                  className="mt-2 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-cinzel text-white/70 focus:outline-none focus:border-amber-400/50"
+                />
+              )}
             </div>
 
             <button 
@@ -238,16 +1011,50 @@ function App() {
                         <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-white/50 pointer-events-none" />
                     </div>
                 )}
+
+                {/* Gesture Recognizer Selector */}
+                {isCameraActive && (
+                    <div className="relative">
+                        <select 
+                            value={recognizerId} 
+                            onChange={(e) => setRecognizerId(e.target.value as GestureRecognizerId)}
+                            className="appearance-none h-full pl-3 pr-8 bg-black/40 border border-white/10 rounded-lg text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50 cursor-pointer hover:bg-white/5 transition-colors"
+                        >
+                            {GESTURE_RECOGNIZER_OPTIONS.map((opt) => (
+                                <option key={opt.id} value={opt.id} className="bg-slate-900">
+                                    {opt.label}
+                                </option>
+                            ))}
+                        </select>
+                        <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-white/50 pointer-events-none" />
+                    </div>
+                )}
             </div>
 
             {/* AI Generator Input */}
             <div className="flex-1 w-full flex gap-2">
+              {/* AI Provider Selector */}
+              <div className="relative">
+                <select
+                    value={aiProviderId}
+                    onChange={(e) => setAiProviderId(e.target.value as AIProviderId)}
+                    title="Which AI summons shapes (and reads gestures with the AI recognizer)"
+                    className="appearance-none h-full pl-3 pr-8 bg-black/40 border border-white/10 rounded-lg text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50 cursor-pointer hover:bg-white/5 transition-colors"
+                >
+                    {AI_PROVIDER_OPTIONS.map((opt) => (
+                        <option key={opt.id} value={opt.id} className="bg-slate-900">
+                            {opt.label}{createAIProvider(opt.id).isConfigured() ? "" : " (not set up)"}
+                        </option>
+                    ))}
+                </select>
+                <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-white/50 pointer-events-none" />
+              </div>
               <div className="relative flex-1">
                 <input 
                   type="text" 
                   value={promptInput}
                   onChange={(e) => setPromptInput(e.target.value)}
-                  placeholder="Summon a shape (e.g. 'Sleigh', 'Bell')" 
+                  placeholder="Summon a shape (e.g. 'Sleigh', 'Bell', 'text: Merry Christmas')" 
                   className="w-full bg-black/40 border border-white/10 rounded-lg pl-4 pr-10 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-amber-400/50 font-cinzel"
                   onKeyDown={(e) => e.key === 'Enter' && handleGenerateShape()}
                 />
@@ -263,11 +1070,217 @@ function App() {
               </button>
             </div>
 
+            {/* Library & Import */}
+            <div className="flex gap-2">
+                <button 
+                    onClick={() => setGalleryOpen(true)}
+                    title="Saved shapes"
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+                >
+                    <Library className="w-4 h-4" />
+                    Library
+                </button>
+                <input 
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_EXTENSIONS.map((ext) => `.${ext}`).join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportFile(file);
+                        e.target.value = "";
+                    }}
+                />
+                <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={importLoading}
+                    title="Import a model or image (or drop an OBJ, PLY, STL, glTF, PNG, JPEG or SVG file anywhere)"
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap bg-white/5 border-white/10 text-white/60 hover:bg-white/10 disabled:opacity-50"
+                >
+                    {importLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Import
+                </button>
+                <button 
+                    onClick={() => setSolidImport(!solidImport)}
+                    title="Fill imported models and give imported images depth"
+                    className={clsx(
+                        "flex items-center gap-2 px-3 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                        solidImport
+                          ? "bg-amber-500/20 border-amber-400/50 text-amber-100"
+                          : "bg-white/5 border-white/10 text-white/50 hover:bg-white/10"
+                    )}
+                >
+                    <Box className="w-4 h-4" />
+                    {solidImport ? "Solid" : "Shell"}
+                </button>
+            </div>
+
+            {/* Morph Style Toggle */}
+            <button 
+                onClick={() => setMorphStyle(morphStyle === 'nearest' ? 'chaos' : 'nearest')}
+                className={clsx(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                    morphStyle === 'chaos'
+                      ? "bg-amber-500/20 border-amber-400/50 text-amber-100"
+                      : "bg-white/5 border-white/10 text-white/50 hover:bg-white/10"
+                )}
+            >
+                <Shuffle className="w-4 h-4" />
+                {morphStyle === 'chaos' ? "Chaos Morph" : "Smooth Morph"}
+            </button>
+
+            {/* Palette */}
+            <div className="relative">
+                <select 
+                    value={palette} 
+                    onChange={(e) => setPalette(e.target.value as PaletteId)}
+                    className="appearance-none h-full pl-8 pr-8 py-2 bg-black/40 border border-white/10 rounded-lg text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50 cursor-pointer hover:bg-white/5 transition-colors"
+                >
+                    {(Object.keys(PALETTES) as PaletteId[]).map((id) => (
+                        <option key={id} value={id} className="bg-slate-900">
+                            {PALETTES[id].label}
+                        </option>
+                    ))}
+                </select>
+                <Palette className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-white/50 pointer-events-none" />
+                <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-white/50 pointer-events-none" />
+            </div>
+
+            {/* Mode */}
+            <div className="relative">
+                <select 
+                    value={mode} 
+                    onChange={(e) => setMode(e.target.value as AppMode)}
+                    title="How the particles move"
+                    className="appearance-none h-full pl-8 pr-8 py-2 bg-black/40 border border-white/10 rounded-lg text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50 cursor-pointer hover:bg-white/5 transition-colors"
+                >
+                    {BEHAVIOR_OPTIONS.map((opt) => (
+                        <option key={opt.id} value={opt.id} className="bg-slate-900">
+                            {opt.label}
+                        </option>
+                    ))}
+                </select>
+                <Orbit className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-white/50 pointer-events-none" />
+                <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-white/50 pointer-events-none" />
+            </div>
+            {mode !== AppMode.FORM && (
+                <label
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white/50 text-xs font-cinzel whitespace-nowrap"
+                    title="Blend the shape back in: the particles keep some of its pull"
+                >
+                    <span>Hold</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={MAX_SHAPE_HOLD}
+                        step={0.05}
+                        value={shapeHold}
+                        onChange={(e) => setShapeHold(Number(e.target.value))}
+                        className="w-20 accent-amber-400"
+                    />
+                </label>
+            )}
+
+            {/* Physics */}
+            <button 
+                onClick={() => setPhysicsPanelOpen(!physicsPanelOpen)}
+                title="Tune how the particles pull, swirl and spin"
+                className={clsx(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                    Object.keys(physics).length > 0
+                      ? "bg-amber-500/20 border-amber-400/50 text-amber-100"
+                      : "bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+                )}
+            >
+                <SlidersHorizontal className="w-4 h-4" />
+                Physics
+            </button>
+
+            {/* Music */}
+            <button 
+                onClick={() => setAudioPanelOpen(!audioPanelOpen)}
+                title="Make the particles dance to the microphone or a track"
+                className={clsx(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                    audioInput
+                      ? "bg-amber-500/20 border-amber-400/50 text-amber-100"
+                      : "bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+                )}
+            >
+                <Music className="w-4 h-4" />
+                Music
+            </button>
+
+            {/* Show */}
+            <input 
+                ref={showInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleShowFile(file);
+                    e.target.value = "";
+                }}
+            />
+            <button 
+                onClick={() => showInputRef.current?.click()}
+                disabled={showLoading}
+                title="Play a show timeline (JSON)"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap bg-white/5 border-white/10 text-white/60 hover:bg-white/10 disabled:opacity-50"
+            >
+                {showLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Clapperboard className="w-4 h-4" />}
+                Show
+            </button>
+
+            {/* Capture */}
+            <button 
+                onClick={() => setCapturePanelOpen(!capturePanelOpen)}
+                title="Save a snapshot, video or GIF of the particles"
+                className={clsx(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                    recorder
+                      ? "bg-red-500/20 border-red-500/50 text-red-200"
+                      : "bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+                )}
+            >
+                <Video className="w-4 h-4" />
+                Capture
+            </button>
+
+            {/* Share */}
+            <button 
+                onClick={handleShare}
+                title="Copy a link to this scene"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+            >
+                <Share2 className="w-4 h-4" />
+                Share
+            </button>
+
+            {/* Wand */}
+            <button 
+                onClick={() => setWandActive(!wandActive)}
+                title="Draw through the particles with the mouse or your fingers"
+                className={clsx(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg transition-all font-cinzel text-xs border whitespace-nowrap",
+                    wandActive
+                      ? "bg-amber-500/20 border-amber-400/50 text-amber-100"
+                      : "bg-white/5 border-white/10 text-white/60 hover:bg-white/10"
+                )}
+            >
+                <WandSparkles className="w-4 h-4" />
+                Wand
+            </button>
+
             {/* Interaction Hint (Mouse) */}
             <div 
                 className="hidden md:flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white/50 text-xs font-cinzel cursor-help whitespace-nowrap"
-                onMouseEnter={() => setMode(AppMode.SCATTER)}
-                onMouseLeave={() => setMode(AppMode.FORM)}
+                onMouseEnter={() => {
+                    hoverModeRef.current = mode;
+                    setMode(AppMode.SCATTER);
+                }}
+                onMouseLeave={() => setMode(hoverModeRef.current ?? AppMode.FORM)}
                 onMouseDown={() => setMode(AppMode.FORM)}
             >
                 <Hand className="w-4 h-4" />
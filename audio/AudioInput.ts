@@ -0,0 +1,117 @@
+import { AudioAnalyzer, AudioAnalyzerConfig, AudioFeatures, SILENT_AUDIO_FEATURES } from './analyzer';
+
+export type AudioSourceKind = 'microphone' | 'file';
+
+export class AudioInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioInputError';
+  }
+}
+
+const FFT_SIZE = 2048;
+
+// Live audio (microphone or a looping local track) through an AnalyserNode into the analyzer.
+// Pull-based: read() once per rendered frame; nothing runs while nobody reads.
+export class AudioInput {
+  readonly kind: AudioSourceKind;
+  readonly label: string;
+  readonly analyzer: AudioAnalyzer;
+  private context: AudioContext;
+  private analyserNode: AnalyserNode;
+  private source: AudioNode;
+  private stream: MediaStream | null;
+  private magnitudes: Float32Array<ArrayBuffer>;
+  private lastRead = -1;
+  private features: AudioFeatures = SILENT_AUDIO_FEATURES;
+
+  private constructor(
+    kind: AudioSourceKind,
+    label: string,
+    context: AudioContext,
+    source: AudioNode,
+    stream: MediaStream | null,
+    config: Partial<AudioAnalyzerConfig>
+  ) {
+    this.kind = kind;
+    this.label = label;
+    this.context = context;
+    this.source = source;
+    this.stream = stream;
+    this.analyzer = new AudioAnalyzer(config);
+    this.analyserNode = context.createAnalyser();
+    this.analyserNode.fftSize = FFT_SIZE;
+    // The analyzer does its own smoothing; the node's would blur the onsets
+    this.analyserNode.smoothingTimeConstant = 0;
+    this.magnitudes = new Float32Array(this.analyserNode.frequencyBinCount);
+    source.connect(this.analyserNode);
+  }
+
+  static async fromMicrophone(config: Partial<AudioAnalyzerConfig> = {}): Promise<AudioInput> {
+    let stream: MediaStream;
+    try {
+      // Processing meant for voice calls would flatten the music
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+    } catch (e) {
+      throw new AudioInputError(
+        e instanceof DOMException && e.name === 'NotAllowedError' ? "Microphone access was denied." : "No microphone available."
+      );
+    }
+    const context = new AudioContext();
+    await context.resume();
+    // Not connected to the speakers, or the room would hear itself
+    const source = context.createMediaStreamSource(stream);
+    return new AudioInput('microphone', "Microphone", context, source, stream, config);
+  }
+
+  static async fromFile(file: File, config: Partial<AudioAnalyzerConfig> = {}): Promise<AudioInput> {
+    const context = new AudioContext();
+    let buffer: AudioBuffer;
+    try {
+      buffer = await context.decodeAudioData(await file.arrayBuffer());
+    } catch (e) {
+      await context.close();
+      throw new AudioInputError("Couldn't decode that audio file.");
+    }
+    await context.resume();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(context.destination);
+    source.start();
+    return new AudioInput('file', file.name, context, source, null, config);
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.analyzer.config = { ...this.analyzer.config, sensitivity };
+  }
+
+  // Features for the current moment; repeated reads within one audio render quantum reuse the last result
+  read(): AudioFeatures {
+    const time = this.context.currentTime;
+    if (time === this.lastRead) return this.features;
+    this.lastRead = time;
+
+    this.analyserNode.getFloatFrequencyData(this.magnitudes);
+    // dB to linear, the scale the analyzer expects
+    for (let k = 0; k < this.magnitudes.length; k++) {
+      const db = this.magnitudes[k];
+      this.magnitudes[k] = isFinite(db) ? Math.pow(10, db / 20) : 0;
+    }
+    this.features = this.analyzer.process(this.magnitudes, this.context.sampleRate / FFT_SIZE, time);
+    return this.features;
+  }
+
+  get latest() {
+    return this.features;
+  }
+
+  dispose() {
+    if (this.source instanceof AudioBufferSourceNode) this.source.stop();
+    this.source.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.context.close().catch(() => {});
+  }
+}
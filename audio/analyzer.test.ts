@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAudioBuffer, analyzeSamples } from './analyzer';
+
+const SAMPLE_RATE = 44100;
+
+// A bare kick drum: a 150 -> 50 Hz sine sweep with a fast exponential decay
+const kickTrack = (bpm: number, seconds: number) => {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const interval = 60 / bpm;
+  for (let start = 0; start < seconds; start += interval) {
+    const first = Math.round(start * SAMPLE_RATE);
+    let phase = 0;
+    for (let i = first; i < Math.min(samples.length, first + SAMPLE_RATE * 0.2); i++) {
+      const t = (i - first) / SAMPLE_RATE;
+      phase += (2 * Math.PI * (50 + 100 * Math.exp(-t * 30))) / SAMPLE_RATE;
+      samples[i] += Math.sin(phase) * Math.exp(-t * 20) * 0.8;
+    }
+  }
+  return samples;
+};
+
+// The kick at 0 s has no history to stand out from, so every later one counts
+describe('analyzeSamples', () => {
+  it('finds the beats and tempo of a 120 BPM kick track', () => {
+    const frames = analyzeSamples(kickTrack(120, 8), SAMPLE_RATE);
+    const beats = frames.filter((frame) => frame.beat);
+    expect(beats).toHaveLength(15);
+    beats.forEach((frame, i) => expect(frame.time).toBeCloseTo((i + 1) * 0.5, 1));
+    expect(frames[frames.length - 1].tempo).toBe(120);
+  });
+
+  it('hears nothing in silence', () => {
+    const frames = analyzeSamples(new Float32Array(SAMPLE_RATE * 2), SAMPLE_RATE);
+    expect(frames.some((frame) => frame.beat || frame.onset)).toBe(false);
+    expect(frames.every((frame) => frame.level === 0 && frame.tempo === null)).toBe(true);
+  });
+});
+
+describe('analyzeAudioBuffer', () => {
+  it('mixes channels down before analyzing', () => {
+    const kick = kickTrack(120, 8);
+    const buffer = {
+      length: kick.length,
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: 2,
+      getChannelData: (channel: number) => (channel === 0 ? kick : new Float32Array(kick.length)),
+    } as AudioBuffer;
+    const beats = analyzeAudioBuffer(buffer).filter((frame) => frame.beat);
+    expect(beats).toHaveLength(15);
+  });
+});
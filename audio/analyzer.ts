@@ -0,0 +1,207 @@
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+// Frequency ranges in Hz. Bass is kick and bass line, highs are hats, cymbals and sibilance.
+export const AUDIO_BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  high: [2000, 12000],
+} as const;
+
+export type AudioBand = keyof typeof AUDIO_BANDS;
+
+export interface AudioFeatures {
+  time: number; // Seconds
+  level: number; // Overall loudness, 0-1 relative to the recent peak
+  bass: number; // Band levels, 0-1 relative to each band's recent peak
+  mid: number;
+  high: number;
+  onset: boolean; // A sharp attack anywhere in the spectrum this frame
+  beat: boolean; // An attack in the low end, at most one per minBeatIntervalMs
+  tempo: number | null; // BPM estimated from recent beats
+}
+
+export const SILENT_AUDIO_FEATURES: AudioFeatures = {
+  time: 0,
+  level: 0,
+  bass: 0,
+  mid: 0,
+  high: 0,
+  onset: false,
+  beat: false,
+  tempo: null,
+};
+
+export interface AudioAnalyzerConfig {
+  sensitivity: number; // Gain on levels, and lower attack thresholds above 1; 1 is neutral
+  onsetThreshold: number; // Standard deviations above the recent mean flux that count as an attack
+  historySeconds: number; // Window for the adaptive thresholds
+  minBeatIntervalMs: number; // Closer beats are merged (250 ms is 240 BPM)
+  peakReleaseSeconds: number; // How fast the auto gain recovers after a loud passage
+  levelReleaseSeconds: number; // How fast levels fall back, so motion doesn't flicker
+}
+
+export const DEFAULT_AUDIO_ANALYZER_CONFIG: AudioAnalyzerConfig = {
+  sensitivity: 1,
+  onsetThreshold: 1.5,
+  historySeconds: 1.5,
+  minBeatIntervalMs: 250,
+  peakReleaseSeconds: 4,
+  levelReleaseSeconds: 0.15,
+};
+
+// Below this (about -60 dBFS) counts as silence, so a quiet room doesn't get auto-gained up
+const NOISE_FLOOR = 0.001;
+const MIN_FLUX = 0.05;
+const MIN_ONSET_GAP_SECONDS = 0.1;
+const TEMPO_BEATS = 8;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const deviation = (values: number[], avg: number) =>
+  Math.sqrt(values.reduce((sum, v) => sum + (v - avg) * (v - avg), 0) / values.length);
+
+// Adaptive threshold over a sliding time window
+class FluxHistory {
+  private entries: { time: number; flux: number }[] = [];
+
+  // True when `flux` stands out from the window before it
+  isPeak(time: number, flux: number, windowSeconds: number, threshold: number) {
+    this.entries = this.entries.filter(entry => time - entry.time <= windowSeconds);
+    const values = this.entries.map(entry => entry.flux);
+    this.entries.push({ time, flux });
+    if (values.length < 4 || flux < MIN_FLUX) return false;
+    const avg = mean(values);
+    return flux > avg + threshold * deviation(values, avg);
+  }
+}
+
+// Turns a stream of magnitude spectra into levels, onsets and beats. The same code runs on a
+// live AnalyserNode and on offline buffers (see analyzeSamples), so it can be tested without a device.
+export class AudioAnalyzer {
+  config: AudioAnalyzerConfig;
+  private previous: Float32Array | null = null;
+  private lastTime: number | null = null;
+  private peaks = { level: NOISE_FLOOR, bass: NOISE_FLOOR, mid: NOISE_FLOOR, high: NOISE_FLOOR };
+  private levels = { level: 0, bass: 0, mid: 0, high: 0 };
+  private onsetHistory = new FluxHistory();
+  private beatHistory = new FluxHistory();
+  private lastOnset = -Infinity;
+  private lastBeat = -Infinity;
+  private beatIntervals: number[] = [];
+
+  constructor(config: Partial<AudioAnalyzerConfig> = {}) {
+    this.config = { ...DEFAULT_AUDIO_ANALYZER_CONFIG, ...config };
+  }
+
+  // `magnitudes` are linear bin magnitudes, bin k centered on k * binHz; `time` in seconds
+  process(magnitudes: Float32Array, binHz: number, time: number): AudioFeatures {
+    const { sensitivity, onsetThreshold, historySeconds, minBeatIntervalMs, peakReleaseSeconds, levelReleaseSeconds } = this.config;
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const binRange = (band: AudioBand) => {
+      const [low, high] = AUDIO_BANDS[band];
+      return [Math.max(1, Math.floor(low / binHz)), Math.min(magnitudes.length - 1, Math.ceil(high / binHz))];
+    };
+    const rms = (from: number, to: number) => {
+      let sum = 0;
+      for (let k = from; k <= to; k++) sum += magnitudes[k] * magnitudes[k];
+      return Math.sqrt(sum / Math.max(1, to - from + 1));
+    };
+
+    // Levels against a slowly releasing peak (auto gain), then a smoothed fall
+    const [bassFrom, bassTo] = binRange('bass');
+    const [midFrom, midTo] = binRange('mid');
+    const [highFrom, highTo] = binRange('high');
+    const raw = {
+      level: rms(bassFrom, highTo),
+      bass: rms(bassFrom, bassTo),
+      mid: rms(midFrom, midTo),
+      high: rms(highFrom, highTo),
+    };
+    const peakKeep = Math.exp(-dt / peakReleaseSeconds);
+    const levelKeep = Math.exp(-dt / levelReleaseSeconds);
+    for (const key of Object.keys(raw) as (keyof typeof raw)[]) {
+      this.peaks[key] = Math.max(raw[key], NOISE_FLOOR, this.peaks[key] * peakKeep);
+      const target = raw[key] <= NOISE_FLOOR ? 0 : Math.min(1, (raw[key] / this.peaks[key]) * sensitivity);
+      this.levels[key] = Math.max(target, this.levels[key] * levelKeep);
+    }
+
+    // Spectral flux on log-compressed magnitudes, so quiet attacks still register
+    let flux = 0;
+    let bassFlux = 0;
+    const previous = this.previous;
+    const current = new Float32Array(magnitudes.length);
+    for (let k = 0; k < magnitudes.length; k++) {
+      current[k] = Math.log1p(100 * magnitudes[k]);
+      if (!previous) continue;
+      const rise = current[k] - previous[k];
+      if (rise <= 0) continue;
+      if (k >= bassFrom && k <= highTo) flux += rise;
+      if (k >= bassFrom && k <= bassTo) bassFlux += rise;
+    }
+    this.previous = current;
+    flux /= Math.max(1, highTo - bassFrom + 1);
+    bassFlux /= Math.max(1, bassTo - bassFrom + 1);
+
+    const threshold = onsetThreshold / Math.max(0.1, sensitivity);
+    let onset = this.onsetHistory.isPeak(time, flux, historySeconds, threshold);
+    if (onset && time - this.lastOnset < MIN_ONSET_GAP_SECONDS) onset = false;
+    if (onset) this.lastOnset = time;
+
+    let beat = this.beatHistory.isPeak(time, bassFlux, historySeconds, threshold);
+    if (beat && (time - this.lastBeat) * 1000 < minBeatIntervalMs) beat = false;
+    if (beat) {
+      const interval = time - this.lastBeat;
+      if (interval >= 0.25 && interval <= 2) {
+        this.beatIntervals.push(interval);
+        if (this.beatIntervals.length > TEMPO_BEATS) this.beatIntervals.shift();
+      }
+      this.lastBeat = time;
+    }
+
+    return {
+      time,
+      ...this.levels,
+      onset,
+      beat,
+      tempo: this.tempo(),
+    };
+  }
+
+  // Median of recent beat intervals, once there are enough of them
+  private tempo() {
+    if (this.beatIntervals.length < 4) return null;
+    const sorted = this.beatIntervals.slice().sort((a, b) => a - b);
+    return Math.round(60 / sorted[Math.floor(sorted.length / 2)]);
+  }
+}
+
+export interface OfflineAnalysisOptions extends Partial<AudioAnalyzerConfig> {
+  fftSize?: number; // Power of two, default 2048
+  hopSize?: number; // Samples between frames, default 512
+}
+
+// Analyze mono samples frame by frame, exactly as the live input would hear them
+export const analyzeSamples = (samples: Float32Array, sampleRate: number, options: OfflineAnalysisOptions = {}): AudioFeatures[] => {
+  const { fftSize = 2048, hopSize = 512, ...config } = options;
+  const analyzer = new AudioAnalyzer(config);
+  const window = hannWindow(fftSize);
+  const magnitudes = new Float32Array(fftSize / 2);
+  const frames: AudioFeatures[] = [];
+  for (let offset = 0; offset + fftSize <= samples.length; offset += hopSize) {
+    magnitudeSpectrum(samples, offset, window, magnitudes);
+    frames.push(analyzer.process(magnitudes, sampleRate / fftSize, (offset + fftSize) / sampleRate));
+  }
+  return frames;
+};
+
+// A decoded track (all channels mixed down)
+export const analyzeAudioBuffer = (buffer: AudioBuffer, options: OfflineAnalysisOptions = {}) => {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return analyzeSamples(mono, buffer.sampleRate, options);
+};
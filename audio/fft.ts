@@ -0,0 +1,62 @@
+// In-place iterative radix-2 FFT; re/im length must be a power of two
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number) => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  return window;
+};
+
+// Magnitudes of bins 0..size/2-1 for one windowed frame, scaled so a full-scale sine reads about 1
+// (the same range as an AnalyserNode's linear output)
+export const magnitudeSpectrum = (
+  samples: Float32Array,
+  offset: number,
+  window: Float32Array,
+  out = new Float32Array(window.length / 2)
+) => {
+  const size = window.length;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  let gain = 0;
+  for (let i = 0; i < size; i++) {
+    re[i] = (samples[offset + i] ?? 0) * window[i];
+    gain += window[i];
+  }
+  fft(re, im);
+  const scale = 2 / gain;
+  for (let k = 0; k < out.length; k++) out[k] = Math.hypot(re[k], im[k]) * scale;
+  return out;
+};
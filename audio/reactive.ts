@@ -0,0 +1,28 @@
+import { AudioDrive } from '../simulation/ParticleSimulation';
+import { AudioFeatures } from './analyzer';
+
+// What a beat does to the cloud: a clean radial pulse, a scattering burst, or nothing
+export type BeatReaction = 'pulse' | 'burst' | 'off';
+
+export const BEAT_REACTIONS: { id: BeatReaction; label: string }[] = [
+  { id: 'pulse', label: 'Pulse on beats' },
+  { id: 'burst', label: 'Burst on beats' },
+  { id: 'off', label: 'Ignore beats' },
+];
+
+// Bass swells the shape, highs make it buzz. Squaring the highs keeps hiss from shaking everything.
+export const audioDrive = (features: AudioFeatures): AudioDrive => ({
+  expansion: features.bass,
+  jitter: features.high * features.high,
+});
+
+// The kick for this frame, if it has a beat
+export const beatKick = (features: AudioFeatures, reaction: BeatReaction) => {
+  if (!features.beat || reaction === 'off') return null;
+  return reaction === 'pulse'
+    ? { strength: 1 + features.bass * 1.5, scatter: 0 }
+    : { strength: 3 + features.bass * 3, scatter: 1.5 };
+};
+
+// Point size multiplier: highs make the particles sparkle
+export const sparkleScale = (features: AudioFeatures) => 1 + features.high * 0.8;
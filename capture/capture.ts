@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import { ParticleStepper } from '../components/MagicParticles';
+import { GifEncoder } from './gifEncoder';
+
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+// The R3F canvas, as handed out by CaptureBridge
+export interface CaptureTarget {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  setFrameloop: (frameloop: 'always' | 'never') => void;
+}
+
+// The page gradient lives in CSS, behind a transparent canvas; exports get a flat stand-in
+export const CAPTURE_BACKGROUND = '#0b1120';
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new CaptureError("Couldn't encode the image."))), type);
+  });
+
+// The WebGL canvas over the background, optionally resized
+const composite = (source: HTMLCanvasElement, width: number, height: number, canvas = document.createElement('canvas')) => {
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new CaptureError("This browser can't export images.");
+  ctx.fillStyle = CAPTURE_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx;
+};
+
+// --- Stills ---
+
+// PNG at `scale` times the current resolution (capped by what the GPU can render)
+export const captureStill = async (target: CaptureTarget, scale: number): Promise<Blob> => {
+  const { gl, scene, camera } = target;
+  const base = gl.getPixelRatio();
+  const size = gl.getSize(new THREE.Vector2());
+  const maxRatio = gl.capabilities.maxTextureSize / Math.max(size.x, size.y);
+  gl.setPixelRatio(Math.min(base * scale, maxRatio));
+  try {
+    // Read back in the same task as the render, before the drawing buffer is cleared
+    gl.render(scene, camera);
+    const canvas = gl.domElement;
+    const ctx = composite(canvas, canvas.width, canvas.height);
+    return await toBlob(ctx.canvas, 'image/png');
+  } finally {
+    gl.setPixelRatio(base);
+    gl.render(scene, camera);
+  }
+};
+
+// --- Video ---
+
+export interface VideoRecorderOptions {
+  fps: number;
+  manual?: boolean; // Frames are only taken on requestFrame(), for offline renders
+}
+
+// WebM of the canvas via captureStream + MediaRecorder. Video can't carry the CSS gradient,
+// so the scene is painted over the flat background until the recording stops.
+export class VideoRecorder {
+  readonly mimeType: string;
+  private recorder: MediaRecorder;
+  private stream: MediaStream;
+  private track: CanvasCaptureMediaStreamTrack | null;
+  private chunks: Blob[] = [];
+  private restoreBackground: () => void;
+
+  constructor(target: CaptureTarget, options: VideoRecorderOptions) {
+    const canvas = target.gl.domElement;
+    if (typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+      throw new CaptureError("This browser can't record video.");
+    }
+    const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new CaptureError("This browser can't record WebM.");
+    this.mimeType = mimeType;
+
+    this.stream = canvas.captureStream(options.manual ? 0 : options.fps);
+    this.track = options.manual ? (this.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack) : null;
+    this.recorder = new MediaRecorder(this.stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(1000);
+
+    const { scene } = target;
+    const background = scene.background;
+    scene.background = new THREE.Color(CAPTURE_BACKGROUND);
+    this.restoreBackground = () => {
+      scene.background = background;
+    };
+  }
+
+  requestFrame() {
+    this.track?.requestFrame();
+  }
+
+  stop(): Promise<Blob> {
+    return new Promise(resolve => {
+      this.recorder.onstop = () => {
+        this.stream.getTracks().forEach(track => track.stop());
+        this.restoreBackground();
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+      };
+      this.recorder.stop();
+    });
+  }
+}
+
+// --- Offline rendering ---
+
+export interface OfflineRenderOptions {
+  fps: number;
+  seconds: number;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// Take the scene off the render loop and step it frame by frame at exactly 1/fps,
+// waiting for the simulation each time, so exports are jitter-free whatever the machine does
+const renderOffline = async (
+  target: CaptureTarget,
+  stepper: ParticleStepper,
+  options: OfflineRenderOptions,
+  onFrame: (index: number) => void | Promise<void>
+) => {
+  const { fps, seconds, onProgress, signal } = options;
+  const frames = Math.max(1, Math.round(seconds * fps));
+  target.setFrameloop('never');
+  stepper.setManual(true);
+  try {
+    for (let i = 0; i < frames; i++) {
+      if (signal?.aborted) throw new CaptureError("Capture cancelled.");
+      await stepper.step(1 / fps);
+      target.gl.render(target.scene, target.camera);
+      await onFrame(i);
+      onProgress?.(i + 1, frames);
+    }
+  } finally {
+    stepper.setManual(false);
+    target.setFrameloop('always');
+  }
+};
+
+// MediaRecorder stamps frames with wall-clock time, so frames are handed over no faster
+// than real time; a machine too slow for that gets a slowed-down video, never a jittery one
+export const renderVideoOffline = async (target: CaptureTarget, stepper: ParticleStepper, options: OfflineRenderOptions) => {
+  const recorder = new VideoRecorder(target, { fps: options.fps, manual: true });
+  const start = performance.now();
+  try {
+    await renderOffline(target, stepper, options, async (index) => {
+      recorder.requestFrame();
+      const wait = start + ((index + 1) * 1000) / options.fps - performance.now();
+      if (wait > 0) await sleep(wait);
+    });
+  } catch (e) {
+    await recorder.stop();
+    throw e;
+  }
+  return recorder.stop();
+};
+
+export interface GifRenderOptions extends OfflineRenderOptions {
+  width: number; // Output width in pixels; height follows the canvas
+}
+
+export const renderGif = async (target: CaptureTarget, stepper: ParticleStepper, options: GifRenderOptions): Promise<Blob> => {
+  const source = target.gl.domElement;
+  const scale = Math.min(1, options.width / source.width);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const scratch = document.createElement('canvas');
+  const encoder = new GifEncoder(width, height);
+
+  await renderOffline(target, stepper, options, () => {
+    const ctx = composite(source, width, height, scratch);
+    encoder.addFrame(ctx.getImageData(0, 0, width, height).data, 1000 / options.fps);
+  });
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+};
@@ -0,0 +1,247 @@
+// Animated GIF89a encoder: median-cut palette per frame, LZW compressed, looping.
+// Plain typed arrays, no DOM, so it works in a worker or in Node too.
+
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    this.reserve(values.length);
+    for (let i = 0; i < values.length; i++) this.bytes[this.length++] = values[i];
+  }
+
+  result() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// --- Median cut on a 5-bit-per-channel histogram ---
+
+interface ColorBox {
+  keys: number[]; // 15-bit colors in this box
+  count: number; // Pixels covered
+}
+
+const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+
+const boxRange = (box: ColorBox, c: number) => {
+  let min = 31, max = 0;
+  for (const key of box.keys) {
+    const v = channel(key, c);
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return max - min;
+};
+
+// Palette (rgb triplets) plus the palette index for every 15-bit color in the frame
+const quantize = (rgba: Uint8ClampedArray | Uint8Array, maxColors: number) => {
+  const histogram = new Uint32Array(1 << 15);
+  for (let i = 0; i < rgba.length; i += 4) {
+    histogram[((rgba[i] >> 3) << 10) | ((rgba[i + 1] >> 3) << 5) | (rgba[i + 2] >> 3)]++;
+  }
+  const keys: number[] = [];
+  let total = 0;
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) {
+      keys.push(key);
+      total += histogram[key];
+    }
+  }
+
+  const boxes: ColorBox[] = [{ keys, count: total }];
+  while (boxes.length < maxColors) {
+    // Split the busiest box that still has more than one color, along its widest channel
+    let best = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].keys.length > 1 && (best < 0 || boxes[i].count > boxes[best].count)) best = i;
+    }
+    if (best < 0) break;
+    const box = boxes[best];
+    const ranges = [0, 1, 2].map(c => boxRange(box, c));
+    const c = ranges.indexOf(Math.max(...ranges));
+    box.keys.sort((a, b) => channel(a, c) - channel(b, c));
+
+    let seen = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      seen += histogram[box.keys[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const low = box.keys.slice(0, split);
+    const high = box.keys.slice(split);
+    const countOf = (list: number[]) => list.reduce((sum, key) => sum + histogram[key], 0);
+    boxes.splice(best, 1, { keys: low, count: countOf(low) }, { keys: high, count: countOf(high) });
+  }
+
+  const palette: number[] = [];
+  const lookup = new Uint8Array(1 << 15);
+  boxes.forEach((box, index) => {
+    const sum = [0, 0, 0];
+    for (const key of box.keys) {
+      for (let c = 0; c < 3; c++) sum[c] += ((channel(key, c) << 3) | 4) * histogram[key];
+      lookup[key] = index;
+    }
+    for (let c = 0; c < 3; c++) palette.push(Math.round(sum[c] / Math.max(1, box.count)));
+  });
+  return { palette, lookup };
+};
+
+// --- LZW ---
+
+const lzw = (indices: Uint8Array, minCodeSize: number, out: ByteWriter) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.array(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.array(block);
+  }
+  out.byte(0);
+};
+
+export interface GifEncoderOptions {
+  loop?: number; // Repeats, 0 = forever (default)
+  colors?: number; // Palette size per frame, up to 256
+}
+
+export class GifEncoder {
+  readonly width: number;
+  readonly height: number;
+  private out = new ByteWriter();
+  private maxColors: number;
+  private finished = false;
+
+  constructor(width: number, height: number, options: GifEncoderOptions = {}) {
+    this.width = width;
+    this.height = height;
+    this.maxColors = Math.min(256, Math.max(2, options.colors ?? 256));
+
+    const out = this.out;
+    out.text('GIF89a');
+    out.word(width);
+    out.word(height);
+    out.byte(0); // No global color table; every frame brings its own
+    out.byte(0);
+    out.byte(0);
+    // NETSCAPE2.0 application extension: loop count
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(options.loop ?? 0);
+    out.byte(0);
+  }
+
+  // `rgba` is width * height * 4 bytes, as from ImageData
+  addFrame(rgba: Uint8ClampedArray | Uint8Array, delayMs: number) {
+    if (this.finished) throw new Error("GIF already finished");
+    const { palette, lookup } = quantize(rgba, this.maxColors);
+    const colorBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0, p = 0; p < indices.length; i += 4, p++) {
+      indices[p] = lookup[((rgba[i] >> 3) << 10) | ((rgba[i + 1] >> 3) << 5) | (rgba[i + 2] >> 3)];
+    }
+
+    const out = this.out;
+    // Graphic control extension: frame delay in hundredths of a second
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0x04); // Disposal: leave in place
+    out.word(Math.round(delayMs / 10));
+    out.byte(0);
+    out.byte(0);
+    // Image descriptor with a local color table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0x80 | (colorBits - 1));
+    out.array(palette);
+    for (let i = palette.length; i < 3 * (1 << colorBits); i++) out.byte(0);
+    lzw(indices, Math.max(2, colorBits), out);
+  }
+
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.out.byte(0x3b);
+      this.finished = true;
+    }
+    return this.out.result();
+  }
+}
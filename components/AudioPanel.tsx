@@ -0,0 +1,145 @@
+import React, { useEffect, useRef } from 'react';
+import { FileAudio, Loader2, Mic, Square } from 'lucide-react';
+import { AudioInput } from '../audio/AudioInput';
+import { BEAT_REACTIONS, BeatReaction } from '../audio/reactive';
+
+interface AudioPanelProps {
+  input: AudioInput | null;
+  loading: boolean;
+  sensitivity: number;
+  onSensitivityChange: (sensitivity: number) => void;
+  beatReaction: BeatReaction;
+  onBeatReactionChange: (reaction: BeatReaction) => void;
+  onMicrophone: () => void;
+  onFile: (file: File) => void;
+  onStop: () => void;
+}
+
+const METER_BANDS = [
+  { key: 'bass', label: 'Bass', color: 'bg-red-400' },
+  { key: 'mid', label: 'Mid', color: 'bg-amber-300' },
+  { key: 'high', label: 'High', color: 'bg-cyan-300' },
+] as const;
+
+// Source, sensitivity and beat reaction for the audio-reactive mode, with a live level meter
+export const AudioPanel: React.FC<AudioPanelProps> = ({
+  input,
+  loading,
+  sensitivity,
+  onSensitivityChange,
+  beatReaction,
+  onBeatReactionChange,
+  onMicrophone,
+  onFile,
+  onStop,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const beatRef = useRef<HTMLSpanElement>(null);
+
+  // The meter follows what the particles last read, without re-rendering React every frame
+  useEffect(() => {
+    if (!input) return;
+    let frame = requestAnimationFrame(function draw() {
+      const features = input.latest;
+      METER_BANDS.forEach(({ key }, i) => {
+        const bar = barRefs.current[i];
+        if (bar) bar.style.width = `${features[key] * 100}%`;
+      });
+      if (beatRef.current) {
+        beatRef.current.textContent = features.tempo ? `${features.tempo} BPM` : "";
+        if (features.beat) beatRef.current.animate([{ opacity: 1 }, { opacity: 0.4 }], { duration: 200 });
+      }
+      frame = requestAnimationFrame(draw);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [input]);
+
+  return (
+    <div className="flex flex-col gap-3 px-4 py-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-xs font-cinzel text-white/70">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onMicrophone}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50"
+        >
+          <Mic className="w-4 h-4" />
+          Microphone
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50"
+        >
+          <FileAudio className="w-4 h-4" />
+          Track
+        </button>
+        {loading && <Loader2 className="w-4 h-4 animate-spin text-amber-200" />}
+        {input && (
+          <>
+            <span className="truncate max-w-[12rem] text-amber-100" title={input.label}>{input.label}</span>
+            <button
+              onClick={onStop}
+              title="Stop listening"
+              className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-white/60 hover:text-white"
+            >
+              <Square className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {input && (
+        <div className="flex items-center gap-3">
+          {METER_BANDS.map(({ key, label, color }, i) => (
+            <div key={key} className="flex items-center gap-1 flex-1">
+              <span className="text-[10px] text-white/40 w-8">{label}</span>
+              <div className="flex-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                <div ref={(el) => { barRefs.current[i] = el; }} className={`h-full ${color}`} style={{ width: 0 }} />
+              </div>
+            </div>
+          ))}
+          <span ref={beatRef} className="font-mono text-[10px] text-white/50 w-14 text-right" />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 flex-1 min-w-[10rem]">
+          <span className="text-white/50">Sensitivity</span>
+          <input
+            type="range"
+            min={0.25}
+            max={3}
+            step={0.05}
+            value={sensitivity}
+            onChange={(e) => onSensitivityChange(Number(e.target.value))}
+            className="flex-1 accent-amber-400"
+          />
+          <span className="font-mono text-[10px] text-white/50 w-8">{sensitivity.toFixed(2)}</span>
+        </label>
+        <select
+          value={beatReaction}
+          onChange={(e) => onBeatReactionChange(e.target.value as BeatReaction)}
+          className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50"
+        >
+          {BEAT_REACTIONS.map((option) => (
+            <option key={option.id} value={option.id} className="bg-slate-900">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { CaptureTarget } from '../capture/capture';
+
+interface CaptureBridgeProps {
+  targetRef: React.MutableRefObject<CaptureTarget | null>;
+}
+
+// Hands the renderer, scene and camera of the surrounding <Canvas> to code outside it
+export const CaptureBridge: React.FC<CaptureBridgeProps> = ({ targetRef }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const setFrameloop = useThree((state) => state.setFrameloop);
+
+  useEffect(() => {
+    targetRef.current = { gl, scene, camera, setFrameloop };
+    return () => {
+      targetRef.current = null;
+    };
+  }, [targetRef, gl, scene, camera, setFrameloop]);
+
+  return null;
+};
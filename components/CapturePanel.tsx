@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Circle, Clapperboard, Film, Image, Loader2, Square, X } from 'lucide-react';
+import clsx from 'clsx';
+
+export type CaptureFormat = 'webm' | 'gif';
+
+export interface CaptureRenderSettings {
+  format: CaptureFormat;
+  seconds: number;
+  fps: number;
+  width: number; // GIF only
+}
+
+interface CapturePanelProps {
+  recording: boolean;
+  busy: boolean;
+  progress: number | null; // 0..1 while an offline render runs
+  clean: boolean;
+  onCleanChange: (clean: boolean) => void;
+  onStill: (scale: number) => void;
+  onRecord: () => void;
+  onStop: () => void;
+  onRender: (settings: CaptureRenderSettings) => void;
+  onCancel: () => void;
+}
+
+const STILL_SCALES = [1, 2, 4];
+
+// GIFs get big fast; these keep a loop shareable
+const RENDER_DEFAULTS: Record<CaptureFormat, Omit<CaptureRenderSettings, 'format'>> = {
+  webm: { seconds: 10, fps: 60, width: 0 },
+  gif: { seconds: 3, fps: 15, width: 480 },
+};
+
+const numberInput =
+  "w-14 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono text-white focus:outline-none focus:border-amber-400/50";
+
+const buttonClass =
+  "flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50";
+
+// Snapshots, live recording and frame-by-frame renders of the particle canvas
+export const CapturePanel: React.FC<CapturePanelProps> = ({
+  recording,
+  busy,
+  progress,
+  clean,
+  onCleanChange,
+  onStill,
+  onRecord,
+  onStop,
+  onRender,
+  onCancel,
+}) => {
+  const [scale, setScale] = useState(2);
+  const [format, setFormat] = useState<CaptureFormat>('webm');
+  const [settings, setSettings] = useState(RENDER_DEFAULTS);
+  const current = settings[format];
+  const locked = busy || recording;
+
+  const update = (patch: Partial<Omit<CaptureRenderSettings, 'format'>>) =>
+    setSettings((prev) => ({ ...prev, [format]: { ...prev[format], ...patch } }));
+
+  return (
+    <div className="flex flex-col gap-3 px-4 py-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-xs font-cinzel text-white/70">
+      <div className="flex flex-wrap items-center gap-2">
+        {/* Still */}
+        <select
+          value={scale}
+          onChange={(e) => setScale(Number(e.target.value))}
+          disabled={locked}
+          title="Snapshot resolution"
+          className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50"
+        >
+          {STILL_SCALES.map((value) => (
+            <option key={value} value={value} className="bg-slate-900">
+              {value}x
+            </option>
+          ))}
+        </select>
+        <button onClick={() => onStill(scale)} disabled={locked} className={buttonClass}>
+          <Image className="w-4 h-4" />
+          Snapshot
+        </button>
+
+        {/* Live */}
+        {recording ? (
+          <button onClick={onStop} className={clsx(buttonClass, "text-red-200 border-red-500/50")}>
+            <Square className="w-3 h-3" />
+            Stop
+          </button>
+        ) : (
+          <button onClick={onRecord} disabled={busy} title="Record WebM as it plays" className={buttonClass}>
+            <Circle className="w-3 h-3 text-red-400" />
+            Record
+          </button>
+        )}
+
+        <label
+          className="flex items-center gap-2 ml-auto cursor-pointer"
+          title="Hide the interface and ignore the webcam while capturing"
+        >
+          <input
+            type="checkbox"
+            checked={clean}
+            onChange={(e) => onCleanChange(e.target.checked)}
+            disabled={locked}
+            className="accent-amber-400"
+          />
+          Clean
+        </label>
+      </div>
+
+      {/* Offline render */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as CaptureFormat)}
+          disabled={locked}
+          className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50"
+        >
+          <option value="webm" className="bg-slate-900">WebM</option>
+          <option value="gif" className="bg-slate-900">GIF</option>
+        </select>
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            max={format === 'gif' ? 10 : 120}
+            value={current.seconds}
+            onChange={(e) => update({ seconds: Number(e.target.value) })}
+            disabled={locked}
+            className={numberInput}
+          />
+          <span className="text-white/50">s</span>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={5}
+            max={60}
+            value={current.fps}
+            onChange={(e) => update({ fps: Number(e.target.value) })}
+            disabled={locked}
+            className={numberInput}
+          />
+          <span className="text-white/50">fps</span>
+        </label>
+        {format === 'gif' && (
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={120}
+              max={1280}
+              step={40}
+              value={current.width}
+              onChange={(e) => update({ width: Number(e.target.value) })}
+              disabled={locked}
+              className={numberInput}
+            />
+            <span className="text-white/50">px</span>
+          </label>
+        )}
+        {progress === null ? (
+          <button
+            onClick={() => onRender({ format, ...current })}
+            disabled={locked || !(current.seconds > 0 && current.fps > 0)}
+            title="Step the simulation frame by frame for a jitter-free export"
+            className={buttonClass}
+          >
+            {format === 'gif' ? <Clapperboard className="w-4 h-4" /> : <Film className="w-4 h-4" />}
+            Render
+          </button>
+        ) : (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin text-amber-200" />
+            <span className="font-mono text-[10px] text-amber-100 w-10">{Math.round(progress * 100)}%</span>
+            <button
+              onClick={onCancel}
+              title="Cancel the render"
+              className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-white/60 hover:text-white"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
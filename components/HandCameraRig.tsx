@@ -0,0 +1,60 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandControlTracker } from '../utils/handControls';
+
+// Camera distance limits, shared with mouse zoom
+export const CAMERA_DISTANCE = { min: 2.5, max: 9 };
+
+// Distance doublings from fully closed to fully open pinch
+const ZOOM_OCTAVES = 2;
+
+interface HandCameraRigProps {
+  hands: HandControlTracker;
+}
+
+interface RigBase {
+  hands: number;
+  spherical: THREE.Spherical;
+  pinch: number;
+  orbit: number;
+}
+
+// Flies the camera from hand controls: one hand's pinch zooms, hand position and roll orbit.
+// Everything is relative to where the camera was when the hands were found, so taking over
+// from the mouse (and handing back to it) never jumps.
+export const HandCameraRig: React.FC<HandCameraRigProps> = ({ hands }) => {
+  const baseRef = useRef<RigBase | null>(null);
+  const spherical = useMemo(() => new THREE.Spherical(), []);
+
+  useFrame(({ camera }) => {
+    const controls = hands.sample(performance.now());
+    if (controls.hands === 0) {
+      baseRef.current = null;
+      return;
+    }
+
+    let base = baseRef.current;
+    if (!base || base.hands !== controls.hands) {
+      base = baseRef.current = {
+        hands: controls.hands,
+        spherical: new THREE.Spherical().setFromVector3(camera.position),
+        pinch: controls.pinch,
+        orbit: controls.orbit,
+      };
+    }
+
+    spherical.copy(base.spherical);
+    // Moving right turns the shape right, like dragging it
+    spherical.theta -= controls.orbit - base.orbit;
+    if (controls.hands === 1) {
+      // Opening the pinch moves in, closing it backs off
+      const radius = base.spherical.radius * 2 ** ((base.pinch - controls.pinch) * ZOOM_OCTAVES);
+      spherical.radius = Math.min(CAMERA_DISTANCE.max, Math.max(CAMERA_DISTANCE.min, radius));
+    }
+    camera.position.setFromSpherical(spherical);
+    camera.lookAt(0, 0, 0);
+  });
+
+  return null;
+};
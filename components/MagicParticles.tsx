@@ -1,224 +1,265 @@
-import React, { useRef, useMemo, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Point3D, AppMode } from '../types';
+import { Point3D, AppMode, MotionRegion, ShapeSource } from '../types';
+import { createSimulationDriver, SimulationDriver } from '../simulation/simulationDriver';
+import { MorphStyle } from '../simulation/correspondence';
+import { DEFAULT_SIMULATION_PARAMS, ForceField, SimulationParams } from '../simulation/ParticleSimulation';
+import { applyPalette, PaletteId } from '../utils/palette';
+import { AudioInput } from '../audio/AudioInput';
+import { audioDrive, beatKick, BeatReaction, sparkleScale } from '../audio/reactive';
+import { HandControlTracker } from '../utils/handControls';
+import { PointerWand } from '../utils/pointerWand';
+import { modeWeights } from '../simulation/behaviors/registry';
+
+// Half extents of the scene area the webcam frame maps onto
+const MOTION_SCENE_HALF_WIDTH = 2.2;
+const MOTION_SCENE_HALF_HEIGHT = 1.6;
+
+const POINT_SIZE = 0.03;
+
+// Advances the particles by an exact delta and waits until the result is in the render
+// buffers, for frame-by-frame offline rendering (see capture/capture.ts)
+export interface ParticleStepper {
+  setManual: (manual: boolean) => void; // While manual, the render loop no longer advances the particles
+  step: (delta: number) => Promise<void>;
+}
 
 interface MagicParticlesProps {
   mode: AppMode;
+  shapeHold?: number; // 0 to 1, share of the shape's pull kept under any other mode
   targetPoints: Point3D[];
-  count: number;
+  source?: ShapeSource | null; // Time-driven targets, replaces targetPoints while set
+  capacity: number; // Maximum particles, fixes the buffer size
+  count: number; // Active particles, may change at runtime
   color?: string;
   motionIntensity: number; // 0 to 1, derived from webcam
+  motionRegion?: MotionRegion | null; // Where the motion happened
+  motionField?: 'repel' | 'attract';
+  audio?: AudioInput | null; // Music the cloud dances to, read every frame
+  beatReaction?: BeatReaction;
+  morphStyle?: MorphStyle; // How particles pick their spot in the next shape
+  palette?: PaletteId; // Recolors targets; 'original' keeps the shape's own colors
+  physics?: Partial<SimulationParams>;
+  seed?: number;
+  stepperRef?: React.MutableRefObject<ParticleStepper | null>;
+  hands?: HandControlTracker | null; // Two hands moving apart stretch the cloud
+  wand?: PointerWand | null;
 }
 
-export const MagicParticles: React.FC<MagicParticlesProps> = ({ 
-  mode, 
-  targetPoints, 
-  count, 
+export const MagicParticles: React.FC<MagicParticlesProps> = ({
+  mode,
+  shapeHold = 0,
+  targetPoints,
+  source = null,
+  capacity,
+  count,
   color = "#ffdd00",
-  motionIntensity 
+  motionIntensity,
+  motionRegion = null,
+  motionField = 'repel',
+  audio = null,
+  beatReaction = 'pulse',
+  morphStyle = 'nearest',
+  palette = 'original',
+  physics,
+  seed = 1,
+  stepperRef,
+  hands = null,
+  wand = null
 }) => {
+  const camera = useThree((state) => state.camera);
   const pointsRef = useRef<THREE.Points>(null);
-  
-  // Initialize particles with random positions
-  const { positions, velocities, targetPositions, colors } = useMemo(() => {
-    const positions = new Float32Array(count * 3);
-    const velocities = new Float32Array(count * 3);
-    const targetPositions = new Float32Array(count * 3);
-    const colors = new Float32Array(count * 3);
+  const stretchRef = useRef<THREE.Group>(null);
+  const unstretchRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.PointsMaterial>(null);
+  const audioAppliedRef = useRef(false);
+  const manualRef = useRef(false);
+  const colorsVersionRef = useRef(-1);
+  const lastCountRef = useRef(count);
+  const appliedModeRef = useRef<{ driver: SimulationDriver; mode: AppMode; hold: number } | null>(null);
 
+  const fallbackColor = useMemo<[number, number, number]>(() => {
     const c = new THREE.Color(color);
+    return [c.r, c.g, c.b];
+  }, [color]);
 
-    for (let i = 0; i < count; i++) {
-      // Start in a loose sphere
-      const r = Math.random() * 5;
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      
-      positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-      positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-      positions[i * 3 + 2] = r * Math.cos(phi);
-
-      colors[i * 3] = c.r;
-      colors[i * 3 + 1] = c.g;
-      colors[i * 3 + 2] = c.b;
-      
-      // Velocities
-      velocities[i*3] = 0;
-      velocities[i*3+1] = 0;
-      velocities[i*3+2] = 0;
-    }
+  // Render buffers sized for the maximum budget. The simulation (in a worker when possible)
+  // writes into them; only the first `count` particles are drawn.
+  const { positions, colors } = useMemo(() => ({
+    positions: new Float32Array(capacity * 3),
+    colors: new Float32Array(capacity * 3),
+  }), [capacity]);
+
+  const [driver, setDriver] = useState<SimulationDriver | null>(null);
 
-    return { positions, velocities, targetPositions, colors };
-  }, [count]); 
+  useEffect(() => {
+    const next = createSimulationDriver({
+      capacity,
+      count,
+      seed,
+      positions,
+      colors,
+      onFallback: (reason) => console.warn("Particle worker unavailable, simulating on main thread:", reason),
+    });
+    setDriver(next);
+    return () => next.dispose();
+    // The count is only an initial value here; later changes go through resize
+  }, [capacity, seed, positions, colors]);
+
+  // Grow or shrink in place, so particles keep their current positions
+  useEffect(() => {
+    if (!driver) return;
+    if (driver.count !== count) driver.resize(count);
+    pointsRef.current?.geometry.setDrawRange(0, count);
+  }, [count, driver]);
 
   // Update target positions and colors when the shape changes
   useEffect(() => {
-    const defaultColor = new THREE.Color(color);
-    
-    for (let i = 0; i < count; i++) {
-        let tx = 0, ty = 0, tz = 0;
-        let r = defaultColor.r, g = defaultColor.g, b = defaultColor.b;
-
-        if (targetPoints.length > 0) {
-            // Wrap around if fewer points than particles
-            const p = targetPoints[i % targetPoints.length];
-            tx = p.x;
-            ty = p.y;
-            tz = p.z;
-            
-            if (p.color) {
-                r = p.color[0];
-                g = p.color[1];
-                b = p.color[2];
-            }
-        }
-
-        targetPositions[i * 3] = tx;
-        targetPositions[i * 3 + 1] = ty;
-        targetPositions[i * 3 + 2] = tz;
-
-        colors[i * 3] = r;
-        colors[i * 3 + 1] = g;
-        colors[i * 3 + 2] = b;
+    if (!driver) return;
+    // A budget change only adds or drops points; never explode the shape for that
+    const style = count !== lastCountRef.current ? 'nearest' : morphStyle;
+    lastCountRef.current = count;
+    const points = source ? source.build(count, Date.now()) : targetPoints;
+    driver.setTargets(applyPalette(points, palette, color), fallbackColor, style);
+    // morphStyle only affects the next shape change, so it is not a dependency
+  }, [targetPoints, source, fallbackColor, palette, driver, count]);
+
+  useEffect(() => {
+    // Full set, so settings dropped from `physics` return to their defaults
+    driver?.setParams({ ...DEFAULT_SIMULATION_PARAMS, ...physics });
+  }, [physics, driver]);
+
+  const advanceFrame = (delta: number) => {
+    if (!pointsRef.current || !driver) return;
+
+    // Time-driven shapes only re-target what changed, and may take over the mode
+    if (source) {
+      for (const patch of source.update(Date.now())) {
+        driver.patchTargets(patch.start, applyPalette(patch.points, palette, color), fallbackColor);
+      }
+    }
+    const wantedMode = source?.mode ?? mode;
+    const hold = source?.mode ? 0 : shapeHold;
+    const applied = appliedModeRef.current;
+    if (!applied || applied.driver !== driver || applied.mode !== wantedMode || applied.hold !== hold) {
+      driver.setBehaviors(modeWeights(wantedMode, hold));
+      appliedModeRef.current = { driver, mode: wantedMode, hold };
     }
 
-    if (pointsRef.current?.geometry.attributes.color) {
-        pointsRef.current.geometry.attributes.color.needsUpdate = true;
+    // Local fields: every wand pointer, plus the webcam centroid mapped into the scene plane
+    // so only particles near the hand are disturbed
+    const fields: ForceField[] = wand ? [...wand.fields] : [];
+    if (motionRegion && motionIntensity > 0) {
+      const { centroid, bbox } = motionRegion;
+      fields.push({
+        x: (centroid.x - 0.5) * 2 * MOTION_SCENE_HALF_WIDTH,
+        y: (0.5 - centroid.y) * 2 * MOTION_SCENE_HALF_HEIGHT,
+        radius: Math.max(0.6, Math.max(bbox.maxX - bbox.minX, bbox.maxY - bbox.minY) * MOTION_SCENE_HALF_WIDTH),
+        strength: motionIntensity * 4.0,
+        mode: motionField,
+      });
     }
-  }, [targetPoints, color, count, colors, targetPositions]);
-
-  useFrame((state, delta) => {
-    if (!pointsRef.current) return;
-
-    const geo = pointsRef.current.geometry;
-    const posAttr = geo.attributes.position;
-    
-    // Physics constants
-    const time = state.clock.elapsedTime;
-    
-    // Determine effective mode
-    // If motionIntensity is high, trigger SCATTER behavior
-    const isScatter = mode === AppMode.SCATTER || motionIntensity > 0.25;
-
-    // Simulation Step
-    for (let i = 0; i < count; i++) {
-      const idx = i * 3;
-      const x = positions[idx];
-      const y = positions[idx + 1];
-      const z = positions[idx + 2];
-
-      if (isScatter) {
-        // --- VORTEX SCATTER PHYSICS ---
-        
-        // 1. Calculate cylindrical coordinates
-        const distXZ = Math.sqrt(x*x + z*z);
-        const angle = Math.atan2(z, x);
-
-        // 2. Swirl Force (Tangential)
-        // Rotate around Y axis. 
-        // Direction is (-z, x)
-        const swirlSpeed = 5.0; // How fast it spins
-        const tanX = -Math.sin(angle);
-        const tanZ = Math.cos(angle);
-        
-        velocities[idx] += tanX * swirlSpeed * delta;
-        velocities[idx + 2] += tanZ * swirlSpeed * delta;
-
-        // 3. Expansion Force (Radial)
-        // Target radius expands based on noise or simply keeps them in a ring
-        // "Open hand expands" -> we push them out to a larger radius
-        const targetRadius = 3.5 + Math.sin(time * 2 + y) * 0.5;
-        const radialForce = (targetRadius - distXZ) * 2.0; 
-        
-        velocities[idx] += Math.cos(angle) * radialForce * delta;
-        velocities[idx + 2] += Math.sin(angle) * radialForce * delta;
-
-        // 4. Vertical Float
-        // Sine wave motion for height
-        const targetY = Math.sin(time * 1.5 + distXZ) * 1.5;
-        velocities[idx + 1] += (targetY - y) * 1.0 * delta;
-
-        // 5. Drag/Damping
-        velocities[idx] *= 0.92;
-        velocities[idx + 1] *= 0.92;
-        velocities[idx + 2] *= 0.92;
-
-        // Apply
-        positions[idx] += velocities[idx];
-        positions[idx + 1] += velocities[idx + 1];
-        positions[idx + 2] += velocities[idx + 2];
-
-      } else {
-        // --- FORM SHAPE PHYSICS ---
-        
-        const tx = targetPositions[idx];
-        const ty = targetPositions[idx + 1];
-        const tz = targetPositions[idx + 2];
-
-        // Attraction Force to Target
-        // Using a spring-like force
-        const k = 4.0; // Spring stiffness
-        
-        // Add some noise to the target so it's not perfectly static (shimmer effect)
-        const noiseAmp = 0.02;
-        const nx = Math.sin(time * 3 + y) * noiseAmp;
-        const ny = Math.cos(time * 2 + z) * noiseAmp;
-        const nz = Math.sin(time * 4 + x) * noiseAmp;
-
-        velocities[idx] += ((tx + nx) - x) * k * delta;
-        velocities[idx + 1] += ((ty + ny) - y) * k * delta;
-        velocities[idx + 2] += ((tz + nz) - z) * k * delta;
-        
-        // Damping (critical for stability)
-        velocities[idx] *= 0.85;
-        velocities[idx + 1] *= 0.85;
-        velocities[idx + 2] *= 0.85;
-
-        // Apply
-        positions[idx] += velocities[idx];
-        positions[idx + 1] += velocities[idx + 1];
-        positions[idx + 2] += velocities[idx + 2];
-      }
+    driver.setFields(fields);
+
+    // Music: bass swells, highs buzz and sparkle, beats kick
+    if (audio) {
+      const features = audio.read();
+      driver.setAudio(audioDrive(features));
+      const kick = beatKick(features, beatReaction);
+      if (kick) driver.pulse(kick.strength, kick.scatter);
+      if (materialRef.current) materialRef.current.size = POINT_SIZE * sparkleScale(features);
+      audioAppliedRef.current = true;
+    } else if (audioAppliedRef.current) {
+      driver.setAudio(null);
+      if (materialRef.current) materialRef.current.size = POINT_SIZE;
+      audioAppliedRef.current = false;
+    }
+
+    // Only the position attribute is uploaded; all physics happens in the driver
+    if (driver.tick(delta)) {
+      pointsRef.current.geometry.attributes.position.needsUpdate = true;
+    }
+    // Colors follow the target matching, which may arrive a few frames later from the worker
+    if (driver.colorsVersion !== colorsVersionRef.current) {
+      colorsVersionRef.current = driver.colorsVersion;
+      pointsRef.current.geometry.attributes.color.needsUpdate = true;
     }
+    pointsRef.current.rotation.y = driver.rotation;
 
-    posAttr.needsUpdate = true;
-    
-    // Slow global rotation of the container for cinematic feel
-    if (!isScatter) {
-       pointsRef.current.rotation.y += 0.1 * delta;
-    } else {
-       // Spin faster when scattering
-       pointsRef.current.rotation.y += 0.5 * delta;
+    // Stretch along the screen's horizontal, wherever the camera is: rotate into view space,
+    // scale (keeping the volume), rotate back
+    const stretch = hands ? hands.sample(performance.now()).stretch : 1;
+    if (stretchRef.current && unstretchRef.current) {
+      const squeeze = 1 / Math.sqrt(stretch);
+      stretchRef.current.quaternion.copy(camera.quaternion);
+      stretchRef.current.scale.set(stretch, squeeze, squeeze);
+      unstretchRef.current.quaternion.copy(camera.quaternion).invert();
     }
+  };
+
+  useFrame((_, delta) => {
+    if (!manualRef.current) advanceFrame(delta);
   });
 
+  // The stepper always runs the latest render's frame logic
+  const advanceRef = useRef(advanceFrame);
+  advanceRef.current = advanceFrame;
+
+  useEffect(() => {
+    if (!stepperRef || !driver) return;
+    stepperRef.current = {
+      setManual: (manual) => {
+        manualRef.current = manual;
+      },
+      step: async (delta) => {
+        advanceRef.current(delta);
+        await driver.whenIdle();
+        // Whatever the simulation produced for this step is in the buffers now
+        const points = pointsRef.current;
+        if (!points) return;
+        points.geometry.attributes.position.needsUpdate = true;
+        points.geometry.attributes.color.needsUpdate = true;
+        points.rotation.y = driver.rotation;
+      },
+    };
+    return () => {
+      manualRef.current = false;
+      stepperRef.current = null;
+    };
+  }, [stepperRef, driver]);
+
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={positions.length / 3}
-          array={positions}
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-color"
-          count={colors.length / 3}
-          array={colors}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      {/* Small, bright particles */}
-      <pointsMaterial
-        size={0.03} 
-        vertexColors
-        transparent
-        opacity={0.8}
-        sizeAttenuation
-        blending={THREE.AdditiveBlending}
-        depthWrite={false}
-      />
-    </points>
+    <group ref={stretchRef}>
+      <group ref={unstretchRef}>
+        <points ref={pointsRef}>
+          <bufferGeometry>
+            <bufferAttribute
+              attach="attributes-position"
+              count={capacity}
+              array={positions}
+              itemSize={3}
+            />
+            <bufferAttribute
+              attach="attributes-color"
+              count={capacity}
+              array={colors}
+              itemSize={3}
+            />
+          </bufferGeometry>
+          {/* Small, bright particles */}
+          <pointsMaterial
+            ref={materialRef}
+            size={POINT_SIZE}
+            vertexColors
+            transparent
+            opacity={0.8}
+            sizeAttenuation
+            blending={THREE.AdditiveBlending}
+            depthWrite={false}
+          />
+        </points>
+      </group>
+    </group>
   );
-};
\ No newline at end of file
+};
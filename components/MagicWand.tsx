@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { PointerWand } from '../utils/pointerWand';
+
+interface MagicWandProps {
+  wand: PointerWand;
+}
+
+// Hooks the wand up to the canvas and draws its sparkle trails. The forces themselves are
+// applied by MagicParticles, which reads `wand.fields`.
+export const MagicWand: React.FC<MagicWandProps> = ({ wand }) => {
+  const gl = useThree((state) => state.gl);
+  const pointsRef = useRef<THREE.Points>(null);
+  const { trail } = wand;
+
+  useEffect(() => {
+    wand.attach(gl.domElement);
+    return () => wand.detach();
+  }, [wand, gl]);
+
+  useFrame(({ camera }, delta) => {
+    wand.update(camera, delta);
+    const geometry = pointsRef.current?.geometry;
+    if (!geometry) return;
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.color.needsUpdate = true;
+  });
+
+  return (
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry>
+        <bufferAttribute
+          attach="attributes-position"
+          count={trail.capacity}
+          array={trail.positions}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-color"
+          count={trail.capacity}
+          array={trail.colors}
+          itemSize={3}
+        />
+      </bufferGeometry>
+      <pointsMaterial
+        size={0.06}
+        vertexColors
+        transparent
+        sizeAttenuation
+        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+      />
+    </points>
+  );
+};
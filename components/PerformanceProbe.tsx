@@ -0,0 +1,12 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+
+interface PerformanceProbeProps {
+  onFrame: (delta: number) => void;
+}
+
+// Reports render loop frame times from inside the <Canvas>
+export const PerformanceProbe: React.FC<PerformanceProbeProps> = ({ onFrame }) => {
+  useFrame((_, delta) => onFrame(delta));
+  return null;
+};
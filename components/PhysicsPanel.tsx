@@ -0,0 +1,50 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { DEFAULT_SIMULATION_PARAMS, SIMULATION_PARAM_CONTROLS, SimulationParams } from '../simulation/ParticleSimulation';
+
+interface PhysicsPanelProps {
+  physics: Partial<SimulationParams>; // Only what differs from the defaults
+  onChange: (physics: Partial<SimulationParams>) => void;
+}
+
+// Tuning of the shape and scatter physics; shared links carry whatever is changed here
+export const PhysicsPanel: React.FC<PhysicsPanelProps> = ({ physics, onChange }) => {
+  const update = (key: keyof SimulationParams, value: number) => {
+    const next = { ...physics, [key]: value };
+    if (value === DEFAULT_SIMULATION_PARAMS[key]) delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-4 py-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-xs font-cinzel text-white/70">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2">
+        {SIMULATION_PARAM_CONTROLS.map(({ key, label, min, max, step }) => {
+          const value = physics[key] ?? DEFAULT_SIMULATION_PARAMS[key];
+          return (
+            <label key={key} className="flex items-center gap-2">
+              <span className="w-24 text-white/50 whitespace-nowrap">{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => update(key, Number(e.target.value))}
+                className="flex-1 accent-amber-400"
+              />
+              <span className="w-10 text-right font-mono text-[10px] text-white/50">{value}</span>
+            </label>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => onChange({})}
+        disabled={Object.keys(physics).length === 0}
+        className="self-end flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-50"
+      >
+        <RotateCcw className="w-3 h-3" />
+        Defaults
+      </button>
+    </div>
+  );
+};
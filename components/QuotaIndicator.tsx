@@ -0,0 +1,61 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import clsx from 'clsx';
+import { Gauge } from 'lucide-react';
+import { RequestScheduler } from '../services/requestScheduler';
+
+interface QuotaIndicatorProps {
+  scheduler: RequestScheduler;
+  label: string; // Provider name
+}
+
+// How much of the AI provider's per-minute budget is used, and whether it is cooling down after a 429
+export const QuotaIndicator: React.FC<QuotaIndicatorProps> = ({ scheduler, label }) => {
+  const status = useSyncExternalStore(scheduler.subscribe, scheduler.getStatus);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick only while there is a countdown to show
+  useEffect(() => {
+    if (status.cooldownUntil === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.cooldownUntil]);
+
+  const limited = isFinite(status.requestsPerMinute);
+  const used = limited ? status.usedThisMinute / status.requestsPerMinute : 0;
+  const cooling = status.cooldownUntil !== null && status.cooldownUntil > now;
+
+  let detail: string;
+  if (cooling) detail = `cooling down ${Math.ceil((status.cooldownUntil! - now) / 1000)}s`;
+  else if (limited) detail = `${status.usedThisMinute}/${status.requestsPerMinute} per min`;
+  else detail = `${status.usedThisMinute} per min`;
+
+  return (
+    <div
+      title={[
+        `Background pace: one call every ${(status.backgroundIntervalMs / 1000).toFixed(1)}s`,
+        status.lastLatencyMs !== null ? `Last reply: ${status.lastLatencyMs} ms` : null,
+        status.queued > 0 ? `${status.queued} waiting` : null,
+      ].filter(Boolean).join('\n')}
+      className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-[10px] font-mono text-white/60"
+    >
+      <Gauge
+        className={clsx(
+          "w-3 h-3",
+          cooling ? "text-red-400" : used > 0.7 || status.queued > 0 ? "text-amber-300" : "text-emerald-300",
+          status.inFlight > 0 && "animate-pulse"
+        )}
+      />
+      <span>{label}</span>
+      {limited && (
+        <div className="w-12 h-1 rounded-full bg-white/10 overflow-hidden">
+          <div
+            className={clsx("h-full transition-all", cooling ? "bg-red-400" : used > 0.7 ? "bg-amber-300" : "bg-emerald-300")}
+            style={{ width: `${Math.min(1, used) * 100}%` }}
+          />
+        </div>
+      )}
+      <span>{detail}</span>
+    </div>
+  );
+};
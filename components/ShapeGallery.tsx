@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { Download, Pin, PinOff, Trash2, Upload, X, Save } from 'lucide-react';
+import { LibraryShape, SHAPE_PACK_EXTENSIONS, ShapePackFormat } from '../services/shapeLibrary';
+
+interface ShapeGalleryProps {
+  shapes: LibraryShape[];
+  canSaveCurrent: boolean;
+  onSaveCurrent: () => void;
+  onSelect: (shape: LibraryShape) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (shape: LibraryShape) => void;
+  onExport: (format: ShapePackFormat) => void;
+  onImportPack: (file: File) => void;
+  onClose: () => void;
+}
+
+const ShapeCard: React.FC<{
+  shape: LibraryShape;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onTogglePin: () => void;
+}> = ({ shape, onSelect, onRename, onDelete, onTogglePin }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(shape.name);
+
+  const commit = () => {
+    setEditing(false);
+    const name = draft.trim();
+    if (name && name !== shape.name) onRename(name);
+    else setDraft(shape.name);
+  };
+
+  return (
+    <div className="group relative flex flex-col gap-1 p-2 rounded-xl bg-white/5 border border-white/10 hover:border-amber-400/40 transition-colors">
+      <button onClick={onSelect} className="block rounded-lg overflow-hidden" title={shape.prompt || shape.description}>
+        <img src={shape.thumbnail} alt={shape.name} className="w-full aspect-square object-cover" />
+      </button>
+
+      {editing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') {
+              setDraft(shape.name);
+              setEditing(false);
+            }
+          }}
+          className="w-full bg-black/40 border border-amber-400/50 rounded px-1 text-xs font-cinzel text-white focus:outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => setEditing(true)}
+          title="Rename"
+          className="truncate text-left text-xs font-cinzel text-white/80 hover:text-white"
+        >
+          {shape.name}
+        </button>
+      )}
+      <p className="text-[10px] font-mono text-white/30">{new Date(shape.createdAt).toLocaleDateString()}</p>
+
+      <div className="absolute top-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={onTogglePin}
+          title={shape.pinned ? "Remove from carousel" : "Pin to carousel"}
+          className="p-1 rounded bg-black/60 text-white/70 hover:text-amber-200"
+        >
+          {shape.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+        </button>
+        <button onClick={onDelete} title="Delete" className="p-1 rounded bg-black/60 text-white/70 hover:text-red-300">
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+      {shape.pinned && <Pin className="absolute top-3 left-3 w-3 h-3 text-amber-300" />}
+    </div>
+  );
+};
+
+export const ShapeGallery: React.FC<ShapeGalleryProps> = ({
+  shapes,
+  canSaveCurrent,
+  onSaveCurrent,
+  onSelect,
+  onRename,
+  onDelete,
+  onTogglePin,
+  onExport,
+  onImportPack,
+  onClose
+}) => {
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const toolButton = "flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white/60 hover:bg-white/10 text-xs font-cinzel disabled:opacity-40";
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-full flex flex-col gap-4 bg-slate-950/90 border border-white/10 rounded-2xl p-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-magic text-3xl text-amber-100">Shape Library</h2>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={onSaveCurrent} disabled={!canSaveCurrent} className={toolButton}>
+              <Save className="w-3 h-3" /> Save Current
+            </button>
+            <button onClick={() => packInputRef.current?.click()} className={toolButton}>
+              <Upload className="w-3 h-3" /> Import Pack
+            </button>
+            <button onClick={() => onExport('json')} disabled={shapes.length === 0} className={toolButton}>
+              <Download className="w-3 h-3" /> JSON
+            </button>
+            <button onClick={() => onExport('binary')} disabled={shapes.length === 0} className={toolButton}>
+              <Download className="w-3 h-3" /> Binary
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-lg text-white/50 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            ref={packInputRef}
+            type="file"
+            accept={SHAPE_PACK_EXTENSIONS.map((ext) => `.${ext}`).join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportPack(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {shapes.length === 0 ? (
+          <p className="py-12 text-center font-cinzel text-sm text-white/40">
+            Summoned shapes are saved here automatically.
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 overflow-y-auto pr-1">
+            {shapes.map((shape) => (
+              <ShapeCard
+                key={shape.id}
+                shape={shape}
+                onSelect={() => onSelect(shape)}
+                onRename={(name) => onRename(shape.id, name)}
+                onDelete={() => onDelete(shape.id)}
+                onTogglePin={() => onTogglePin(shape)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import clsx from 'clsx';
+import { Pause, Play, Repeat, X } from 'lucide-react';
+import { ShowPlayer } from '../show/ShowPlayer';
+
+interface ShowControlsProps {
+  player: ShowPlayer;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Play/pause, seek and loop for a running show
+export const ShowControls: React.FC<ShowControlsProps> = ({ player, onClose }) => {
+  const status = useSyncExternalStore(player.subscribe, player.getStatus);
+  const [now, setNow] = useState(Date.now());
+
+  // Count down to the resume while a gesture holds the show
+  useEffect(() => {
+    if (status.resumesAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.resumesAt]);
+
+  const playing = status.state === 'playing';
+  const steps = player.timeline.steps.length;
+
+  let detail = status.cue ? `Step ${status.cue.stepIndex + 1}/${steps}` : `${steps} steps`;
+  if (status.state === 'interrupted' && status.resumesAt !== null) {
+    detail = `Gesture took over, resuming in ${Math.max(0, Math.ceil((status.resumesAt - now) / 1000))}s`;
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-xs font-cinzel text-white/70">
+      <button
+        onClick={() => (playing ? player.pause() : player.play())}
+        title={playing ? "Pause the show" : "Play the show"}
+        className="p-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+
+      <div className="flex flex-col gap-1 min-w-0 flex-1">
+        <div className="flex justify-between gap-2">
+          <span className="truncate text-amber-100">{player.timeline.name || "Show"}</span>
+          <span className="whitespace-nowrap text-white/50">{detail}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={status.durationMs}
+          step={100}
+          value={status.positionMs}
+          onChange={(e) => player.seek(Number(e.target.value))}
+          className="w-full accent-amber-400"
+        />
+      </div>
+
+      <span className="font-mono text-[10px] text-white/50 whitespace-nowrap">
+        {formatTime(status.positionMs)} / {formatTime(status.durationMs)}
+      </span>
+
+      <button
+        onClick={() => player.setLoop(!status.loop)}
+        title={status.loop ? "Looping" : "Play once"}
+        className={clsx(
+          "p-1.5 rounded-full transition-colors",
+          status.loop ? "bg-amber-500/20 text-amber-200" : "bg-white/5 text-white/40 hover:bg-white/10"
+        )}
+      >
+        <Repeat className="w-4 h-4" />
+      </button>
+
+      <button
+        onClick={onClose}
+        title="End the show"
+        className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
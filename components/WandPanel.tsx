@@ -0,0 +1,53 @@
+import React from 'react';
+import { WAND_FORCES, WandForce, WandSettings } from '../utils/pointerWand';
+
+interface WandPanelProps {
+  settings: WandSettings;
+  onChange: (settings: WandSettings) => void;
+}
+
+// Force, reach and falloff of the pointer wand
+export const WandPanel: React.FC<WandPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<WandSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-xs font-cinzel text-white/70">
+      <select
+        value={settings.force}
+        onChange={(e) => update({ force: e.target.value as WandForce })}
+        className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-cinzel text-white focus:outline-none focus:border-amber-400/50"
+      >
+        {WAND_FORCES.map((option) => (
+          <option key={option.id} value={option.id} className="bg-slate-900">
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 flex-1 min-w-[9rem]">
+        <span className="text-white/50">Radius</span>
+        <input
+          type="range"
+          min={0.15}
+          max={1.5}
+          step={0.05}
+          value={settings.radius}
+          onChange={(e) => update({ radius: Number(e.target.value) })}
+          className="flex-1 accent-amber-400"
+        />
+      </label>
+      <label className="flex items-center gap-2 flex-1 min-w-[9rem]" title="Low: wide and soft. High: only close to the wand.">
+        <span className="text-white/50">Falloff</span>
+        <input
+          type="range"
+          min={0.5}
+          max={4}
+          step={0.25}
+          value={settings.falloff}
+          onChange={(e) => update({ falloff: Number(e.target.value) })}
+          className="flex-1 accent-amber-400"
+        />
+      </label>
+      <span className="text-white/40">Hover or touch (any number of fingers) to draw</span>
+    </div>
+  );
+};
@@ -1,8 +1,31 @@
 import React, { useRef, useEffect } from 'react';
+import { MotionRegion, MotionRegionLabel, VisionFrame } from '../types';
+import { estimateBlockFlow, SwipeDetector, SwipeEvent } from '../utils/opticalFlow';
+import { analyzeHands, HandPose, updateBackground } from '../utils/handAnalysis';
+
+// Resolution handed to gesture recognizers (cloud models get a larger JPEG on demand)
+const VISION_WIDTH = 160;
+const VISION_HEIGHT = 120;
+
+// Hand poses drive continuous controls, so they're tracked on their own, faster cadence
+const HAND_INTERVAL_MS = 66;
+
+// Motion analysis resolution
+const MOTION_WIDTH = 64;
+const MOTION_HEIGHT = 48;
+
+const REGION_GRID: MotionRegionLabel[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
 
 interface WebcamHandlerProps {
-  onMotion: (intensity: number) => void;
-  onFrame?: (base64: string) => void; // Optional hook for AI vision
+  onMotion: (intensity: number, region: MotionRegion | null) => void;
+  onFrame?: (frame: VisionFrame) => void | Promise<void>; // Optional hook for gesture recognition
+  frameIntervalMs?: number; // Pause between one frame being handled and the next being taken
+  onSwipe?: (swipe: SwipeEvent) => void;
+  onHands?: (hands: HandPose[], timestamp: number) => void;
   deviceId?: string;
   onCamerasFound?: (devices: MediaDeviceInfo[]) => void;
 }
@@ -10,12 +33,23 @@ interface WebcamHandlerProps {
 export const WebcamHandler: React.FC<WebcamHandlerProps> = ({ 
   onMotion, 
   onFrame, 
+  frameIntervalMs = 250,
+  onSwipe,
+  onHands,
   deviceId, 
   onCamerasFound 
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const prevFrameRef = useRef<Uint8ClampedArray | null>(null);
+  const swipeDetectorRef = useRef(new SwipeDetector());
+  // Latest callbacks, read by the running loop so new handlers never restart the camera
+  const onMotionRef = useRef(onMotion);
+  const onSwipeRef = useRef(onSwipe);
+  const onCamerasFoundRef = useRef(onCamerasFound);
+  onMotionRef.current = onMotion;
+  onSwipeRef.current = onSwipe;
+  onCamerasFoundRef.current = onCamerasFound;
 
   // Handle stream start/stop and device switching
   useEffect(() => {
@@ -46,9 +80,7 @@ export const WebcamHandler: React.FC<WebcamHandlerProps> = ({
         const devices = await navigator.mediaDevices.enumerateDevices();
         const videoDevices = devices.filter(d => d.kind === 'videoinput');
         
-        if (onCamerasFound) {
-            onCamerasFound(videoDevices);
-        }
+        onCamerasFoundRef.current?.(videoDevices);
 
       } catch (err) {
         console.error("Webcam access denied or error", err);
@@ -65,28 +97,69 @@ export const WebcamHandler: React.FC<WebcamHandlerProps> = ({
         const ctx = canvas.getContext('2d', { willReadFrequently: true });
         if (ctx) {
           // Draw video to canvas
-          ctx.drawImage(video, 0, 0, 64, 48); // Downscale for performance
-          const imageData = ctx.getImageData(0, 0, 64, 48);
+          ctx.drawImage(video, 0, 0, MOTION_WIDTH, MOTION_HEIGHT); // Downscale for performance
+          const imageData = ctx.getImageData(0, 0, MOTION_WIDTH, MOTION_HEIGHT);
           const data = imageData.data;
 
-          // Simple Motion Detection
+          // Simple Motion Detection, tracking where the changed pixels are
           let diffScore = 0;
+          let sumX = 0, sumY = 0;
+          let minX = MOTION_WIDTH, minY = MOTION_HEIGHT, maxX = -1, maxY = -1;
+          const cellCounts = new Array(REGION_GRID.length).fill(0);
+
           if (prevFrameRef.current) {
             const prev = prevFrameRef.current;
             for (let i = 0; i < data.length; i += 4) {
                // Compare simplified grayscale or green channel
                const diff = Math.abs(data[i+1] - prev[i+1]); 
-               if (diff > 20) diffScore++;
+               if (diff > 20) {
+                 const p = i / 4;
+                 // Mirror x so coordinates match the mirrored preview the user sees
+                 const x = MOTION_WIDTH - 1 - (p % MOTION_WIDTH);
+                 const y = Math.floor(p / MOTION_WIDTH);
+                 diffScore++;
+                 sumX += x;
+                 sumY += y;
+                 if (x < minX) minX = x;
+                 if (x > maxX) maxX = x;
+                 if (y < minY) minY = y;
+                 if (y > maxY) maxY = y;
+                 cellCounts[Math.floor(y * 3 / MOTION_HEIGHT) * 3 + Math.floor(x * 3 / MOTION_WIDTH)]++;
+               }
             }
           }
           
+          // Coarse optical flow on the same downscaled frames drives swipe detection
+          const onSwipe = onSwipeRef.current;
+          if (prevFrameRef.current && onSwipe) {
+            const flow = estimateBlockFlow(prevFrameRef.current, data, MOTION_WIDTH, MOTION_HEIGHT);
+            const swipe = swipeDetectorRef.current.push(flow, MOTION_WIDTH, MOTION_HEIGHT, performance.now());
+            if (swipe) onSwipe(swipe);
+          }
+          
           prevFrameRef.current = data; // Store current as prev
 
           // Normalize score (threshold determined experimentally)
-          const pixelCount = 64 * 48;
+          const pixelCount = MOTION_WIDTH * MOTION_HEIGHT;
           const normalizedMotion = Math.min(diffScore / (pixelCount * 0.1), 1);
+
+          // Ignore a handful of flickering pixels (sensor noise)
+          let region: MotionRegion | null = null;
+          if (diffScore > pixelCount * 0.005) {
+            region = {
+              centroid: { x: sumX / diffScore / MOTION_WIDTH, y: sumY / diffScore / MOTION_HEIGHT },
+              bbox: {
+                minX: minX / MOTION_WIDTH,
+                minY: minY / MOTION_HEIGHT,
+                maxX: (maxX + 1) / MOTION_WIDTH,
+                maxY: (maxY + 1) / MOTION_HEIGHT,
+              },
+              dominantRegion: REGION_GRID[cellCounts.indexOf(Math.max(...cellCounts))],
+              coverage: diffScore / pixelCount,
+            };
+          }
           
-          onMotion(normalizedMotion);
+          onMotionRef.current(normalizedMotion, region);
         }
       }
       animationFrameId = requestAnimationFrame(processFrame);
@@ -100,27 +173,72 @@ export const WebcamHandler: React.FC<WebcamHandlerProps> = ({
          stream.getTracks().forEach(t => t.stop());
       }
     };
-  }, [onMotion, deviceId, onCamerasFound]);
+  }, [deviceId]);
 
-  // Expose a method to capture high-quality frame for AI
+  // Deliver frames to the configured gesture recognizer
   useEffect(() => {
       if (!onFrame) return;
-      // Interval set to 4000ms to avoid 429 Resource Exhausted errors
-      const interval = setInterval(() => {
-          if (videoRef.current && canvasRef.current) {
-               const canvas = document.createElement('canvas');
-               canvas.width = 320;
-               canvas.height = 240;
-               const ctx = canvas.getContext('2d');
-               if (ctx) {
-                   ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-                   const base64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-                   onFrame(base64);
-               }
+      const visionCanvas = document.createElement('canvas');
+      visionCanvas.width = VISION_WIDTH;
+      visionCanvas.height = VISION_HEIGHT;
+      const visionCtx = visionCanvas.getContext('2d', { willReadFrequently: true });
+
+      // Chained timeouts instead of an interval: the next frame is only taken once the
+      // recognizer is done with the last one, so slow calls never pile up
+      let timer: ReturnType<typeof setTimeout>;
+      let stopped = false;
+      const deliver = async () => {
+          const video = videoRef.current;
+          if (video && visionCtx && video.readyState === 4) {
+              visionCtx.drawImage(video, 0, 0, VISION_WIDTH, VISION_HEIGHT);
+              const imageData = visionCtx.getImageData(0, 0, VISION_WIDTH, VISION_HEIGHT);
+
+              try {
+                  await onFrame({
+                      width: VISION_WIDTH,
+                      height: VISION_HEIGHT,
+                      data: imageData.data,
+                      timestamp: performance.now(),
+                      toBase64Jpeg: () => {
+                          const canvas = document.createElement('canvas');
+                          canvas.width = 320;
+                          canvas.height = 240;
+                          canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+                          return canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
+                      }
+                  });
+              } catch (e) {
+                  console.warn("Frame handler failed", e);
+              }
           }
-      }, 4000); 
-      return () => clearInterval(interval);
-  }, [onFrame]);
+          if (!stopped) timer = setTimeout(deliver, frameIntervalMs);
+      };
+      timer = setTimeout(deliver, frameIntervalMs);
+      return () => {
+          stopped = true;
+          clearTimeout(timer);
+      };
+  }, [onFrame, frameIntervalMs]);
+
+  // Track hand poses whichever recognizer reads the gestures
+  useEffect(() => {
+      if (!onHands) return;
+      const handCanvas = document.createElement('canvas');
+      handCanvas.width = VISION_WIDTH;
+      handCanvas.height = VISION_HEIGHT;
+      const handCtx = handCanvas.getContext('2d', { willReadFrequently: true });
+      let background: Float32Array | null = null;
+
+      const timer = setInterval(() => {
+          const video = videoRef.current;
+          if (!video || !handCtx || video.readyState !== 4) return;
+          handCtx.drawImage(video, 0, 0, VISION_WIDTH, VISION_HEIGHT);
+          const frame = handCtx.getImageData(0, 0, VISION_WIDTH, VISION_HEIGHT);
+          onHands(analyzeHands(frame, background), performance.now());
+          background = updateBackground(background, frame);
+      }, HAND_INTERVAL_MS);
+      return () => clearInterval(timer);
+  }, [onHands]);
 
   return (
     <div className="fixed bottom-6 right-6 z-50 w-36 md:w-48 aspect-[4/3] rounded-xl overflow-hidden border-2 border-white/20 shadow-[0_0_20px_rgba(0,0,0,0.5)] bg-black transition-all">
@@ -131,7 +249,7 @@ export const WebcamHandler: React.FC<WebcamHandlerProps> = ({
         muted 
         className="w-full h-full object-cover scale-x-[-1] opacity-90" 
       />
-      <canvas ref={canvasRef} className="hidden" width="64" height="48" />
+      <canvas ref={canvasRef} className="hidden" width={MOTION_WIDTH} height={MOTION_HEIGHT} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { DslNode, ShapeDocument } from './types';
+
+// The built-in holiday shapes, written in the shape DSL. Keyed by the built-in shape ids.
+
+const TREE: ShapeDocument = {
+  version: 1,
+  name: "Festive Tree",
+  shape: {
+    type: 'group',
+    color: [0.1, 0.7, 0.2],
+    colorNoise: 0.2,
+    children: [
+      // Foliage
+      { type: 'cone', radius: 1.2, height: 3, fill: 'volume' },
+      // Ornaments on the outer layer
+      {
+        type: 'cone',
+        radius: 1.2,
+        height: 3,
+        caps: false,
+        weight: 0.08,
+        pattern: { type: 'dots', spacing: 0.3, radius: 0.09, chance: 0.6, colors: ['#ff1a1a', '#ffcc1a', '#3380ff'] },
+      },
+      // Star on top
+      { type: 'sphere', radius: 0.12, translate: [0, 1.5, 0], fill: 'volume', color: [1, 1, 0.5], colorNoise: 0, weight: 30 },
+    ],
+  },
+};
+
+const bowLoop = (translate: [number, number, number], rotate: [number, number, number]): DslNode => ({
+  type: 'torus',
+  radius: 0.2,
+  tube: 0.05,
+  translate,
+  rotate,
+});
+
+const PRESENT: ShapeDocument = {
+  version: 1,
+  name: "Magic Present",
+  shape: {
+    type: 'group',
+    colorNoise: 0,
+    children: [
+      // Polka dot paper, with the ribbon bands cut out of it
+      {
+        type: 'group',
+        op: 'subtract',
+        children: [
+          {
+            type: 'box',
+            size: [1.3, 1.3, 1.3],
+            jitter: 0.03,
+            color: [0.9, 0.1, 0.1],
+            pattern: { type: 'dots', spacing: 0.33, radius: 0.08, colors: ['#ffffff'] },
+          },
+          { type: 'box', size: [0.5, 1.4, 1.4] },
+          { type: 'box', size: [1.4, 1.4, 0.5] },
+        ],
+      },
+      // Ribbon: two bands, minus their sides running through the inside of the box
+      {
+        type: 'group',
+        op: 'subtract',
+        color: [1, 0.84, 0],
+        children: [
+          {
+            type: 'group',
+            children: [
+              { type: 'box', size: [0.5, 1.32, 1.32] },
+              { type: 'box', size: [1.32, 1.32, 0.5] },
+            ],
+          },
+          { type: 'box', size: [1.26, 1.26, 1.26] },
+        ],
+      },
+      // Bow: four loops and a knot
+      {
+        type: 'group',
+        translate: [0, 0.85, 0],
+        color: [1, 0.9, 0.2],
+        weight: 1.5,
+        children: [
+          bowLoop([0.2, 0, 0], [90, 0, 0]),
+          bowLoop([-0.2, 0, 0], [90, 0, 0]),
+          bowLoop([0, 0, 0.2], [90, 90, 0]),
+          bowLoop([0, 0, -0.2], [90, 90, 0]),
+          { type: 'sphere', radius: 0.08, fill: 'volume' },
+        ],
+      },
+    ],
+  },
+};
+
+const WREATH: ShapeDocument = {
+  version: 1,
+  name: "Holiday Wreath",
+  shape: {
+    type: 'torus',
+    radius: 1.2,
+    tube: 0.4,
+    rotate: [90, 0, 0], // Face the camera
+    jitter: 0.2,
+    color: [0.1, 0.65, 0.1],
+    colorNoise: 0.3,
+    pattern: { type: 'dots', spacing: 0.3, radius: 0.07, chance: 0.5, colors: ['#ff1a1a'] },
+  },
+};
+
+const CANDY_CANE: ShapeDocument = {
+  version: 1,
+  name: "Candy Cane",
+  shape: {
+    type: 'group',
+    colorNoise: 0,
+    pattern: { type: 'stripes', axis: 'along', width: 0.314, twist: 2, colors: ['#ff1a1a', '#ffffff'] },
+    children: [
+      { type: 'tube', path: [[0, -1.25, 0], [0, 0.75, 0]], radius: 0.25 },
+      // Cubic Bezier close to a half circle of radius 0.5
+      { type: 'tube', path: [[0, 0.75, 0], [0, 1.417, 0], [-1, 1.417, 0], [-1, 0.75, 0]], radius: 0.25 },
+    ],
+  },
+};
+
+const SANTA_HAT: ShapeDocument = {
+  version: 1,
+  name: "Santa Hat",
+  shape: {
+    type: 'group',
+    colorNoise: 0.05,
+    children: [
+      // Fur brim
+      { type: 'torus', radius: 1.0, tube: 0.15, translate: [0, -0.85, 0], jitter: 0.05, color: [1, 1, 1], weight: 0.3 },
+      // Body, leaning towards the pom-pom
+      { type: 'cone', radius: 0.9, height: 1.8, caps: false, translate: [0.15, -0.05, 0], rotate: [0, 0, -12], color: [0.9, 0.1, 0.1] },
+      { type: 'sphere', radius: 0.18, translate: [0.34, 0.83, 0], fill: 'volume', color: [1, 1, 1], weight: 30 },
+    ],
+  },
+};
+
+const SNOWMAN: ShapeDocument = {
+  version: 1,
+  name: "Snowman",
+  shape: {
+    type: 'group',
+    fill: 'volume',
+    children: [
+      {
+        type: 'group',
+        color: [0.95, 0.98, 1],
+        colorNoise: 0.05,
+        children: [
+          { type: 'sphere', radius: 0.65, translate: [0, -0.82, 0] },
+          { type: 'sphere', radius: 0.48, translate: [0, 0.14, 0] },
+          { type: 'sphere', radius: 0.34, translate: [0, 0.88, 0] },
+        ],
+      },
+      // Bucket hat
+      { type: 'cylinder', radius: 0.24, height: 0.34, translate: [0, 1.29, 0], color: [0.4, 0.4, 0.45], weight: 5 },
+      // Carrot nose, pointing at the camera
+      { type: 'cone', radius: 0.055, height: 0.27, rotate: [90, 0, 0], translate: [0, 0.92, 0.44], color: [1, 0.5, 0], weight: 85 },
+      // Coal eyes, smile and buttons
+      {
+        type: 'group',
+        color: [0.1, 0.1, 0.1],
+        colorNoise: 0,
+        weight: 150,
+        children: [
+          { type: 'point', translate: [-0.1, 0.99, 0.29] },
+          { type: 'point', translate: [0.1, 0.99, 0.29] },
+          ...[-0.1, -0.072, 0, 0.072, 0.1].map((x, i): DslNode => ({
+            type: 'point',
+            radius: 0.017,
+            translate: [x, 0.85 - Math.sin((i / 4) * Math.PI) * 0.034, 0.31],
+          })),
+          { type: 'point', translate: [0, 0.34, 0.45] },
+          { type: 'point', translate: [0, 0.14, 0.49] },
+          { type: 'point', translate: [0, -0.07, 0.45] },
+        ],
+      },
+      // Stick arms
+      {
+        type: 'group',
+        color: [0.55, 0.35, 0.15],
+        weight: 130,
+        children: [
+          { type: 'tube', path: [[-0.41, 0.27, 0], [-0.82, 0.54, 0]], radius: 0.02 },
+          { type: 'tube', path: [[0.41, 0.27, 0], [0.82, 0.54, 0]], radius: 0.02 },
+        ],
+      },
+    ],
+  },
+};
+
+const STAR: ShapeDocument = {
+  version: 1,
+  name: "North Star",
+  shape: {
+    type: 'group',
+    scale: [1, 1, 0.4],
+    fill: 'volume',
+    colorNoise: 0.05,
+    color: [1, 1, 0.8],
+    children: [
+      { type: 'sphere', radius: 0.55 },
+      // Five arms, pale at the root and gold at the tip
+      ...[0, 72, 144, 216, 288].map((angle): DslNode => ({
+        type: 'group',
+        rotate: [0, 0, angle],
+        children: [
+          {
+            type: 'cone',
+            radius: 0.38,
+            height: 0.9,
+            translate: [0, 0.75, 0],
+            pattern: { type: 'gradient', axis: 'along', colors: [[1, 1, 0.8], [1, 0.8, 0]] },
+          },
+        ],
+      })),
+    ],
+  },
+};
+
+export const HOLIDAY_SHAPES = {
+  tree: TREE,
+  present: PRESENT,
+  wreath: WREATH,
+  cane: CANDY_CANE,
+  santa_hat: SANTA_HAT,
+  snowman: SNOWMAN,
+  star: STAR,
+} satisfies Record<string, ShapeDocument>;
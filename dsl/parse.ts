@@ -0,0 +1,193 @@
+import { DslColor, DslGroup, DslNode, DslPattern, ShapeDocument, Vec3 } from './types';
+
+export class ShapeDslError extends Error {
+  readonly path: string; // Where in the document the problem is, e.g. "shape.children[2].radius"
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ShapeDslError';
+    this.path = path;
+  }
+}
+
+// Keeps sampling cheap whatever a document (or a model) throws at us
+const MAX_NODES = 200;
+const MAX_DEPTH = 8;
+const MAX_PATH_POINTS = 8;
+const MAX_EXTENT = 10;
+
+const PRIMITIVES = ['sphere', 'box', 'cone', 'cylinder', 'torus', 'tube', 'point'];
+const AXES = ['x', 'y', 'z', 'along'];
+const GROUP_OPS = ['union', 'subtract', 'intersect'];
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const number = (raw: Raw, key: string, path: string, { min = -MAX_EXTENT, max = MAX_EXTENT, positive = false } = {}) => {
+  const v = raw[key];
+  if (typeof v !== 'number' || !isFinite(v)) throw new ShapeDslError(`${path}.${key}`, "expected a number");
+  if (v < min || v > max || (positive && v <= 0)) throw new ShapeDslError(`${path}.${key}`, `${v} is out of range`);
+  return v;
+};
+
+const optionalNumber = (raw: Raw, key: string, path: string, range?: Parameters<typeof number>[3]) =>
+  raw[key] === undefined ? undefined : number(raw, key, path, range);
+
+const vec3 = (v: unknown, path: string): Vec3 => {
+  if (!Array.isArray(v) || v.length !== 3 || !v.every(c => typeof c === 'number' && isFinite(c))) {
+    throw new ShapeDslError(path, "expected [x, y, z]");
+  }
+  return [v[0], v[1], v[2]];
+};
+
+const color = (v: unknown, path: string): DslColor => {
+  if (typeof v === 'string') {
+    if (!/^#[0-9a-f]{6}$/i.test(v)) throw new ShapeDslError(path, `"${v}" is not a #rrggbb color`);
+    return v;
+  }
+  const rgb = vec3(v, path);
+  return rgb.map(c => Math.min(1, Math.max(0, c))) as Vec3;
+};
+
+const colors = (v: unknown, path: string): DslColor[] => {
+  if (!Array.isArray(v) || v.length === 0) throw new ShapeDslError(path, "expected a list of colors");
+  return v.map((c, i) => color(c, `${path}[${i}]`));
+};
+
+const axis = (v: unknown, path: string) => {
+  if (v === undefined) return undefined;
+  if (typeof v !== 'string' || !AXES.includes(v)) throw new ShapeDslError(path, `expected one of ${AXES.join(', ')}`);
+  return v as 'x' | 'y' | 'z' | 'along';
+};
+
+const pattern = (v: unknown, path: string): DslPattern => {
+  if (!isObject(v)) throw new ShapeDslError(path, "expected a pattern object");
+  switch (v.type) {
+    case 'stripes':
+      return {
+        type: 'stripes',
+        axis: axis(v.axis, `${path}.axis`),
+        width: number(v, 'width', path, { min: 0, positive: true }),
+        colors: colors(v.colors, `${path}.colors`),
+        twist: optionalNumber(v, 'twist', path),
+      };
+    case 'dots':
+      return {
+        type: 'dots',
+        spacing: number(v, 'spacing', path, { min: 0.02, positive: true }),
+        radius: number(v, 'radius', path, { min: 0, positive: true }),
+        colors: colors(v.colors, `${path}.colors`),
+        chance: optionalNumber(v, 'chance', path, { min: 0, max: 1 }),
+      };
+    case 'gradient':
+      return { type: 'gradient', axis: axis(v.axis, `${path}.axis`), colors: colors(v.colors, `${path}.colors`) };
+    default:
+      throw new ShapeDslError(`${path}.type`, `unknown pattern "${String(v.type)}"`);
+  }
+};
+
+// Validate one node and everything under it; unknown keys are dropped
+const node = (v: unknown, path: string, depth: number, budget: { nodes: number }): DslNode => {
+  if (!isObject(v)) throw new ShapeDslError(path, "expected a node object");
+  if (++budget.nodes > MAX_NODES) throw new ShapeDslError(path, `more than ${MAX_NODES} nodes`);
+  if (depth > MAX_DEPTH) throw new ShapeDslError(path, `nested deeper than ${MAX_DEPTH} levels`);
+
+  const base = {
+    translate: v.translate === undefined ? undefined : vec3(v.translate, `${path}.translate`),
+    rotate: v.rotate === undefined ? undefined : vec3(v.rotate, `${path}.rotate`),
+    scale:
+      v.scale === undefined
+        ? undefined
+        : typeof v.scale === 'number'
+          ? number(v, 'scale', path, { min: 0, positive: true })
+          : vec3(v.scale, `${path}.scale`),
+    weight: optionalNumber(v, 'weight', path, { min: 0, max: 1000 }),
+    fill: v.fill === undefined ? undefined : v.fill === 'volume' ? ('volume' as const) : ('surface' as const),
+    color: v.color === undefined ? undefined : color(v.color, `${path}.color`),
+    colorNoise: optionalNumber(v, 'colorNoise', path, { min: 0, max: 1 }),
+    pattern: v.pattern === undefined ? undefined : pattern(v.pattern, `${path}.pattern`),
+    jitter: optionalNumber(v, 'jitter', path, { min: 0, max: 1 }),
+  };
+  const size = { min: 0, positive: true };
+
+  switch (v.type) {
+    case 'sphere':
+      return { ...base, type: 'sphere', radius: number(v, 'radius', path, size) };
+    case 'box': {
+      const boxSize = vec3(v.size, `${path}.size`);
+      if (boxSize.some(s => s <= 0 || s > MAX_EXTENT)) throw new ShapeDslError(`${path}.size`, "sizes must be positive");
+      return { ...base, type: 'box', size: boxSize };
+    }
+    case 'cone':
+      return {
+        ...base,
+        type: 'cone',
+        radius: number(v, 'radius', path, { min: 0 }),
+        height: number(v, 'height', path, size),
+        topRadius: optionalNumber(v, 'topRadius', path, { min: 0 }),
+        caps: v.caps === undefined ? undefined : v.caps !== false,
+      };
+    case 'cylinder':
+      return {
+        ...base,
+        type: 'cylinder',
+        radius: number(v, 'radius', path, size),
+        height: number(v, 'height', path, size),
+        caps: v.caps === undefined ? undefined : v.caps !== false,
+      };
+    case 'torus':
+      return { ...base, type: 'torus', radius: number(v, 'radius', path, size), tube: number(v, 'tube', path, size) };
+    case 'tube': {
+      if (!Array.isArray(v.path) || v.path.length < 2 || v.path.length > MAX_PATH_POINTS) {
+        throw new ShapeDslError(`${path}.path`, `expected 2 to ${MAX_PATH_POINTS} control points`);
+      }
+      return {
+        ...base,
+        type: 'tube',
+        path: v.path.map((p, i) => vec3(p, `${path}.path[${i}]`)),
+        radius: number(v, 'radius', path, size),
+      };
+    }
+    case 'point':
+      return { ...base, type: 'point', radius: optionalNumber(v, 'radius', path, size) };
+    case 'group': {
+      if (!Array.isArray(v.children) || v.children.length === 0) {
+        throw new ShapeDslError(`${path}.children`, "expected at least one child");
+      }
+      if (v.op !== undefined && !GROUP_OPS.includes(v.op as string)) {
+        throw new ShapeDslError(`${path}.op`, `unknown operation "${String(v.op)}"`);
+      }
+      return {
+        ...base,
+        type: 'group',
+        op: v.op as DslGroup['op'],
+        children: v.children.map((child, i) => node(child, `${path}.children[${i}]`, depth + 1, budget)),
+      };
+    }
+    default:
+      throw new ShapeDslError(`${path}.type`, `expected "group" or one of ${PRIMITIVES.join(', ')}`);
+  }
+};
+
+// Check an untrusted document (a file, a model reply) and return a clean copy of it
+export const parseShapeDocument = (input: unknown): ShapeDocument => {
+  const raw = typeof input === 'string' ? parseJson(input) : input;
+  if (!isObject(raw)) throw new ShapeDslError('document', "expected an object");
+  if (raw.version !== undefined && raw.version !== 1) {
+    throw new ShapeDslError('version', `version ${String(raw.version)} is not supported`);
+  }
+  return {
+    version: 1,
+    name: typeof raw.name === 'string' ? raw.name.slice(0, 80) : undefined,
+    shape: node(raw.shape, 'shape', 0, { nodes: 0 }),
+  };
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ShapeDslError('document', "not valid JSON");
+  }
+};
@@ -0,0 +1,521 @@
+import { Point3D } from '../types';
+import { DslColor, DslNode, DslPattern, DslPrimitive, ShapeDocument, Vec3 } from './types';
+
+type Color = [number, number, number];
+type Random = () => number;
+
+// --- Affine transforms (row-major 3x4) ---
+
+type Matrix = number[];
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const m = new Array<number>(12);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 4; c++) {
+      m[r * 4 + c] =
+        a[r * 4] * b[c] + a[r * 4 + 1] * b[4 + c] + a[r * 4 + 2] * b[8 + c] + (c === 3 ? a[r * 4 + 3] : 0);
+    }
+  }
+  return m;
+};
+
+const transform = (m: Matrix, p: Vec3): Vec3 => [
+  m[0] * p[0] + m[1] * p[1] + m[2] * p[2] + m[3],
+  m[4] * p[0] + m[5] * p[1] + m[6] * p[2] + m[7],
+  m[8] * p[0] + m[9] * p[1] + m[10] * p[2] + m[11],
+];
+
+const determinant = (m: Matrix) =>
+  m[0] * (m[5] * m[10] - m[6] * m[9]) - m[1] * (m[4] * m[10] - m[6] * m[8]) + m[2] * (m[4] * m[9] - m[5] * m[8]);
+
+const invert = (m: Matrix): Matrix => {
+  const d = determinant(m) || 1e-12;
+  const r = [
+    (m[5] * m[10] - m[6] * m[9]) / d,
+    (m[2] * m[9] - m[1] * m[10]) / d,
+    (m[1] * m[6] - m[2] * m[5]) / d,
+    (m[6] * m[8] - m[4] * m[10]) / d,
+    (m[0] * m[10] - m[2] * m[8]) / d,
+    (m[2] * m[4] - m[0] * m[6]) / d,
+    (m[4] * m[9] - m[5] * m[8]) / d,
+    (m[1] * m[8] - m[0] * m[9]) / d,
+    (m[0] * m[5] - m[1] * m[4]) / d,
+  ];
+  const t = [m[3], m[7], m[11]];
+  return [
+    r[0], r[1], r[2], -(r[0] * t[0] + r[1] * t[1] + r[2] * t[2]),
+    r[3], r[4], r[5], -(r[3] * t[0] + r[4] * t[1] + r[5] * t[2]),
+    r[6], r[7], r[8], -(r[6] * t[0] + r[7] * t[1] + r[8] * t[2]),
+  ];
+};
+
+// Scale, then rotate about X, Y and Z, then translate
+const nodeMatrix = (node: DslNode): Matrix => {
+  const scale = typeof node.scale === 'number' ? [node.scale, node.scale, node.scale] : node.scale ?? [1, 1, 1];
+  const [rx, ry, rz] = (node.rotate ?? [0, 0, 0]).map(deg => (deg * Math.PI) / 180);
+  const [tx, ty, tz] = node.translate ?? [0, 0, 0];
+  const rotX = [1, 0, 0, 0, 0, Math.cos(rx), -Math.sin(rx), 0, 0, Math.sin(rx), Math.cos(rx), 0];
+  const rotY = [Math.cos(ry), 0, Math.sin(ry), 0, 0, 1, 0, 0, -Math.sin(ry), 0, Math.cos(ry), 0];
+  const rotZ = [Math.cos(rz), -Math.sin(rz), 0, 0, Math.sin(rz), Math.cos(rz), 0, 0, 0, 0, 1, 0];
+  const scaled = [scale[0], 0, 0, 0, 0, scale[1], 0, 0, 0, 0, scale[2], 0];
+  const rotated = multiply(rotZ, multiply(rotY, multiply(rotX, scaled)));
+  return [rotated[0], rotated[1], rotated[2], tx, rotated[4], rotated[5], rotated[6], ty, rotated[8], rotated[9], rotated[10], tz];
+};
+
+// --- Primitive geometry, in the primitive's own space ---
+
+// `along` runs from 0 to the geometry's `length`; `theta` is the angle around its axis
+interface LocalSample {
+  p: Vec3;
+  along: number;
+  theta: number;
+}
+
+interface Geometry {
+  area: number;
+  volume: number;
+  length: number;
+  bounds: [Vec3, Vec3];
+  surface: (random: Random) => LocalSample;
+  interior: (random: Random) => LocalSample;
+  contains: (p: Vec3) => boolean;
+}
+
+const TAU = Math.PI * 2;
+
+const randomDirection = (random: Random): Vec3 => {
+  const z = random() * 2 - 1;
+  const phi = random() * TAU;
+  const s = Math.sqrt(1 - z * z);
+  return [s * Math.cos(phi), z, s * Math.sin(phi)];
+};
+
+const aroundY = (p: Vec3, along: number): LocalSample => ({ p, along, theta: Math.atan2(p[2], p[0]) });
+
+const sphere = (radius: number): Geometry => ({
+  area: 4 * Math.PI * radius * radius,
+  volume: (4 / 3) * Math.PI * radius ** 3,
+  length: 2 * radius,
+  bounds: [[-radius, -radius, -radius], [radius, radius, radius]],
+  surface: random => {
+    const p = randomDirection(random).map(c => c * radius) as Vec3;
+    return aroundY(p, p[1] + radius);
+  },
+  interior: random => {
+    const r = radius * Math.cbrt(random());
+    const p = randomDirection(random).map(c => c * r) as Vec3;
+    return aroundY(p, p[1] + radius);
+  },
+  contains: p => p[0] * p[0] + p[1] * p[1] + p[2] * p[2] <= radius * radius,
+});
+
+const box = (size: Vec3): Geometry => {
+  const h = size.map(s => s / 2) as Vec3;
+  const faceAreas = [size[1] * size[2], size[0] * size[2], size[0] * size[1]];
+  const total = faceAreas[0] + faceAreas[1] + faceAreas[2];
+  return {
+    area: 2 * total,
+    volume: size[0] * size[1] * size[2],
+    length: size[1],
+    bounds: [[-h[0], -h[1], -h[2]], h],
+    surface: random => {
+      const p = h.map(c => (random() * 2 - 1) * c) as Vec3;
+      // Pick a face by area, then push the point onto it
+      const pick = random() * total;
+      const axis = pick < faceAreas[0] ? 0 : pick < faceAreas[0] + faceAreas[1] ? 1 : 2;
+      p[axis] = random() < 0.5 ? -h[axis] : h[axis];
+      return aroundY(p, p[1] + h[1]);
+    },
+    interior: random => {
+      const p = h.map(c => (random() * 2 - 1) * c) as Vec3;
+      return aroundY(p, p[1] + h[1]);
+    },
+    contains: p => Math.abs(p[0]) <= h[0] && Math.abs(p[1]) <= h[1] && Math.abs(p[2]) <= h[2],
+  };
+};
+
+// Cones and cylinders: radius r1 at the base (y = -height/2), r2 at the top
+const frustum = (r1: number, r2: number, height: number, caps: boolean): Geometry => {
+  const half = height / 2;
+  const rMax = Math.max(r1, r2);
+  const radiusAt = (t: number) => r1 + (r2 - r1) * t;
+  const lateral = Math.PI * (r1 + r2) * Math.hypot(r1 - r2, height);
+  const bottom = caps ? Math.PI * r1 * r1 : 0;
+  const top = caps ? Math.PI * r2 * r2 : 0;
+  const ring = (radius: number, y: number, random: Random) => {
+    const angle = random() * TAU;
+    return aroundY([Math.cos(angle) * radius, y, Math.sin(angle) * radius], y + half);
+  };
+
+  return {
+    area: lateral + bottom + top,
+    volume: ((Math.PI * height) / 3) * (r1 * r1 + r1 * r2 + r2 * r2),
+    length: height,
+    bounds: [[-rMax, -half, -rMax], [rMax, half, rMax]],
+    surface: random => {
+      const pick = random() * (lateral + bottom + top);
+      if (pick < bottom) return ring(r1 * Math.sqrt(random()), -half, random);
+      if (pick < bottom + top) return ring(r2 * Math.sqrt(random()), half, random);
+      // Side area grows with the radius, so invert that density
+      const u = random();
+      const t = Math.abs(r2 - r1) < 1e-6 ? u : (Math.sqrt(r1 * r1 + u * (r2 * r2 - r1 * r1)) - r1) / (r2 - r1);
+      return ring(radiusAt(t), -half + t * height, random);
+    },
+    interior: random => {
+      // Slices weighted by their area, by rejection
+      let t = random();
+      for (let i = 0; i < 32 && rMax > 0 && random() > (radiusAt(t) / rMax) ** 2; i++) t = random();
+      return ring(radiusAt(t) * Math.sqrt(random()), -half + t * height, random);
+    },
+    contains: p => {
+      if (Math.abs(p[1]) > half) return false;
+      const r = radiusAt((p[1] + half) / height);
+      return p[0] * p[0] + p[2] * p[2] <= r * r;
+    },
+  };
+};
+
+const torus = (radius: number, tube: number): Geometry => {
+  const outer = radius + tube;
+  // Points on the outside of the ring cover more area; accept by distance from the axis
+  const sample = (random: Random, rho: () => number): LocalSample => {
+    for (let i = 0; ; i++) {
+      const u = random() * TAU;
+      const v = random() * TAU;
+      const r = rho();
+      const d = radius + r * Math.cos(v);
+      if (i < 32 && random() > d / outer) continue;
+      return { p: [d * Math.cos(u), r * Math.sin(v), d * Math.sin(u)], along: u * radius, theta: v };
+    }
+  };
+  return {
+    area: 4 * Math.PI * Math.PI * radius * tube,
+    volume: 2 * Math.PI * Math.PI * radius * tube * tube,
+    length: TAU * radius,
+    bounds: [[-outer, -tube, -outer], [outer, tube, outer]],
+    surface: random => sample(random, () => tube),
+    interior: random => sample(random, () => tube * Math.sqrt(random())),
+    contains: p => (Math.hypot(p[0], p[2]) - radius) ** 2 + p[1] * p[1] <= tube * tube,
+  };
+};
+
+const TUBE_STEPS = 48;
+
+const bezier = (path: Vec3[], t: number): Vec3 => {
+  const pts = path.map(p => p.slice() as Vec3);
+  for (let n = pts.length - 1; n > 0; n--) {
+    for (let i = 0; i < n; i++) {
+      for (let k = 0; k < 3; k++) pts[i][k] += (pts[i + 1][k] - pts[i][k]) * t;
+    }
+  }
+  return pts[0];
+};
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (v: Vec3): Vec3 => {
+  const l = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / l, v[1] / l, v[2] / l];
+};
+
+// Round tube along a Bezier curve, flattened to a polyline with arc lengths
+const tube = (path: Vec3[], radius: number): Geometry => {
+  const line = Array.from({ length: TUBE_STEPS + 1 }, (_, i) => bezier(path, i / TUBE_STEPS));
+  const lengths = [0];
+  for (let i = 1; i < line.length; i++) {
+    const d = sub(line[i], line[i - 1]);
+    lengths.push(lengths[i - 1] + Math.hypot(d[0], d[1], d[2]));
+  }
+  const total = lengths[lengths.length - 1] || 1e-6;
+
+  const sample = (random: Random, rho: number): LocalSample => {
+    const s = random() * total;
+    let i = 1;
+    while (i < TUBE_STEPS && lengths[i] < s) i++;
+    const span = lengths[i] - lengths[i - 1] || 1;
+    const k = (s - lengths[i - 1]) / span;
+    const a = line[i - 1];
+    const b = line[i];
+    const center: Vec3 = [a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k];
+    const tangent = normalize(sub(b, a));
+    const normal = normalize(cross(tangent, Math.abs(tangent[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]));
+    const binormal = cross(tangent, normal);
+    const theta = random() * TAU;
+    const c = Math.cos(theta) * rho;
+    const sn = Math.sin(theta) * rho;
+    return {
+      p: [0, 1, 2].map(j => center[j] + normal[j] * c + binormal[j] * sn) as Vec3,
+      along: s,
+      theta,
+    };
+  };
+
+  const min = [0, 1, 2].map(k => Math.min(...line.map(p => p[k])) - radius) as Vec3;
+  const max = [0, 1, 2].map(k => Math.max(...line.map(p => p[k])) + radius) as Vec3;
+  return {
+    area: TAU * radius * total,
+    volume: Math.PI * radius * radius * total,
+    length: total,
+    bounds: [min, max],
+    surface: random => sample(random, radius),
+    interior: random => sample(random, radius * Math.sqrt(random())),
+    contains: p =>
+      line.some((a, i) => {
+        if (i === 0) return false;
+        const ab = sub(a, line[i - 1]);
+        const ap = sub(p, line[i - 1]);
+        const len2 = ab[0] * ab[0] + ab[1] * ab[1] + ab[2] * ab[2] || 1e-12;
+        const t = Math.min(1, Math.max(0, (ap[0] * ab[0] + ap[1] * ab[1] + ap[2] * ab[2]) / len2));
+        const d = [ap[0] - ab[0] * t, ap[1] - ab[1] * t, ap[2] - ab[2] * t];
+        return d[0] * d[0] + d[1] * d[1] + d[2] * d[2] <= radius * radius;
+      }),
+  };
+};
+
+const DEFAULT_POINT_RADIUS = 0.04;
+
+const geometryOf = (node: DslPrimitive): Geometry => {
+  switch (node.type) {
+    case 'sphere':
+      return sphere(node.radius);
+    case 'box':
+      return box(node.size);
+    case 'cone':
+      return frustum(node.radius, node.topRadius ?? 0, node.height, node.caps ?? true);
+    case 'cylinder':
+      return frustum(node.radius, node.radius, node.height, node.caps ?? true);
+    case 'torus':
+      return torus(node.radius, node.tube);
+    case 'tube':
+      return tube(node.path, node.radius);
+    case 'point': {
+      // A small solid blob whichever fill is asked for
+      const blob = sphere(node.radius ?? DEFAULT_POINT_RADIUS);
+      return { ...blob, surface: blob.interior };
+    }
+  }
+};
+
+// --- Styles ---
+
+interface Style {
+  weight: number;
+  fill: 'surface' | 'volume';
+  color: Color;
+  colorNoise: number;
+  pattern: DslPattern | null;
+  jitter: number;
+}
+
+const DEFAULT_STYLE: Style = { weight: 1, fill: 'surface', color: [1, 1, 1], colorNoise: 0.1, pattern: null, jitter: 0 };
+
+const toRgb = (color: DslColor): Color => {
+  if (typeof color !== 'string') return color;
+  const v = parseInt(color.replace('#', ''), 16);
+  return [((v >> 16) & 255) / 255, ((v >> 8) & 255) / 255, (v & 255) / 255];
+};
+
+// Weights multiply down the tree; everything else is overridden by the nearest node that sets it
+const inherit = (style: Style, node: DslNode): Style => ({
+  weight: style.weight * (node.weight ?? 1),
+  fill: node.fill ?? style.fill,
+  color: node.color !== undefined ? toRgb(node.color) : style.color,
+  colorNoise: node.colorNoise ?? style.colorNoise,
+  pattern: node.pattern ?? style.pattern,
+  jitter: node.jitter ?? style.jitter,
+});
+
+// Stable pseudo-random value per grid cell, so dots keep their color across samples
+const cellHash = (x: number, y: number, z: number, salt: number) => {
+  let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(z, 1440662683) ^ Math.imul(salt, 1274126177);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+const blend = (colors: Color[], t: number): Color => {
+  if (colors.length === 1) return colors[0];
+  const f = Math.min(1, Math.max(0, t)) * (colors.length - 1);
+  const i = Math.min(colors.length - 2, Math.floor(f));
+  const k = f - i;
+  return [0, 1, 2].map(c => colors[i][c] + (colors[i + 1][c] - colors[i][c]) * k) as Color;
+};
+
+const AXIS_INDEX = { x: 0, y: 1, z: 2 };
+
+const patternColor = (
+  pattern: DslPattern,
+  base: Color,
+  world: Vec3,
+  sample: LocalSample,
+  geometry: Geometry,
+  worldBounds: [Vec3, Vec3]
+): Color => {
+  const colors = pattern.colors.map(toRgb);
+  switch (pattern.type) {
+    case 'stripes': {
+      const axis = pattern.axis ?? 'y';
+      const coord = axis === 'along' ? sample.along : world[AXIS_INDEX[axis]];
+      const band = Math.floor(coord / pattern.width + ((pattern.twist ?? 0) * sample.theta) / TAU);
+      return colors[((band % colors.length) + colors.length) % colors.length];
+    }
+    case 'dots': {
+      const cell = world.map(c => Math.round(c / pattern.spacing));
+      const d = Math.hypot(...world.map((c, k) => c - cell[k] * pattern.spacing));
+      if (d > pattern.radius || cellHash(cell[0], cell[1], cell[2], 1) >= (pattern.chance ?? 1)) return base;
+      return colors[Math.floor(cellHash(cell[0], cell[1], cell[2], 2) * colors.length)];
+    }
+    case 'gradient': {
+      const axis = pattern.axis ?? 'y';
+      if (axis === 'along') return blend(colors, sample.along / (geometry.length || 1));
+      const k = AXIS_INDEX[axis];
+      const span = worldBounds[1][k] - worldBounds[0][k] || 1;
+      return blend(colors, (world[k] - worldBounds[0][k]) / span);
+    }
+  }
+};
+
+// --- Compilation into weighted parts ---
+
+interface Part {
+  share: number; // Weight times world-space area or volume
+  sample: (random: Random) => Point3D | null; // null when a boolean rejected the point
+}
+
+const worldBoundsOf = (geometry: Geometry, matrix: Matrix): [Vec3, Vec3] => {
+  const [lo, hi] = geometry.bounds;
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i =>
+    transform(matrix, [i & 1 ? hi[0] : lo[0], i & 2 ? hi[1] : lo[1], i & 4 ? hi[2] : lo[2]])
+  );
+  return [
+    [0, 1, 2].map(k => Math.min(...corners.map(c => c[k]))) as Vec3,
+    [0, 1, 2].map(k => Math.max(...corners.map(c => c[k]))) as Vec3,
+  ];
+};
+
+const primitivePart = (node: DslPrimitive, matrix: Matrix, style: Style): Part => {
+  const geometry = geometryOf(node);
+  const scale = Math.abs(determinant(matrix));
+  const measure = style.fill === 'volume' ? geometry.volume * scale : geometry.area * Math.cbrt(scale) ** 2;
+  const worldBounds = worldBoundsOf(geometry, matrix);
+  const draw = style.fill === 'volume' ? geometry.interior : geometry.surface;
+
+  return {
+    share: style.weight * measure,
+    sample: random => {
+      const local = draw(random);
+      const world = transform(matrix, local.p);
+      const base = style.pattern
+        ? patternColor(style.pattern, style.color, world, local, geometry, worldBounds)
+        : style.color;
+      const noise = style.colorNoise;
+      const color = base.map(c => Math.min(1, Math.max(0, c + (random() - 0.5) * noise))) as Color;
+      const jitter = style.jitter;
+      return {
+        x: world[0] + (random() - 0.5) * jitter,
+        y: world[1] + (random() - 0.5) * jitter,
+        z: world[2] + (random() - 0.5) * jitter,
+        color,
+      };
+    },
+  };
+};
+
+// Index picker proportional to the given shares
+const picker = (shares: number[]) => {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const share of shares) cumulative.push((total += share));
+  return (random: Random) => {
+    const target = random() * total;
+    const i = cumulative.findIndex(c => c > target);
+    return i < 0 ? shares.length - 1 : i;
+  };
+};
+
+// Inside test in world space, treating every primitive as solid
+const containsOf = (node: DslNode, parent: Matrix): ((p: Vec3) => boolean) => {
+  const matrix = multiply(parent, nodeMatrix(node));
+  if (node.type !== 'group') {
+    const geometry = geometryOf(node);
+    const inverse = invert(matrix);
+    return p => geometry.contains(transform(inverse, p));
+  }
+  const [first, ...rest] = node.children.map(child => containsOf(child, matrix));
+  switch (node.op ?? 'union') {
+    case 'subtract':
+      return p => first(p) && !rest.some(test => test(p));
+    case 'intersect':
+      return p => first(p) && rest.every(test => test(p));
+    default:
+      return p => first(p) || rest.some(test => test(p));
+  }
+};
+
+const compileNode = (node: DslNode, parent: Matrix, inherited: Style): Part[] => {
+  const matrix = multiply(parent, nodeMatrix(node));
+  const style = inherit(inherited, node);
+  if (node.type !== 'group') return [primitivePart(node, matrix, style)];
+
+  const op = node.op ?? 'union';
+  if (op === 'union') return node.children.flatMap(child => compileNode(child, matrix, style));
+
+  // Booleans sample the first child and keep what passes the others' inside tests
+  const [first, ...others] = node.children;
+  const parts = compileNode(first, matrix, style);
+  const tests = others.map(child => containsOf(child, matrix));
+  const pick = picker(parts.map(part => part.share));
+  return [
+    {
+      share: parts.reduce((sum, part) => sum + part.share, 0),
+      sample: random => {
+        const point = parts[pick(random)].sample(random);
+        if (!point) return null;
+        const p: Vec3 = [point.x, point.y, point.z];
+        const keep = op === 'subtract' ? !tests.some(test => test(p)) : tests.every(test => test(p));
+        return keep ? point : null;
+      },
+    },
+  ];
+};
+
+// Split `count` by share, handing leftovers to the largest remainders
+const allocate = (shares: number[], count: number) => {
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  const exact = shares.map(share => (share / total) * count);
+  const counts = exact.map(Math.floor);
+  const order = exact.map((e, i) => i).sort((a, b) => exact[b] - counts[b] - (exact[a] - counts[a]));
+  let left = count - counts.reduce((sum, n) => sum + n, 0);
+  for (let k = 0; left > 0; k++, left--) counts[order[k % order.length]]++;
+  return counts;
+};
+
+// Rejection budget per requested point; booleans that cut most of a part away run out first
+const ATTEMPTS_PER_POINT = 20;
+
+// Turn a (parsed) document into `count` points, grouped by part.
+// Callers shuffle if they need any prefix to cover the whole shape.
+export const sampleShape = (doc: ShapeDocument, count: number, random: Random = Math.random): Point3D[] => {
+  const parts = compileNode(doc.shape, IDENTITY, DEFAULT_STYLE).filter(part => part.share > 0);
+  if (parts.length === 0 || count <= 0) return [];
+
+  const points: Point3D[] = [];
+  const quotas = allocate(parts.map(part => part.share), count);
+  parts.forEach((part, i) => {
+    const target = points.length + quotas[i];
+    for (let attempt = 0; points.length < target && attempt < quotas[i] * ATTEMPTS_PER_POINT; attempt++) {
+      const point = part.sample(random);
+      if (point) points.push(point);
+    }
+  });
+
+  // Top up from every part when a boolean came up short
+  const pick = picker(parts.map(part => part.share));
+  for (let attempt = 0; points.length < count && attempt < count * ATTEMPTS_PER_POINT; attempt++) {
+    const point = parts[pick(random)].sample(random);
+    if (point) points.push(point);
+  }
+  return points;
+};
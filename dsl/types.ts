@@ -0,0 +1,95 @@
+// Shape description language: a JSON tree of primitives and groups, sampled into points.
+// Units are those of the scene; shapes should fit the ±1.5 box the built-ins use.
+// Cones, cylinders and tori are built around the y axis; rotations are in degrees.
+
+export type Vec3 = [number, number, number];
+
+// "#rrggbb" or RGB 0-1
+export type DslColor = string | Vec3;
+
+// 'along' is the length along a tube, or local height for other primitives
+export type DslAxis = 'x' | 'y' | 'z' | 'along';
+
+export type DslPattern =
+  // Bands of `width`; `twist` shifts them by that many bands per turn around the axis (spirals)
+  | { type: 'stripes'; axis?: DslAxis; width: number; colors: DslColor[]; twist?: number }
+  // Spots of `radius` on a grid of `spacing`; `chance` of each grid spot having one
+  | { type: 'dots'; spacing: number; radius: number; colors: DslColor[]; chance?: number }
+  // Linear blend across the part's extent along an axis
+  | { type: 'gradient'; axis?: DslAxis; colors: DslColor[] };
+
+// Shared by every node. Styles set on a group apply to children that don't set their own.
+export interface DslNodeBase {
+  translate?: Vec3;
+  rotate?: Vec3; // Degrees, applied X then Y then Z
+  scale?: number | Vec3;
+  weight?: number; // Particle density multiplier, default 1
+  fill?: 'surface' | 'volume'; // Default surface
+  color?: DslColor;
+  colorNoise?: number; // Random variation per channel, default 0.1
+  pattern?: DslPattern;
+  jitter?: number; // Random offset of every point, default 0
+}
+
+export interface DslSphere extends DslNodeBase {
+  type: 'sphere';
+  radius: number;
+}
+
+export interface DslBox extends DslNodeBase {
+  type: 'box';
+  size: Vec3;
+}
+
+// Base at y = -height/2, tip (or top) at +height/2
+export interface DslCone extends DslNodeBase {
+  type: 'cone';
+  radius: number;
+  height: number;
+  topRadius?: number; // Truncated cone, default 0
+  caps?: boolean; // Sample the flat ends too, default true
+}
+
+export interface DslCylinder extends DslNodeBase {
+  type: 'cylinder';
+  radius: number;
+  height: number;
+  caps?: boolean;
+}
+
+// Ring in the XZ plane
+export interface DslTorus extends DslNodeBase {
+  type: 'torus';
+  radius: number;
+  tube: number;
+}
+
+// Round tube along a Bezier curve with the given control points (2 = straight line)
+export interface DslTube extends DslNodeBase {
+  type: 'tube';
+  path: Vec3[];
+  radius: number;
+}
+
+// A small blob, for eyes, buttons and other details
+export interface DslPoint extends DslNodeBase {
+  type: 'point';
+  radius?: number; // Spread, default 0.04
+}
+
+// 'union' merges children; 'subtract' keeps the first child's points outside the others;
+// 'intersect' keeps the first child's points inside all others
+export interface DslGroup extends DslNodeBase {
+  type: 'group';
+  op?: 'union' | 'subtract' | 'intersect';
+  children: DslNode[];
+}
+
+export type DslPrimitive = DslSphere | DslBox | DslCone | DslCylinder | DslTorus | DslTube | DslPoint;
+export type DslNode = DslPrimitive | DslGroup;
+
+export interface ShapeDocument {
+  version: 1;
+  name?: string;
+  shape: DslNode;
+}
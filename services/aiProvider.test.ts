@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { sampleShape } from '../dsl/sampler';
+import { createRandom } from '../utils/random';
+import { SHAPE_DOCUMENT_EXAMPLES, SHAPE_DOCUMENT_INSTRUCTION } from './aiProvider';
+
+describe('SHAPE_DOCUMENT_INSTRUCTION', () => {
+  it('embeds every example', () => {
+    for (const doc of Object.values(SHAPE_DOCUMENT_EXAMPLES)) {
+      expect(SHAPE_DOCUMENT_INSTRUCTION).toContain(JSON.stringify(doc.shape));
+    }
+  });
+
+  it.each(Object.entries(SHAPE_DOCUMENT_EXAMPLES))('shows %s within the ±1.5 box it asks for', (_name, doc) => {
+    const points = sampleShape(doc, 4000, createRandom(1));
+    expect(points.length).toBeGreaterThan(0);
+    const extent = points.reduce((max, p) => Math.max(max, Math.abs(p.x), Math.abs(p.y), Math.abs(p.z)), 0);
+    expect(extent).toBeLessThanOrEqual(1.5);
+  });
+});
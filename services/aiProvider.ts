@@ -0,0 +1,102 @@
+import { GestureLabel } from '../types';
+import { HOLIDAY_SHAPES } from '../dsl/holidayShapes';
+
+// What every AI backend throws for an HTTP-level failure, so callers can treat them alike
+export class AIProviderError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null; // The server's own hint, when it gave one
+
+  constructor(status: number, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// One raw point as requested from a model; validated by the shape pipeline
+export interface RawShapePoint {
+  x: number;
+  y: number;
+  z: number;
+  r?: number;
+  g?: number;
+  b?: number;
+}
+
+// --- Prompts shared by the text backends ---
+
+// Grammar summary for the model; dsl/types.ts is the full reference
+const SHAPE_DSL_GUIDE = `
+  Describe the object as a JSON document {"version": 1, "name": string, "shape": node}.
+  A node is a primitive or a group:
+    {"type": "sphere", "radius"}
+    {"type": "box", "size": [x, y, z]}
+    {"type": "cone", "radius", "height", "topRadius"?, "caps"?}  (base at y = -height/2, tip at +height/2)
+    {"type": "cylinder", "radius", "height", "caps"?}
+    {"type": "torus", "radius", "tube"}  (ring in the XZ plane)
+    {"type": "tube", "path": [[x, y, z], ...], "radius"}  (Bezier curve through 2 to 8 control points)
+    {"type": "point", "radius"?}  (small blob for eyes, buttons, details)
+    {"type": "group", "op"?: "union" | "subtract" | "intersect", "children": [node, ...]}
+  Any node may set: "translate": [x, y, z], "rotate": [x, y, z] in degrees, "scale": number or [x, y, z],
+  "weight" (particle density multiplier, raise it for small details), "fill": "surface" | "volume",
+  "color": "#rrggbb", "colorNoise" (0 to 1), "jitter", and "pattern":
+    {"type": "stripes", "axis": "x" | "y" | "z" | "along", "width", "colors": [...], "twist"?}
+    {"type": "dots", "spacing", "radius", "colors": [...], "chance"?}
+    {"type": "gradient", "axis", "colors": [...]}
+  Groups pass their style on to children that don't set their own.
+  The object must fit within -1.5 to 1.5 on every axis, with y pointing up and the front facing +z.
+`;
+
+// Worked examples for the model; they have to keep to the bounds the guide asks for
+export const SHAPE_DOCUMENT_EXAMPLES = {
+  'a snowman': HOLIDAY_SHAPES.snowman,
+  'a candy cane': HOLIDAY_SHAPES.cane,
+};
+
+export const SHAPE_DOCUMENT_INSTRUCTION = `
+  You are a 3D modelling assistant that builds objects from simple primitives.
+  ${SHAPE_DSL_GUIDE}
+  Use as few primitives as the object needs (usually 3 to 30), and color them like the real object.
+  Reply with the JSON document only.
+${Object.entries(SHAPE_DOCUMENT_EXAMPLES).map(([name, doc]) => `  Example, ${name}: ${JSON.stringify(doc.shape)}`).join('\n')}
+`;
+
+export const shapeDocumentPrompt = (prompt: string) => `Build a shape that looks like: "${prompt}".`;
+
+export const SHAPE_POINTS_INSTRUCTION = `
+  You are a 3D geometry engine.
+  Your task is to generate 3D points (x, y, z) with colors (r, g, b) that form a specific shape.
+  Coordinates must be within -1.5 to 1.5, with y pointing up. Colors are 0 to 1.
+  Spread the points evenly over the surface and volume of the object, and color them like the real object.
+  Reply with JSON of the form {"points": [{"x", "y", "z", "r", "g", "b"}, ...]}.
+`;
+
+// Part `chunk` of `chunks`, split into horizontal bands so the merged chunks cover the whole object
+export const shapeChunkPrompt = (prompt: string, chunk: number, chunks: number, pointCount: number) => {
+  const bandHeight = 3 / chunks;
+  const from = -1.5 + bandHeight * chunk;
+  const band = chunks > 1
+    ? ` Only generate the part of the object with y between ${from.toFixed(2)} and ${(from + bandHeight).toFixed(2)}.`
+    : '';
+  return `Generate ${pointCount} points for a shape that looks like: "${prompt}".${band}`;
+};
+
+export const GESTURE_PROMPT =
+  "Analyze the hand in this image. Is it an 'OPEN_HAND' (fingers spread), a 'FIST' (closed hand), or 'POINTING_UP' (index finger up)? If unclear or no hand, return 'NONE'. Return only the enum string.";
+
+export const parseGestureLabel = (text: string | undefined): GestureLabel => {
+  const label = text?.trim().toUpperCase() || "NONE";
+  if (label.includes("OPEN")) return "OPEN_HAND";
+  if (label.includes("FIST")) return "FIST";
+  if (label.includes("POINT")) return "POINTING_UP";
+  return "NONE";
+};
+
+// JSON from a chat reply; local models like to wrap it in a ```json fence.
+// Throws SyntaxError when there is none.
+export const parseJsonReply = (text: string | undefined): unknown => {
+  const trimmed = (text ?? '').trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : trimmed || '{}');
+};
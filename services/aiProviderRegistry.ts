@@ -0,0 +1,68 @@
+import { AIProvider, AIProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openAIProvider';
+import { mockProvider } from './mockProvider';
+import { RequestScheduler, RequestSchedulerConfig, scheduleProvider } from './requestScheduler';
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-compatible' },
+  { id: 'mock', label: 'Offline Mock' },
+];
+
+const isAIProviderId = (value: string | undefined): value is AIProviderId =>
+  AI_PROVIDER_OPTIONS.some(option => option.id === value);
+
+// Configured through .env.local (see vite.config.ts)
+const openAIProvider = createOpenAIProvider({
+  baseUrl: process.env.OPENAI_BASE_URL ?? '',
+  apiKey: process.env.OPENAI_API_KEY,
+  model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  visionModel: process.env.OPENAI_VISION_MODEL,
+});
+
+// Budgets per backend: Gemini's free tier allows about 10 calls a minute, local servers
+// and the mock are only limited by how fast they answer
+const SCHEDULER_CONFIGS: Record<AIProviderId, Partial<RequestSchedulerConfig>> = {
+  gemini: { requestsPerMinute: 10, minBackgroundIntervalMs: 4000 },
+  openai: { requestsPerMinute: 60, minBackgroundIntervalMs: 1000 },
+  mock: { requestsPerMinute: Infinity, minBackgroundIntervalMs: 250 },
+};
+
+const rawProvider = (id: AIProviderId): AIProvider => {
+  if (id === 'openai') return openAIProvider;
+  if (id === 'mock') return mockProvider;
+  return geminiProvider;
+};
+
+// One scheduler per backend, shared by every caller, since the quota is the backend's
+const schedulers = new Map<AIProviderId, RequestScheduler>();
+const scheduledProviders = new Map<AIProviderId, AIProvider>();
+
+export const getRequestScheduler = (id: AIProviderId): RequestScheduler => {
+  let scheduler = schedulers.get(id);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(SCHEDULER_CONFIGS[id]);
+    schedulers.set(id, scheduler);
+  }
+  return scheduler;
+};
+
+// The provider with all its calls going through its scheduler
+export const createAIProvider = (id: AIProviderId): AIProvider => {
+  let provider = scheduledProviders.get(id);
+  if (!provider) {
+    provider = scheduleProvider(rawProvider(id), getRequestScheduler(id));
+    scheduledProviders.set(id, provider);
+  }
+  return provider;
+};
+
+// AI_PROVIDER from the environment, else the first backend that is set up, else the mock
+export const defaultAIProviderId = (): AIProviderId => {
+  const configured = process.env.AI_PROVIDER;
+  if (isAIProviderId(configured)) return configured;
+  if (geminiProvider.isConfigured()) return 'gemini';
+  if (openAIProvider.isConfigured()) return 'openai';
+  return 'mock';
+};
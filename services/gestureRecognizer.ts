@@ -0,0 +1,40 @@
+import { AIProvider, GestureRecognizer, GestureRecognizerId } from '../types';
+import { analyzeHandFrame, updateBackground } from '../utils/handAnalysis';
+
+export const GESTURE_RECOGNIZER_OPTIONS: { id: GestureRecognizerId; label: string }[] = [
+  { id: 'local', label: 'On-device' },
+  { id: 'ai', label: 'AI Provider' },
+];
+
+// In-browser recognizer: skin/foreground segmentation + contour convexity on every frame
+export const createLocalGestureRecognizer = (): GestureRecognizer => {
+  let background: Float32Array | null = null;
+
+  return {
+    id: 'local',
+    label: 'On-device',
+    frameIntervalMs: 66,
+    recognize: async (frame) => {
+      const analysis = analyzeHandFrame(frame, background);
+      background = updateBackground(background, frame);
+      return analysis.result;
+    },
+    reset: () => {
+      background = null;
+    },
+  };
+};
+
+// Asks the selected AI provider about single frames. Frames are offered often; the provider's
+// request scheduler drops those it has no room for, so the ones sent are always fresh.
+export const createAIGestureRecognizer = (provider: AIProvider): GestureRecognizer => ({
+  id: 'ai',
+  label: provider.label,
+  frameIntervalMs: 250,
+  recognize: (frame) => provider.classifyGesture(frame),
+});
+
+export const createGestureRecognizer = (id: GestureRecognizerId, provider: AIProvider): GestureRecognizer => {
+  if (id === 'ai') return createAIGestureRecognizer(provider);
+  return createLocalGestureRecognizer();
+};
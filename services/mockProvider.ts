@@ -0,0 +1,111 @@
+import { AIProvider } from '../types';
+import { DslNode, ShapeDocument } from '../dsl/types';
+import { HOLIDAY_SHAPES } from '../dsl/holidayShapes';
+import { sampleShape } from '../dsl/sampler';
+import { createRandom } from '../utils/random';
+import { normalizePoints } from '../utils/meshSampling';
+import { analyzeHandFrame } from '../utils/handAnalysis';
+import { RawShapePoint } from './aiProvider';
+
+// Offline stand-in for the cloud backends: the same prompt always gives the same shape,
+// so the whole app can run (and be tested) without a key or a network
+
+const KEYWORDS: [RegExp, keyof typeof HOLIDAY_SHAPES][] = [
+  [/snow\s*man/, 'snowman'],
+  [/tree|pine|fir/, 'tree'],
+  [/present|gift/, 'present'],
+  [/wreath/, 'wreath'],
+  [/cane|candy/, 'cane'],
+  [/hat/, 'santa_hat'],
+  [/star/, 'star'],
+];
+
+const COLORS = ['#e8283c', '#f4c430', '#2e9e4f', '#ffffff', '#3a7bd5', '#c0c0c0', '#a0522d'];
+
+// FNV-1a
+const hashString = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+const normalizePrompt = (prompt: string) => prompt.trim().toLowerCase();
+
+// A stack of two to four primitives, sometimes with a ring or a pattern
+const proceduralDocument = (prompt: string): ShapeDocument => {
+  const random = createRandom(hashString(prompt));
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const levels = 2 + Math.floor(random() * 3);
+  const step = 3 / levels;
+  const children: DslNode[] = [];
+  for (let i = 0; i < levels; i++) {
+    const width = (1 - i / (levels + 1)) * (0.6 + random() * 0.4);
+    const base = {
+      translate: [0, -1.5 + step * (i + 0.5), 0] as [number, number, number],
+      color: pick(COLORS),
+    };
+    switch (pick(['sphere', 'cone', 'cylinder', 'box'])) {
+      case 'sphere':
+        children.push({ ...base, type: 'sphere', radius: Math.min(width, step / 2) });
+        break;
+      case 'cone':
+        children.push({ ...base, type: 'cone', radius: width, height: step });
+        break;
+      case 'cylinder':
+        children.push({ ...base, type: 'cylinder', radius: width * 0.8, height: step });
+        break;
+      default:
+        children.push({ ...base, type: 'box', size: [width * 1.4, step * 0.9, width * 1.4] });
+    }
+    if (random() < 0.3) {
+      children.push({ type: 'torus', radius: width + 0.05, tube: 0.05, translate: base.translate, color: '#ffd700', weight: 3 });
+    }
+  }
+
+  const accent = pick(COLORS);
+  return {
+    version: 1,
+    name: prompt,
+    shape: {
+      type: 'group',
+      fill: random() < 0.5 ? 'volume' : 'surface',
+      pattern: random() < 0.4 ? { type: 'dots', spacing: 0.3, radius: 0.07, chance: 0.5, colors: [accent] } : undefined,
+      children,
+    },
+  };
+};
+
+const documentFor = (prompt: string): ShapeDocument => {
+  const text = normalizePrompt(prompt);
+  const match = KEYWORDS.find(([pattern]) => pattern.test(text));
+  return match ? HOLIDAY_SHAPES[match[1]] : proceduralDocument(text);
+};
+
+// Replies go through JSON like a real backend's would, so callers can't share our objects
+const roundTrip = <T>(value: T): unknown => JSON.parse(JSON.stringify(value));
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  isConfigured: () => true,
+
+  requestShapeDocument: async (prompt) => roundTrip(documentFor(prompt)),
+
+  // The whole shape is sampled with the same seed for every chunk, then cut into the chunk's band
+  requestShapeChunk: async (prompt, chunk, chunks, pointCount) => {
+    const random = createRandom(hashString(normalizePrompt(prompt)));
+    const cloud = normalizePoints(sampleShape(documentFor(prompt), pointCount * chunks, random));
+    const bandHeight = 3 / chunks;
+    const from = -1.5 + bandHeight * chunk;
+    const last = chunk === chunks - 1;
+    const points: RawShapePoint[] = cloud
+      .filter(p => p.y >= from && (last || p.y < from + bandHeight))
+      .slice(0, pointCount)
+      .map(p => ({ x: p.x, y: p.y, z: p.z, r: p.color?.[0], g: p.color?.[1], b: p.color?.[2] }));
+    return roundTrip({ points });
+  },
+
+  // Stateless local analysis, so the same frame always gives the same answer
+  classifyGesture: async (frame) => analyzeHandFrame(frame).result,
+};
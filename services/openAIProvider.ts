@@ -0,0 +1,91 @@
+import { AIProvider } from '../types';
+import {
+  AIProviderError,
+  GESTURE_PROMPT,
+  parseGestureLabel,
+  parseJsonReply,
+  SHAPE_DOCUMENT_INSTRUCTION,
+  SHAPE_POINTS_INSTRUCTION,
+  shapeChunkPrompt,
+  shapeDocumentPrompt,
+} from './aiProvider';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+// LLM server (llama.cpp, Ollama, LM Studio, vLLM, ...)
+export interface OpenAIProviderConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1"
+  apiKey?: string; // Local servers usually don't need one
+  model: string;
+  visionModel?: string; // For gesture frames; defaults to `model`
+}
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: ChatContent;
+}
+
+const retryAfterOf = (response: Response) => {
+  const seconds = Number(response.headers.get('retry-after'));
+  return isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+};
+
+const chat = async (config: OpenAIProviderConfig, model: string, messages: ChatMessage[], json: boolean) => {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 300);
+    throw new AIProviderError(response.status, `${response.status} ${response.statusText} ${detail}`.trim(), retryAfterOf(response));
+  }
+  const body = await response.json();
+  const content = body?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new SyntaxError("Chat reply has no message content");
+  return content;
+};
+
+export const createOpenAIProvider = (config: OpenAIProviderConfig): AIProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  isConfigured: () => config.baseUrl.length > 0,
+
+  requestShapeDocument: async (prompt) =>
+    parseJsonReply(
+      await chat(config, config.model, [
+        { role: 'system', content: SHAPE_DOCUMENT_INSTRUCTION },
+        { role: 'user', content: shapeDocumentPrompt(prompt) },
+      ], true)
+    ),
+
+  requestShapeChunk: async (prompt, chunk, chunks, pointCount) =>
+    parseJsonReply(
+      await chat(config, config.model, [
+        { role: 'system', content: SHAPE_POINTS_INSTRUCTION },
+        { role: 'user', content: shapeChunkPrompt(prompt, chunk, chunks, pointCount) },
+      ], true)
+    ),
+
+  classifyGesture: async (frame) => {
+    const reply = await chat(config, config.visionModel || config.model, [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: GESTURE_PROMPT },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${frame.toBase64Jpeg()}` } },
+        ],
+      },
+    ], false);
+    const gesture = parseGestureLabel(reply);
+    return { gesture, confidence: gesture === 'NONE' ? 0 : 0.9 };
+  },
+});
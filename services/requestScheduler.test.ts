@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIProviderError } from './aiProvider';
+import { DroppedRequestError, RequestScheduler } from './requestScheduler';
+
+// A task that resolves (or rejects) only when told to
+const deferred = <T = string>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  const task = vi.fn(() => promise);
+  return { task, resolve, reject };
+};
+
+const rateLimited = (retryAfterMs: number | null) => () =>
+  Promise.reject(new AIProviderError(429, 'Too many requests', retryAfterMs));
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drops background calls while any call is in flight', async () => {
+    const scheduler = new RequestScheduler({ requestsPerMinute: 100, minBackgroundIntervalMs: 0 });
+    const background = deferred();
+    const first = scheduler.runIfIdle(background.task);
+    await expect(scheduler.runIfIdle(async () => 'frame')).rejects.toBeInstanceOf(DroppedRequestError);
+
+    background.resolve('done');
+    await expect(first).resolves.toBe('done');
+
+    const user = deferred();
+    const shape = scheduler.run(user.task);
+    await expect(scheduler.runIfIdle(async () => 'frame')).rejects.toBeInstanceOf(DroppedRequestError);
+    user.resolve('shape');
+    await expect(shape).resolves.toBe('shape');
+    await expect(scheduler.runIfIdle(async () => 'frame')).resolves.toBe('frame');
+  });
+
+  it('lets user calls jump ahead of background calls', async () => {
+    const scheduler = new RequestScheduler({ requestsPerMinute: 10, backgroundReserve: 0.3, minBackgroundIntervalMs: 0 });
+    // A background call in flight doesn't hold up a user call
+    const background = deferred();
+    const frame = scheduler.runIfIdle(background.task);
+    const user = deferred();
+    const shape = scheduler.run(user.task);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(user.task).toHaveBeenCalled();
+    background.resolve('frame');
+    user.resolve('shape');
+    await Promise.all([frame, shape]);
+
+    // Background calls stop short of the reserve; user calls may spend it
+    for (let i = 0; i < 5; i++) await scheduler.run(async () => 'shape');
+    await expect(scheduler.runIfIdle(async () => 'frame')).rejects.toBeInstanceOf(DroppedRequestError);
+    await expect(scheduler.run(async () => 'shape')).resolves.toBe('shape');
+    expect(scheduler.getStatus().usedThisMinute).toBe(8);
+  });
+
+  it('pauses everything for the retry-after of a 429', async () => {
+    const scheduler = new RequestScheduler({ requestsPerMinute: 100, minBackgroundIntervalMs: 0 });
+    await expect(scheduler.run(rateLimited(5000))).rejects.toBeInstanceOf(AIProviderError);
+    expect(scheduler.getStatus().cooldownUntil).toBe(5000);
+
+    await expect(scheduler.runIfIdle(async () => 'frame')).rejects.toBeInstanceOf(DroppedRequestError);
+    const next = deferred();
+    const shape = scheduler.run(next.task);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(next.task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(next.task).toHaveBeenCalled();
+    next.resolve('shape');
+    await expect(shape).resolves.toBe('shape');
+  });
+
+  it('backs the background pace off on errors and eases it back', async () => {
+    const scheduler = new RequestScheduler({ requestsPerMinute: 1000, minBackgroundIntervalMs: 1000, defaultCooldownMs: 0 });
+    await expect(scheduler.runIfIdle(rateLimited(null))).rejects.toBeInstanceOf(AIProviderError);
+    expect(scheduler.getStatus().backgroundIntervalMs).toBe(2000);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(scheduler.runIfIdle(() => Promise.reject(new AIProviderError(503, 'Busy')))).rejects.toBeInstanceOf(
+      AIProviderError
+    );
+    expect(scheduler.getStatus().backgroundIntervalMs).toBe(3000);
+
+    // Too soon for the slower pace
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(scheduler.runIfIdle(async () => 'frame')).rejects.toBeInstanceOf(DroppedRequestError);
+
+    // Fast answers bring it back towards the minimum, a step at a time
+    const intervals: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      await vi.advanceTimersByTimeAsync(3000);
+      await scheduler.runIfIdle(async () => 'frame');
+      intervals.push(scheduler.getStatus().backgroundIntervalMs);
+    }
+    expect(intervals[0]).toBe(2400);
+    for (let i = 1; i < intervals.length; i++) expect(intervals[i]).toBeLessThanOrEqual(intervals[i - 1]);
+    expect(intervals[intervals.length - 1]).toBeLessThan(1100);
+  });
+
+  it('keeps a status timer only while someone watches', async () => {
+    const scheduler = new RequestScheduler({ requestsPerMinute: 100 });
+    await scheduler.run(async () => 'shape');
+    expect(vi.getTimerCount()).toBe(0);
+
+    const listener = vi.fn();
+    const unsubscribe = scheduler.subscribe(listener);
+    expect(vi.getTimerCount()).toBe(1);
+    await vi.advanceTimersByTimeAsync(60010);
+    expect(scheduler.getStatus().usedThisMinute).toBe(0);
+    expect(listener).toHaveBeenCalled();
+
+    await scheduler.run(async () => 'shape');
+    scheduler.dispose();
+    expect(vi.getTimerCount()).toBe(0);
+    unsubscribe();
+  });
+});
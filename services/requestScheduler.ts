@@ -0,0 +1,222 @@
+import { AIProvider } from '../types';
+import { AIProviderError } from './aiProvider';
+
+export interface RequestSchedulerConfig {
+  requestsPerMinute: number; // Budget for all calls; Infinity for local backends
+  backgroundReserve: number; // Fraction of the budget background calls may not touch
+  minBackgroundIntervalMs: number; // Fastest pace for background calls
+  maxBackgroundIntervalMs: number; // Slowest pace, reached after repeated rate limiting
+  latencyFactor: number; // Background calls wait this many times the last latency
+  defaultCooldownMs: number; // Pause after a 429 that gave no retry-after
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: RequestSchedulerConfig = {
+  requestsPerMinute: 10,
+  backgroundReserve: 0.3,
+  minBackgroundIntervalMs: 2000,
+  maxBackgroundIntervalMs: 30000,
+  latencyFactor: 3,
+  defaultCooldownMs: 15000,
+};
+
+export interface RequestSchedulerStatus {
+  inFlight: number;
+  queued: number; // User calls waiting for their turn
+  usedThisMinute: number;
+  requestsPerMinute: number;
+  cooldownUntil: number | null; // Date.now() time until which nothing is sent
+  backgroundIntervalMs: number;
+  lastLatencyMs: number | null;
+}
+
+// Thrown when a background call is skipped: something more important is running, the
+// pace or budget doesn't allow it now, or it would have been stale by the time it ran
+export class DroppedRequestError extends Error {
+  constructor(message = "Request skipped") {
+    super(message);
+    this.name = 'DroppedRequestError';
+  }
+}
+
+const WINDOW_MS = 60000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Paces every model call to one backend. User calls queue and always go first; background
+// calls (vision frames) run one at a time and only when nothing else wants the budget.
+// 429s pause everything for the server's retry-after; the background pace follows latency.
+export class RequestScheduler {
+  readonly config: RequestSchedulerConfig;
+  private sent: number[] = []; // Start times within the last minute
+  private userQueue: (() => void)[] = [];
+  private userActive = false;
+  private backgroundActive = false;
+  private lastBackgroundAt = -Infinity;
+  private backgroundIntervalMs: number;
+  private lastLatencyMs: number | null = null;
+  private cooldownUntil = 0;
+  private listeners = new Set<() => void>();
+  private status: RequestSchedulerStatus;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: Partial<RequestSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+    this.backgroundIntervalMs = this.config.minBackgroundIntervalMs;
+    this.status = this.snapshot();
+  }
+
+  // --- Status for the UI (stable object between changes, for useSyncExternalStore) ---
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    // The status may have gone stale while nobody watched
+    if (this.listeners.size === 1) this.refresh();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.dispose();
+    };
+  };
+
+  getStatus = () => this.status;
+
+  private snapshot(): RequestSchedulerStatus {
+    return {
+      inFlight: (this.userActive ? 1 : 0) + (this.backgroundActive ? 1 : 0),
+      queued: this.userQueue.length,
+      usedThisMinute: this.sent.length,
+      requestsPerMinute: this.config.requestsPerMinute,
+      cooldownUntil: this.cooldownUntil > Date.now() ? this.cooldownUntil : null,
+      backgroundIntervalMs: Math.round(this.backgroundIntervalMs),
+      lastLatencyMs: this.lastLatencyMs === null ? null : Math.round(this.lastLatencyMs),
+    };
+  }
+
+  // Stop the status timer, e.g. when switching to another backend. Scheduling is unaffected,
+  // and the timer starts again once someone subscribes.
+  dispose() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  // Recompute the status and, while someone watches, wake up again when the window or the
+  // cooldown next changes it
+  private refresh() {
+    const now = Date.now();
+    this.sent = this.sent.filter(t => now - t < WINDOW_MS);
+    const next = this.snapshot();
+    const changed = (Object.keys(next) as (keyof RequestSchedulerStatus)[]).some(k => next[k] !== this.status[k]);
+    if (changed) {
+      this.status = next;
+      this.listeners.forEach(listener => listener());
+    }
+
+    this.dispose();
+    if (this.listeners.size === 0) return;
+    const wakeups = [
+      this.sent.length > 0 ? this.sent[0] + WINDOW_MS - now : Infinity,
+      this.cooldownUntil > now ? this.cooldownUntil - now : Infinity,
+    ];
+    const wait = Math.min(...wakeups);
+    this.refreshTimer = isFinite(wait) ? setTimeout(() => this.refresh(), wait + 10) : null;
+  }
+
+  // --- Scheduling ---
+
+  private budgetLeft(reserve: number) {
+    const now = Date.now();
+    this.sent = this.sent.filter(t => now - t < WINDOW_MS);
+    return this.config.requestsPerMinute * (1 - reserve) - this.sent.length;
+  }
+
+  // How long a user call has to wait before it may start, 0 when it can go now
+  private userWaitMs() {
+    const now = Date.now();
+    if (this.cooldownUntil > now) return this.cooldownUntil - now;
+    if (this.budgetLeft(0) >= 1) return 0;
+    return this.sent[0] + WINDOW_MS - now;
+  }
+
+  private async execute<T>(task: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    this.sent.push(started);
+    this.refresh();
+    try {
+      const result = await task();
+      this.lastLatencyMs = Date.now() - started;
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  private recordFailure(error: unknown) {
+    if (!(error instanceof AIProviderError)) return;
+    const { maxBackgroundIntervalMs, defaultCooldownMs } = this.config;
+    if (error.status === 429) {
+      this.cooldownUntil = Date.now() + (error.retryAfterMs ?? defaultCooldownMs);
+      this.backgroundIntervalMs = Math.min(maxBackgroundIntervalMs, this.backgroundIntervalMs * 2);
+    } else if (error.status >= 500) {
+      this.backgroundIntervalMs = Math.min(maxBackgroundIntervalMs, this.backgroundIntervalMs * 1.5);
+    }
+  }
+
+  // User-initiated call: queued in order, run as soon as cooldown and budget allow
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.userActive) {
+      // The call before hands over without clearing userActive, so nothing can slip in between
+      await new Promise<void>(resolve => {
+        this.userQueue.push(resolve);
+        this.refresh();
+      });
+    }
+    this.userActive = true;
+    this.refresh();
+    try {
+      for (let wait = this.userWaitMs(); wait > 0; wait = this.userWaitMs()) await sleep(wait);
+      return await this.execute(task);
+    } finally {
+      const next = this.userQueue.shift();
+      if (next) next();
+      else this.userActive = false;
+      this.refresh();
+    }
+  }
+
+  // Background call: runs now or not at all (DroppedRequestError), so it never acts on a stale frame
+  async runIfIdle<T>(task: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const { backgroundReserve, minBackgroundIntervalMs, latencyFactor } = this.config;
+    if (
+      this.backgroundActive ||
+      this.userActive ||
+      this.cooldownUntil > now ||
+      now - this.lastBackgroundAt < this.backgroundIntervalMs ||
+      this.budgetLeft(backgroundReserve) < 1
+    ) {
+      throw new DroppedRequestError();
+    }
+
+    this.backgroundActive = true;
+    this.lastBackgroundAt = now;
+    try {
+      const result = await this.execute(task);
+      // Ease towards a pace the backend keeps up with
+      const target = Math.max(minBackgroundIntervalMs, (this.lastLatencyMs ?? 0) * latencyFactor);
+      this.backgroundIntervalMs += (target - this.backgroundIntervalMs) * 0.3;
+      return result;
+    } finally {
+      this.backgroundActive = false;
+      this.refresh();
+    }
+  }
+}
+
+// The provider with shape requests as user calls and gesture frames as background calls
+export const scheduleProvider = (provider: AIProvider, scheduler: RequestScheduler): AIProvider => ({
+  ...provider,
+  requestShapeDocument: (prompt) => scheduler.run(() => provider.requestShapeDocument(prompt)),
+  requestShapeChunk: (prompt, chunk, chunks, pointCount) =>
+    scheduler.run(() => provider.requestShapeChunk(prompt, chunk, chunks, pointCount)),
+  classifyGesture: (frame) => scheduler.runIfIdle(() => provider.classifyGesture(frame)),
+});
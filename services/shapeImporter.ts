@@ -0,0 +1,246 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { Point3D, ShapeDefinition } from '../types';
+import { Color3, MeshPart, normalizePoints, sampleMesh, TextureSampler } from '../utils/meshSampling';
+import { shufflePoints } from '../utils/math';
+import { RandomFn } from '../utils/random';
+import { RasterImage, sampleImage } from '../utils/imageSampling';
+
+export const MODEL_EXTENSIONS = ['obj', 'ply', 'stl', 'gltf', 'glb'];
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'svg', 'webp'];
+export const IMPORT_EXTENSIONS = [...MODEL_EXTENSIONS, ...IMAGE_EXTENSIONS];
+
+export interface ImportOptions {
+  count: number;
+  volumeFraction?: number; // Models: 0 = surface only
+  depth?: number; // Images: extrusion as a fraction of the longer side
+  bevel?: number; // Images: rounded rim width as a fraction of the longer side
+  random?: RandomFn; // Defaults to Math.random; pass a seeded one for the same cloud on every import
+}
+
+// Longest side images are rasterized at before sampling
+const IMAGE_RESOLUTION = 512;
+
+export class ShapeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeImportError';
+  }
+}
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Decode a texture image once and sample it by UV (nearest texel, repeat wrapping)
+const createTextureSampler = (texture: THREE.Texture): TextureSampler | undefined => {
+  const image = texture.image as CanvasImageSource & { width: number; height: number } | undefined;
+  if (!image || !image.width || !image.height) return undefined;
+
+  const scale = Math.min(1, 1024 / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.drawImage(image, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  return (u, v) => {
+    const fu = u - Math.floor(u);
+    const fv = v - Math.floor(v);
+    const x = Math.min(width - 1, Math.floor(fu * width));
+    const y = Math.min(height - 1, Math.floor((texture.flipY ? 1 - fv : fv) * height));
+    const i = (y * width + x) * 4;
+    return [data[i] / 255, data[i + 1] / 255, data[i + 2] / 255];
+  };
+};
+
+// Flatten a geometry (world transform applied) into a triangle soup
+const geometryToPart = (source: THREE.BufferGeometry, matrix?: THREE.Matrix4, material?: THREE.Material): MeshPart => {
+  let geometry = source.clone();
+  if (matrix) geometry.applyMatrix4(matrix);
+  if (geometry.index) geometry = geometry.toNonIndexed();
+
+  const position = geometry.getAttribute('position');
+  const positions = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    positions[i * 3] = position.getX(i);
+    positions[i * 3 + 1] = position.getY(i);
+    positions[i * 3 + 2] = position.getZ(i);
+  }
+
+  const part: MeshPart = { positions };
+
+  const color = geometry.getAttribute('color');
+  if (color) {
+    part.colors = new Float32Array(color.count * 3);
+    for (let i = 0; i < color.count; i++) {
+      part.colors[i * 3] = color.getX(i);
+      part.colors[i * 3 + 1] = color.getY(i);
+      part.colors[i * 3 + 2] = color.getZ(i);
+    }
+  }
+
+  const uv = geometry.getAttribute('uv');
+  const mat = material as (THREE.MeshStandardMaterial & THREE.MeshPhongMaterial) | undefined;
+  if (uv && mat?.map) {
+    part.uvs = new Float32Array(uv.count * 2);
+    for (let i = 0; i < uv.count; i++) {
+      part.uvs[i * 2] = uv.getX(i);
+      part.uvs[i * 2 + 1] = uv.getY(i);
+    }
+    part.texture = createTextureSampler(mat.map);
+  }
+
+  // White is the default material color; only tint when the model says otherwise
+  if (mat?.color && mat.color.getHex() !== 0xffffff) {
+    part.baseColor = [mat.color.r, mat.color.g, mat.color.b];
+  }
+
+  geometry.dispose();
+  return part;
+};
+
+const sceneToParts = (root: THREE.Object3D): MeshPart[] => {
+  const parts: MeshPart[] = [];
+  root.updateMatrixWorld(true);
+  root.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+    parts.push(geometryToPart(mesh.geometry, mesh.matrixWorld, material));
+  });
+  return parts;
+};
+
+// Point clouds have no surface; resample their vertices instead
+const pointCloudFromGeometry = (geometry: THREE.BufferGeometry, count: number, random: RandomFn): Point3D[] => {
+  const position = geometry.getAttribute('position');
+  const color = geometry.getAttribute('color');
+  const points: Point3D[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = Math.floor(random() * position.count);
+    const c: Color3 | undefined = color ? [color.getX(v), color.getY(v), color.getZ(v)] : undefined;
+    points.push({ x: position.getX(v), y: position.getY(v), z: position.getZ(v), color: c });
+  }
+  return points;
+};
+
+const loadMeshParts = async (file: File): Promise<MeshPart[]> => {
+  const ext = extensionOf(file.name);
+
+  if (ext === 'obj') {
+    return sceneToParts(new OBJLoader().parse(await file.text()));
+  }
+  if (ext === 'stl') {
+    return [geometryToPart(new STLLoader().parse(await file.arrayBuffer()))];
+  }
+  if (ext === 'gltf' || ext === 'glb') {
+    const data = ext === 'glb' ? await file.arrayBuffer() : await file.text();
+    try {
+      const gltf = await new GLTFLoader().parseAsync(data, '');
+      return sceneToParts(gltf.scene);
+    } catch (e) {
+      throw new ShapeImportError("Couldn't read the glTF file. External buffers and textures aren't supported, try a .glb.");
+    }
+  }
+
+  throw new ShapeImportError(`Unsupported file type ".${ext}"`);
+};
+
+// Turn a dropped 3D model into a particle shape with exactly `count` points
+export const importModelFile = async (file: File, options: ImportOptions): Promise<ShapeDefinition> => {
+  const ext = extensionOf(file.name);
+  const random = options.random ?? Math.random;
+  const sampleOptions = { volumeFraction: options.volumeFraction, random };
+  let points: Point3D[];
+
+  if (ext === 'ply') {
+    // PLY files are either meshes (indexed faces) or bare point clouds
+    const geometry = new PLYLoader().parse(await file.arrayBuffer());
+    points = geometry.index
+      ? sampleMesh([geometryToPart(geometry)], options.count, sampleOptions)
+      : pointCloudFromGeometry(geometry, options.count, random);
+  } else {
+    points = sampleMesh(await loadMeshParts(file), options.count, sampleOptions);
+  }
+
+  if (points.length === 0) throw new ShapeImportError("The model has no surfaces to sample.");
+
+  return {
+    id: `model-${Date.now()}`,
+    name: baseName(file.name),
+    points: shufflePoints(normalizePoints(points), random),
+    color: '#ffffff',
+    description: "Imported model",
+  };
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ShapeImportError("Couldn't decode the image."));
+    image.src = url;
+  });
+
+// Draw the image into a canvas no larger than IMAGE_RESOLUTION. SVGs are vector, so they
+// are always scaled up to the full resolution; raster images are only ever scaled down.
+const rasterizeImage = async (file: File): Promise<RasterImage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const isVector = extensionOf(file.name) === 'svg';
+    // SVGs without width/height attributes report no natural size
+    const naturalWidth = image.naturalWidth || IMAGE_RESOLUTION;
+    const naturalHeight = image.naturalHeight || IMAGE_RESOLUTION;
+    const fit = IMAGE_RESOLUTION / Math.max(naturalWidth, naturalHeight);
+    const scale = isVector ? fit : Math.min(1, fit);
+    const width = Math.max(1, Math.round(naturalWidth * scale));
+    const height = Math.max(1, Math.round(naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new ShapeImportError("Canvas is not available.");
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Turn a logo or photo into a particle shape with exactly `count` points
+export const importImageFile = async (file: File, options: ImportOptions): Promise<ShapeDefinition> => {
+  const random = options.random ?? Math.random;
+  const points = sampleImage(await rasterizeImage(file), options.count, {
+    depth: options.depth,
+    bevel: options.bevel,
+    random,
+  });
+
+  if (points.length === 0) throw new ShapeImportError("The image is empty or fully transparent.");
+
+  return {
+    id: `image-${Date.now()}`,
+    name: baseName(file.name),
+    points: shufflePoints(normalizePoints(points), random),
+    color: '#ffffff',
+    description: "Imported image",
+  };
+};
+
+// Pick the importer from the file extension
+export const importShapeFile = (file: File, options: ImportOptions): Promise<ShapeDefinition> => {
+  const ext = extensionOf(file.name);
+  if (IMAGE_EXTENSIONS.includes(ext)) return importImageFile(file, options);
+  if (MODEL_EXTENSIONS.includes(ext)) return importModelFile(file, options);
+  return Promise.reject(new ShapeImportError(`Unsupported file type ".${ext}"`));
+};
@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { Point3D } from '../types';
+import { quantizePoints } from '../utils/pointCodec';
+import { createRandom } from '../utils/random';
+import { exportShapePack, importShapePack, LibraryShape, listShapes, ShapeLibraryError, ShapePackFormat } from './shapeLibrary';
+
+const cloud = (count: number, seed: number, colored: boolean): Point3D[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => ({
+    x: random() * 3 - 1.5,
+    y: random() * 3 - 1.5,
+    z: random() - 0.5,
+    color: colored ? [random(), random(), random()] : undefined,
+  }));
+};
+
+const entry = (name: string, points: Point3D[]): LibraryShape => ({
+  id: `local-${name}`,
+  name,
+  prompt: `a ${name}`,
+  createdAt: 1700000000000,
+  pinned: true,
+  thumbnail: 'data:image/png;base64,',
+  color: '#ff0000',
+  description: `The ${name}`,
+  points: quantizePoints(points),
+});
+
+const ENTRIES = [entry('star', cloud(300, 1, true)), entry('bell', cloud(200, 2, false))];
+
+const packFile = async (blob: Blob, edit?: (bytes: Uint8Array) => Uint8Array) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return new File([edit ? edit(bytes) : bytes], 'pack');
+};
+
+const editJson = (edit: (pack: { version: number; shapes: Record<string, unknown>[] }) => void) => (bytes: Uint8Array) => {
+  const pack = JSON.parse(new TextDecoder().decode(bytes));
+  edit(pack);
+  return new TextEncoder().encode(JSON.stringify(pack));
+};
+
+const expectRejected = async (file: File, message: RegExp) => {
+  const before = (await listShapes()).length;
+  const error = await importShapePack(file).catch((e) => e);
+  expect(error).toBeInstanceOf(ShapeLibraryError);
+  expect(error.message).toMatch(message);
+  expect(await listShapes()).toHaveLength(before);
+};
+
+describe.each<ShapePackFormat>(['json', 'binary'])('%s shape packs', (format) => {
+  it('round-trip every shape into the library', async () => {
+    const before = (await listShapes()).length;
+    const imported = await importShapePack(await packFile(exportShapePack(ENTRIES, format)));
+
+    expect(imported).toHaveLength(ENTRIES.length);
+    imported.forEach((shape, i) => {
+      const { id, pinned, ...rest } = ENTRIES[i];
+      expect(shape).toMatchObject(rest);
+      expect(shape.id).not.toBe(id); // Fresh ids, so local shapes are never overwritten
+      expect(shape.pinned).toBe(false);
+    });
+    expect(await listShapes()).toHaveLength(before + ENTRIES.length);
+  });
+
+  it('rejects a truncated file without adding anything', async () => {
+    const file = await packFile(exportShapePack(ENTRIES, format), (bytes) => bytes.slice(0, bytes.length - 50));
+    await expectRejected(file, format === 'json' ? /valid JSON/ : /truncated/);
+  });
+});
+
+describe('importShapePack', () => {
+  it('rejects packs from a newer version', async () => {
+    const newer = 'newer than this app supports';
+    await expectRejected(
+      await packFile(exportShapePack(ENTRIES, 'json'), editJson((pack) => (pack.version = 2))),
+      new RegExp(newer)
+    );
+    await expectRejected(
+      await packFile(exportShapePack(ENTRIES, 'binary'), (bytes) => {
+        new DataView(bytes.buffer).setUint16(4, 2, true);
+        return bytes;
+      }),
+      new RegExp(newer)
+    );
+  });
+
+  it('rejects damaged headers and point data', async () => {
+    const json = exportShapePack(ENTRIES, 'json');
+    await expectRejected(await packFile(json, editJson((pack) => delete pack.shapes[1].count)), /Shape 2 .* damaged/);
+    await expectRejected(await packFile(json, editJson((pack) => (pack.shapes[0].min = [0, 0]))), /Shape 1 .* damaged/);
+    await expectRejected(await packFile(json, editJson((pack) => (pack.shapes[0].positions = 42))), /damaged point data/);
+    await expectRejected(await packFile(json, editJson((pack) => (pack.shapes[0].colors = '%%%'))), /damaged point data/);
+
+    // Binary header without a count: same length, so only the field check can catch it
+    const binary = await packFile(exportShapePack(ENTRIES, 'binary'), (bytes) => {
+      const at = new TextDecoder('latin1').decode(bytes).indexOf('"count"');
+      bytes[at + 5] = '_'.charCodeAt(0);
+      return bytes;
+    });
+    await expectRejected(binary, /Shape 1 .* damaged/);
+  });
+
+  it('rejects files that are not shape packs', async () => {
+    await expectRejected(new File(['{"hello":"world"}'], 'pack'), /isn't a shape pack/);
+  });
+});
@@ -0,0 +1,377 @@
+import { ShapeDefinition } from '../types';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToPositions,
+  dequantizePoints,
+  positionsToBytes,
+  QuantizedPoints,
+  quantizePoints,
+} from '../utils/pointCodec';
+
+// A saved shape as stored in IndexedDB
+export interface LibraryShape {
+  id: string;
+  name: string;
+  prompt?: string; // What was asked of Gemini, if it came from there
+  createdAt: number;
+  pinned: boolean; // Shown in the carousel next to the built-ins
+  thumbnail: string; // PNG data URL
+  color?: string;
+  description: string;
+  points: QuantizedPoints;
+}
+
+export type ShapePackFormat = 'json' | 'binary';
+
+export class ShapeLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeLibraryError';
+  }
+}
+
+const DB_NAME = 'holiday-hand-magic';
+const DB_VERSION = 1;
+const STORE = 'shapes';
+
+// Shape packs: "HHMP" + version for the binary flavour, a format tag for JSON
+export const SHAPE_PACK_VERSION = 1;
+const PACK_FORMAT = 'holiday-hand-magic/shape-pack';
+const PACK_MAGIC = 'HHMP';
+export const SHAPE_PACK_EXTENSIONS = ['json', 'hhmp'];
+
+const THUMBNAIL_SIZE = 96;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new ShapeLibraryError("This browser can't store shapes."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new ShapeLibraryError(request.error?.message ?? "Couldn't open the shape library."));
+    });
+    // Allow a retry after a failure, e.g. a blocked upgrade
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new ShapeLibraryError(request.error?.message ?? "Shape library request failed."));
+  });
+};
+
+// Several writes that land together or not at all
+const putAll = async (entries: LibraryShape[]) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    for (const entry of entries) store.put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () =>
+      reject(new ShapeLibraryError(transaction.error?.message ?? "Couldn't add the shapes to the library."));
+  });
+};
+
+const createId = () => `shape-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Front view of the cloud, points drawn additively on a dark square
+const renderThumbnail = (shape: ShapeDefinition): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = '#050510';
+  ctx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.globalAlpha = 0.6;
+
+  const half = THUMBNAIL_SIZE / 2;
+  const scale = (THUMBNAIL_SIZE * 0.45) / 1.5;
+  const step = Math.max(1, Math.floor(shape.points.length / 3000));
+  for (let i = 0; i < shape.points.length; i += step) {
+    const p = shape.points[i];
+    ctx.fillStyle = p.color
+      ? `rgb(${Math.round(p.color[0] * 255)}, ${Math.round(p.color[1] * 255)}, ${Math.round(p.color[2] * 255)})`
+      : shape.color ?? '#ffdd00';
+    ctx.fillRect(half + p.x * scale, half - p.y * scale, 1, 1);
+  }
+  return canvas.toDataURL('image/png');
+};
+
+export const listShapes = async (): Promise<LibraryShape[]> => {
+  const shapes = await run<LibraryShape[]>('readonly', store => store.getAll());
+  return shapes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const putShape = async (entry: LibraryShape) => {
+  await run('readwrite', store => store.put(entry));
+  return entry;
+};
+
+// Library record for a shape, not yet stored
+export const createLibraryEntry = (shape: ShapeDefinition, prompt?: string): LibraryShape => ({
+  id: createId(),
+  name: shape.name,
+  prompt,
+  createdAt: Date.now(),
+  pinned: false,
+  thumbnail: renderThumbnail(shape),
+  color: shape.color,
+  description: shape.description,
+  points: quantizePoints(shape.points),
+});
+
+export const saveShape = (shape: ShapeDefinition, prompt?: string): Promise<LibraryShape> =>
+  putShape(createLibraryEntry(shape, prompt));
+
+const updateShape = async (id: string, changes: Partial<Pick<LibraryShape, 'name' | 'pinned'>>) => {
+  const entry = await run<LibraryShape | undefined>('readonly', store => store.get(id));
+  if (!entry) throw new ShapeLibraryError("That shape is no longer in the library.");
+  return putShape({ ...entry, ...changes });
+};
+
+export const renameShape = (id: string, name: string) => updateShape(id, { name });
+
+export const setShapePinned = (id: string, pinned: boolean) => updateShape(id, { pinned });
+
+export const deleteShape = async (id: string) => {
+  await run('readwrite', store => store.delete(id));
+};
+
+// Decoded points are cached per stored entry; entries are replaced, never mutated
+const definitionCache = new WeakMap<LibraryShape, ShapeDefinition>();
+
+export const toShapeDefinition = (entry: LibraryShape): ShapeDefinition => {
+  let shape = definitionCache.get(entry);
+  if (!shape) {
+    shape = {
+      id: entry.id,
+      name: entry.name,
+      points: dequantizePoints(entry.points),
+      color: entry.color,
+      description: entry.description,
+    };
+    definitionCache.set(entry, shape);
+  }
+  return shape;
+};
+
+// --- Shape packs ---
+
+// Everything but the point data, shared by both pack flavours
+interface PackedShapeHeader {
+  name: string;
+  prompt?: string;
+  createdAt: number;
+  thumbnail: string;
+  color?: string;
+  description: string;
+  count: number;
+  min: [number, number, number];
+  max: [number, number, number];
+  hasColors: boolean;
+}
+
+interface JsonShapePack {
+  format: string;
+  version: number;
+  shapes: (PackedShapeHeader & { positions: string; colors?: string })[];
+}
+
+const headerOf = (entry: LibraryShape): PackedShapeHeader => ({
+  name: entry.name,
+  prompt: entry.prompt,
+  createdAt: entry.createdAt,
+  thumbnail: entry.thumbnail,
+  color: entry.color,
+  description: entry.description,
+  count: entry.points.count,
+  min: entry.points.min,
+  max: entry.points.max,
+  hasColors: entry.points.colors !== null,
+});
+
+const isVector = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && isFinite(v));
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Check a header read from a pack; `index` is the shape's position in the pack, for the message
+const readHeader = (raw: unknown, index: number): PackedShapeHeader => {
+  const header = (raw ?? {}) as Record<string, unknown>;
+  const valid =
+    typeof raw === 'object' &&
+    typeof header.name === 'string' &&
+    typeof header.createdAt === 'number' &&
+    typeof header.thumbnail === 'string' &&
+    typeof header.description === 'string' &&
+    isOptionalString(header.prompt) &&
+    isOptionalString(header.color) &&
+    Number.isInteger(header.count) &&
+    (header.count as number) >= 0 &&
+    isVector(header.min) &&
+    isVector(header.max) &&
+    typeof header.hasColors === 'boolean';
+  if (!valid) throw new ShapeLibraryError(`Shape ${index + 1} in the pack is damaged.`);
+  return raw as PackedShapeHeader;
+};
+
+// Imported shapes get fresh ids so a pack never overwrites local shapes
+const entryFrom = (header: PackedShapeHeader, positions: Uint16Array, colors: Uint8Array | null): LibraryShape => {
+  if (positions.length !== header.count * 3 || (colors && colors.length !== header.count * 3)) {
+    throw new ShapeLibraryError(`Shape "${header.name}" is truncated.`);
+  }
+  return {
+    id: createId(),
+    name: header.name,
+    prompt: header.prompt,
+    createdAt: header.createdAt,
+    pinned: false,
+    thumbnail: header.thumbnail,
+    color: header.color,
+    description: header.description,
+    points: { count: header.count, min: header.min, max: header.max, positions, colors },
+  };
+};
+
+const encodeJsonPack = (entries: LibraryShape[]): Blob => {
+  const pack: JsonShapePack = {
+    format: PACK_FORMAT,
+    version: SHAPE_PACK_VERSION,
+    shapes: entries.map(entry => ({
+      ...headerOf(entry),
+      positions: bytesToBase64(positionsToBytes(entry.points.positions)),
+      colors: entry.points.colors ? bytesToBase64(entry.points.colors) : undefined,
+    })),
+  };
+  return new Blob([JSON.stringify(pack)], { type: 'application/json' });
+};
+
+// Binary layout (little-endian):
+//   "HHMP" | u16 version | u32 shape count
+//   per shape: u32 header length | UTF-8 JSON header | u16 positions[count*3] | u8 colors[count*3] if hasColors
+const encodeBinaryPack = (entries: LibraryShape[]): Blob => {
+  const encoder = new TextEncoder();
+  const prefix = new Uint8Array(10);
+  const view = new DataView(prefix.buffer);
+  prefix.set(encoder.encode(PACK_MAGIC), 0);
+  view.setUint16(4, SHAPE_PACK_VERSION, true);
+  view.setUint32(6, entries.length, true);
+
+  const parts: BlobPart[] = [prefix];
+  for (const entry of entries) {
+    const header = encoder.encode(JSON.stringify(headerOf(entry)));
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, header.length, true);
+    parts.push(length, header, positionsToBytes(entry.points.positions));
+    if (entry.points.colors) parts.push(entry.points.colors);
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
+
+export const exportShapePack = (entries: LibraryShape[], format: ShapePackFormat): Blob =>
+  format === 'json' ? encodeJsonPack(entries) : encodeBinaryPack(entries);
+
+const decodeJsonPack = (text: string): LibraryShape[] => {
+  let pack: JsonShapePack;
+  try {
+    pack = JSON.parse(text);
+  } catch (e) {
+    throw new ShapeLibraryError("The shape pack isn't valid JSON.");
+  }
+  if (pack?.format !== PACK_FORMAT || !Array.isArray(pack.shapes)) {
+    throw new ShapeLibraryError("That file isn't a shape pack.");
+  }
+  if (pack.version > SHAPE_PACK_VERSION) {
+    throw new ShapeLibraryError(`Shape pack version ${pack.version} is newer than this app supports.`);
+  }
+  return pack.shapes.map((shape, index) => {
+    const header = readHeader(shape, index);
+    const bytes = (data: unknown) => {
+      try {
+        if (typeof data === 'string') return base64ToBytes(data);
+      } catch (e) {
+        // Not base64; reported below
+      }
+      throw new ShapeLibraryError(`Shape "${header.name}" has damaged point data.`);
+    };
+    return entryFrom(
+      header,
+      bytesToPositions(bytes(shape.positions)),
+      header.hasColors ? bytes(shape.colors) : null
+    );
+  });
+};
+
+const decodeBinaryPack = (buffer: ArrayBuffer): LibraryShape[] => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const truncated = () => new ShapeLibraryError("The shape pack is truncated.");
+
+  if (bytes.length < 10 || decoder.decode(bytes.subarray(0, 4)) !== PACK_MAGIC) {
+    throw new ShapeLibraryError("That file isn't a shape pack.");
+  }
+  const version = view.getUint16(4, true);
+  if (version > SHAPE_PACK_VERSION) {
+    throw new ShapeLibraryError(`Shape pack version ${version} is newer than this app supports.`);
+  }
+
+  const shapes: LibraryShape[] = [];
+  const total = view.getUint32(6, true);
+  let offset = 10;
+  for (let s = 0; s < total; s++) {
+    if (offset + 4 > bytes.length) throw truncated();
+    const headerLength = view.getUint32(offset, true);
+    offset += 4;
+    if (offset + headerLength > bytes.length) throw truncated();
+    let raw: unknown;
+    try {
+      raw = JSON.parse(decoder.decode(bytes.subarray(offset, offset + headerLength)));
+    } catch (e) {
+      throw new ShapeLibraryError(`Shape ${s + 1} in the pack is damaged.`);
+    }
+    const header = readHeader(raw, s);
+    offset += headerLength;
+
+    const positionBytes = header.count * 3 * 2;
+    const colorBytes = header.hasColors ? header.count * 3 : 0;
+    if (offset + positionBytes + colorBytes > bytes.length) throw truncated();
+    const positions = bytesToPositions(bytes.subarray(offset, offset + positionBytes));
+    offset += positionBytes;
+    const colors = header.hasColors ? bytes.slice(offset, offset + colorBytes) : null;
+    offset += colorBytes;
+
+    shapes.push(entryFrom(header, positions, colors));
+  }
+  return shapes;
+};
+
+// Read a pack (either flavour, sniffed from the content) and add its shapes to the library.
+// Either every shape is added or, on failure, none.
+export const importShapePack = async (file: File): Promise<LibraryShape[]> => {
+  const buffer = await file.arrayBuffer();
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+  const entries = magic === PACK_MAGIC ? decodeBinaryPack(buffer) : decodeJsonPack(new TextDecoder().decode(buffer));
+  await putAll(entries);
+  return entries;
+};
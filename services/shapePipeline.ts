@@ -0,0 +1,228 @@
+import { AIProvider, Point3D } from "../types";
+import { AIProviderError, RawShapePoint } from "./aiProvider";
+import { normalizePoints, SHAPE_HALF_EXTENT } from "../utils/meshSampling";
+import { shufflePoints } from "../utils/math";
+import { parseShapeDocument, ShapeDslError } from "../dsl/parse";
+import { sampleShape } from "../dsl/sampler";
+
+export type ShapeGenerationErrorCode =
+  | 'missing-key' // The provider has no API key or endpoint configured
+  | 'rate-limited' // Still 429 after all retries
+  | 'rejected' // The API refused the request (bad key, blocked prompt, ...)
+  | 'network' // Could not reach the API
+  | 'invalid-response' // Reply did not match the schema
+  | 'empty'; // Too few usable points after repair
+
+export class ShapeGenerationError extends Error {
+  readonly code: ShapeGenerationErrorCode;
+
+  constructor(code: ShapeGenerationErrorCode, message: string) {
+    super(message);
+    this.name = 'ShapeGenerationError';
+    this.code = code;
+  }
+}
+
+// 'dsl': one small shape document, sampled locally, with raw points as the fallback.
+// 'points': raw points only.
+export type ShapeGenerationFormat = 'dsl' | 'points';
+
+export interface ShapeGenerationOptions {
+  format?: ShapeGenerationFormat; // Default 'dsl'
+  onProgress?: (done: number, total: number) => void; // Chunks finished so far, when asking for raw points
+}
+
+// The model stays accurate for a few hundred points per reply; more come from resampling
+const CHUNK_POINTS = 300;
+const MAX_CHUNKS = 4;
+const MIN_VALID_POINTS = 24;
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 20000;
+
+const CACHE_SIZE = 20;
+
+// Finished shapes by prompt and count; a Map iterates in insertion order, so it doubles as an LRU
+const cache = new Map<string, Point3D[]>();
+
+const cacheKey = (provider: AIProvider, prompt: string, count: number, format: ShapeGenerationFormat) =>
+  `${provider.id}|${prompt.trim().toLowerCase()}|${count}|${format}`;
+
+export const isShapeCached = (provider: AIProvider, prompt: string, count: number, format: ShapeGenerationFormat = 'dsl') =>
+  cache.has(cacheKey(provider, prompt, count, format));
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const toGenerationError = (error: unknown, provider: AIProvider): ShapeGenerationError => {
+  if (error instanceof ShapeGenerationError) return error;
+  const name = provider.label;
+  if (error instanceof AIProviderError) {
+    if (error.status === 429) return new ShapeGenerationError('rate-limited', `${name} is busy, try again in a minute.`);
+    if (error.status >= 500) return new ShapeGenerationError('network', `${name} is unavailable right now.`);
+    return new ShapeGenerationError('rejected', `${name} refused the request (${error.status}).`);
+  }
+  if (error instanceof SyntaxError) return new ShapeGenerationError('invalid-response', `${name} sent back a malformed shape.`);
+  return new ShapeGenerationError('network', `Couldn't reach ${name}.`);
+};
+
+const isRetryable = (error: unknown) => error instanceof AIProviderError && (error.status === 429 || error.status >= 500);
+
+// Exponential backoff with jitter, or the server's own hint when it gives one
+const withRetry = async <T>(provider: AIProvider, task: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= MAX_RETRIES) throw toGenerationError(error, provider);
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      await sleep((error as AIProviderError).retryAfterMs ?? backoff);
+    }
+  }
+};
+
+// --- Validation and repair ---
+
+const clamp01 = (v: unknown) => (typeof v === 'number' && isFinite(v) ? Math.min(1, Math.max(0, v)) : undefined);
+
+// Keep only well-formed points; colors are clamped, or dropped when incomplete
+export const sanitizeRawPoints = (raw: unknown): Point3D[] => {
+  const list = (raw as { points?: unknown })?.points;
+  if (!Array.isArray(list)) throw new ShapeGenerationError('invalid-response', "The AI sent back a malformed shape.");
+
+  const points: Point3D[] = [];
+  for (const item of list as Partial<RawShapePoint>[]) {
+    if (!item || typeof item !== 'object') continue;
+    const { x, y, z } = item;
+    if (![x, y, z].every(v => typeof v === 'number' && isFinite(v))) continue;
+    const r = clamp01(item.r), g = clamp01(item.g), b = clamp01(item.b);
+    points.push({
+      x: x as number,
+      y: y as number,
+      z: z as number,
+      color: r !== undefined && g !== undefined && b !== undefined ? [r, g, b] : undefined,
+    });
+  }
+  return points;
+};
+
+// Merge exact and near-exact repeats; models like to emit the same point many times
+export const dedupePoints = (points: Point3D[], cell = 0.005): Point3D[] => {
+  const seen = new Set<string>();
+  return points.filter(p => {
+    const key = `${Math.round(p.x / cell)},${Math.round(p.y / cell)},${Math.round(p.z / cell)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Fit into the shared box: rescale when the model overshoots, then clamp stragglers
+export const fitToShapeBox = (points: Point3D[]): Point3D[] => {
+  const outside = points.some(p => Math.max(Math.abs(p.x), Math.abs(p.y), Math.abs(p.z)) > SHAPE_HALF_EXTENT);
+  const fitted = outside ? normalizePoints(points) : points;
+  const c = (v: number) => Math.min(SHAPE_HALF_EXTENT, Math.max(-SHAPE_HALF_EXTENT, v));
+  return fitted.map(p => ({ ...p, x: c(p.x), y: c(p.y), z: c(p.z) }));
+};
+
+// Exactly `count` points: a random subset, or new points jittered around existing ones.
+// The jitter scales with the average spacing so sparse replies fill in instead of clumping.
+export const resamplePoints = (points: Point3D[], count: number, random: () => number = Math.random): Point3D[] => {
+  if (points.length === 0) return [];
+  if (points.length >= count) return shufflePoints(points, random).slice(0, count);
+
+  const spacing = (2 * SHAPE_HALF_EXTENT) / Math.cbrt(points.length);
+  const jitter = spacing * 0.3;
+  const result = points.slice();
+  while (result.length < count) {
+    const p = points[Math.floor(random() * points.length)];
+    result.push({
+      ...p,
+      x: p.x + (random() - 0.5) * jitter,
+      y: p.y + (random() - 0.5) * jitter,
+      z: p.z + (random() - 0.5) * jitter,
+    });
+  }
+  return shufflePoints(result, random);
+};
+
+// The whole shape as one DSL document, sampled here
+const generateFromDocument = async (provider: AIProvider, prompt: string, count: number): Promise<Point3D[]> => {
+  const raw = await withRetry(provider, () => provider.requestShapeDocument(prompt));
+  try {
+    return sampleShape(parseShapeDocument(raw), count);
+  } catch (error) {
+    if (error instanceof ShapeDslError) {
+      throw new ShapeGenerationError('invalid-response', `${provider.label} sent back a malformed shape (${error.message}).`);
+    }
+    throw error;
+  }
+};
+
+// Raw points, requested in chunks one after another (gentler on the rate limit);
+// chunks that fail are skipped as long as one succeeds
+const generateFromPoints = async (
+  provider: AIProvider,
+  prompt: string,
+  count: number,
+  options: ShapeGenerationOptions
+) => {
+  const chunks = Math.min(MAX_CHUNKS, Math.max(1, Math.ceil(count / CHUNK_POINTS)));
+  const pointsPerChunk = Math.ceil(Math.min(count, CHUNK_POINTS * MAX_CHUNKS) / chunks);
+  const merged: Point3D[] = [];
+  let lastError: ShapeGenerationError | null = null;
+
+  for (let chunk = 0; chunk < chunks; chunk++) {
+    try {
+      const raw = await withRetry(provider, () => provider.requestShapeChunk(prompt, chunk, chunks, pointsPerChunk));
+      merged.push(...sanitizeRawPoints(raw));
+    } catch (error) {
+      lastError = toGenerationError(error, provider);
+      // Out of quota: the remaining chunks would fail the same way
+      if (lastError.code === 'rate-limited' || lastError.code === 'rejected') break;
+    }
+    options.onProgress?.(chunk + 1, chunks);
+  }
+
+  const repaired = dedupePoints(merged);
+  if (repaired.length < MIN_VALID_POINTS) {
+    throw lastError ?? new ShapeGenerationError('empty', `${provider.label} couldn't picture that shape.`);
+  }
+  return repaired;
+};
+
+// Prompt -> exactly `count` validated points
+export const generateShape = async (
+  provider: AIProvider,
+  prompt: string,
+  count: number,
+  options: ShapeGenerationOptions = {}
+): Promise<Point3D[]> => {
+  if (!provider.isConfigured()) throw new ShapeGenerationError('missing-key', `${provider.label} is not set up (no key or endpoint).`);
+
+  const format = options.format ?? 'dsl';
+  const key = cacheKey(provider, prompt, count, format);
+  const cached = cache.get(key);
+  if (cached) {
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  let generated: Point3D[] = [];
+  if (format === 'dsl') {
+    try {
+      generated = await generateFromDocument(provider, prompt, count);
+    } catch (error) {
+      // A document that doesn't validate gets a second chance as raw points
+      const generationError = toGenerationError(error, provider);
+      if (generationError.code !== 'invalid-response') throw generationError;
+    }
+  }
+  if (generated.length < MIN_VALID_POINTS) generated = await generateFromPoints(provider, prompt, count, options);
+
+  const points = resamplePoints(fitToShapeBox(generated), count);
+  cache.set(key, points);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  return points;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode } from '../types';
+import { createShareLink, readShareLink } from './shareLink';
+
+const link = (physics: object) =>
+  `#${new URLSearchParams({ v: '1', shape: 'tree', mode: 'FORM', seed: '3', physics: JSON.stringify(physics) })}`;
+
+describe('readShareLink', () => {
+  it('clamps physics to the panel ranges', async () => {
+    const scene = await readShareLink(link({ formDamping: 5, blendSeconds: -1, shimmer: 0.05 }));
+    expect(scene?.physics).toEqual({ formDamping: 0.98, blendSeconds: 0, shimmer: 0.05 });
+  });
+
+  it('drops unknown and non-numeric physics', async () => {
+    const scene = await readShareLink(link({ gravity: 3, spinSpeed: 'fast', swirlSpeed: null }));
+    expect(scene?.physics).toEqual({});
+  });
+
+  it('restores the shape hold of a blended mode', async () => {
+    const result = await createShareLink(
+      { shape: { kind: 'builtin', id: 'tree', seed: 2 }, mode: AppMode.GALAXY, hold: 0.35, palette: 'gold', physics: {}, seed: 4 },
+      'https://example.com/'
+    );
+    if (result.kind !== 'link') throw new Error('expected a link');
+    const scene = await readShareLink(new URL(result.url).hash);
+    expect(scene).toMatchObject({ mode: AppMode.GALAXY, hold: 0.35, palette: 'gold', seed: 4 });
+  });
+
+  it('reads a missing hold as none', async () => {
+    expect((await readShareLink(link({})))?.hold).toBe(0);
+  });
+});
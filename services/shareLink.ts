@@ -0,0 +1,237 @@
+import { AppMode, Point3D } from '../types';
+import { DEFAULT_SIMULATION_PARAMS, SIMULATION_PARAM_CONTROLS, SimulationParams } from '../simulation/ParticleSimulation';
+import { isPaletteId, PaletteId } from '../utils/palette';
+import {
+  bytesToPositions,
+  dequantizePoints,
+  positionsToBytes,
+  quantizePoints,
+} from '../utils/pointCodec';
+
+// Everything needed to reproduce what is on screen
+export interface SharedScene {
+  shape: { kind: 'builtin'; id: string; seed?: number } | { kind: 'cloud'; name: string; color?: string; points: Point3D[] };
+  mode: AppMode;
+  hold: number; // Share of the shape other modes keep, 0 to MAX_SHAPE_HOLD
+  palette: PaletteId;
+  physics: Partial<SimulationParams>; // Only values that differ from the defaults
+  seed: number;
+}
+
+export type ShareLinkResult =
+  | { kind: 'link'; url: string; pointCount?: number } // pointCount is set when a cloud had to be thinned out
+  | { kind: 'too-large' };
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const SHARE_VERSION = 1;
+
+// Links longer than this get cut off by chat apps and some browsers
+export const MAX_SHARE_URL_LENGTH = 16000;
+// Below this a shared cloud stops looking like its shape; download it instead
+const MIN_SHARED_POINTS = 1500;
+// Top of the app's hold slider
+export const MAX_SHAPE_HOLD = 0.9;
+
+// --- Compression (deflate-raw where the browser supports it) ---
+
+const streamBytes = async (bytes: Uint8Array, transform: GenericTransformStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const canCompress = () => typeof CompressionStream !== 'undefined';
+
+const compress = (bytes: Uint8Array) => streamBytes(bytes, new CompressionStream('deflate-raw'));
+
+const decompress = (bytes: Uint8Array) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ShareLinkError("This browser can't open compressed share links.");
+  }
+  return streamBytes(bytes, new DecompressionStream('deflate-raw'));
+};
+
+// URL-safe base64 without padding
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// --- Cloud payload ---
+// u32 count | u8 hasColors | f32 min[3] | f32 max[3] | u16 positions[count*3] | u8 colors[count*3]
+
+const CLOUD_HEADER_BYTES = 29;
+
+const encodeCloud = (points: Point3D[]) => {
+  const q = quantizePoints(points);
+  const positions = positionsToBytes(q.positions);
+  const bytes = new Uint8Array(CLOUD_HEADER_BYTES + positions.length + (q.colors?.length ?? 0));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, q.count, true);
+  view.setUint8(4, q.colors ? 1 : 0);
+  for (let k = 0; k < 3; k++) {
+    view.setFloat32(5 + k * 4, q.min[k], true);
+    view.setFloat32(17 + k * 4, q.max[k], true);
+  }
+  bytes.set(positions, CLOUD_HEADER_BYTES);
+  if (q.colors) bytes.set(q.colors, CLOUD_HEADER_BYTES + positions.length);
+  return bytes;
+};
+
+const decodeCloud = (bytes: Uint8Array): Point3D[] => {
+  if (bytes.length < CLOUD_HEADER_BYTES) throw new ShareLinkError("The shared shape is incomplete.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const count = view.getUint32(0, true);
+  const hasColors = view.getUint8(4) === 1;
+  const min: [number, number, number] = [0, 1, 2].map(k => view.getFloat32(5 + k * 4, true)) as [number, number, number];
+  const max: [number, number, number] = [0, 1, 2].map(k => view.getFloat32(17 + k * 4, true)) as [number, number, number];
+
+  const positionBytes = count * 6;
+  const colorBytes = hasColors ? count * 3 : 0;
+  if (bytes.length < CLOUD_HEADER_BYTES + positionBytes + colorBytes) {
+    throw new ShareLinkError("The shared shape is incomplete.");
+  }
+  const positions = bytesToPositions(bytes.subarray(CLOUD_HEADER_BYTES, CLOUD_HEADER_BYTES + positionBytes));
+  const colors = hasColors ? bytes.slice(CLOUD_HEADER_BYTES + positionBytes, CLOUD_HEADER_BYTES + positionBytes + colorBytes) : null;
+  return dequantizePoints({ count, min, max, positions, colors });
+};
+
+// --- Fragment ---
+
+const physicsDiff = (physics: Partial<SimulationParams>) => {
+  const diff: Partial<SimulationParams> = {};
+  for (const key of Object.keys(physics) as (keyof SimulationParams)[]) {
+    const value = physics[key];
+    if (value !== undefined && value !== DEFAULT_SIMULATION_PARAMS[key]) diff[key] = value;
+  }
+  return diff;
+};
+
+// Only known keys, clamped to the physics panel's ranges so a crafted link can't destabilize the simulation
+const sanitizePhysics = (raw: unknown): Partial<SimulationParams> => {
+  const physics: Partial<SimulationParams> = {};
+  if (!raw || typeof raw !== 'object') return physics;
+  for (const { key, min, max } of SIMULATION_PARAM_CONTROLS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'number' && isFinite(value)) physics[key] = Math.min(max, Math.max(min, value));
+  }
+  return physics;
+};
+
+const sceneParams = async (scene: SharedScene, cloudPoints: Point3D[] | null) => {
+  const params = new URLSearchParams();
+  params.set('v', String(SHARE_VERSION));
+  if (scene.shape.kind === 'builtin') {
+    params.set('shape', scene.shape.id);
+    if (scene.shape.seed !== undefined) params.set('shapeSeed', String(scene.shape.seed));
+  } else {
+    params.set('name', scene.shape.name);
+    if (scene.shape.color) params.set('color', scene.shape.color);
+    const raw = encodeCloud(cloudPoints ?? scene.shape.points);
+    // "z" marks a compressed cloud, "c" a plain one
+    if (canCompress()) params.set('z', toBase64Url(await compress(raw)));
+    else params.set('c', toBase64Url(raw));
+  }
+  params.set('mode', scene.mode);
+  if (scene.hold > 0) params.set('hold', String(scene.hold));
+  params.set('palette', scene.palette);
+  params.set('seed', String(scene.seed));
+  const physics = physicsDiff(scene.physics);
+  if (Object.keys(physics).length > 0) params.set('physics', JSON.stringify(physics));
+  return params;
+};
+
+// Evenly strided subset, so unshuffled clouds keep all their parts
+const thin = (points: Point3D[], count: number) =>
+  count >= points.length ? points : Array.from({ length: count }, (_, i) => points[Math.floor((i * points.length) / count)]);
+
+// Build a link that restores `scene`. Clouds that don't fit are thinned out step by step,
+// down to MIN_SHARED_POINTS; past that the caller should offer a file instead.
+export const createShareLink = async (scene: SharedScene, baseUrl: string): Promise<ShareLinkResult> => {
+  const base = baseUrl.split('#')[0];
+  const withFragment = (params: URLSearchParams) => `${base}#${params.toString()}`;
+
+  if (scene.shape.kind === 'builtin') {
+    return { kind: 'link', url: withFragment(await sceneParams(scene, null)) };
+  }
+
+  const points = scene.shape.points;
+  let count = points.length;
+  for (;;) {
+    const url = withFragment(await sceneParams(scene, thin(points, count)));
+    if (url.length <= MAX_SHARE_URL_LENGTH) {
+      return count === points.length ? { kind: 'link', url } : { kind: 'link', url, pointCount: count };
+    }
+    if (count <= MIN_SHARED_POINTS) return { kind: 'too-large' };
+    count = Math.max(MIN_SHARED_POINTS, Math.floor(count * 0.7));
+  }
+};
+
+// Parse a location hash. Returns null when the hash is not a share link at all.
+export const readShareLink = async (hash: string): Promise<SharedScene | null> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const version = params.get('v');
+  if (!version) return null;
+  if (Number(version) > SHARE_VERSION) {
+    throw new ShareLinkError("This link was made by a newer version of the app.");
+  }
+
+  let shape: SharedScene['shape'];
+  const id = params.get('shape');
+  const compressed = params.get('z');
+  const plain = params.get('c');
+  try {
+    if (id) {
+      const shapeSeed = Number(params.get('shapeSeed') ?? NaN);
+      shape = Number.isInteger(shapeSeed) && shapeSeed >= 0 ? { kind: 'builtin', id, seed: shapeSeed } : { kind: 'builtin', id };
+    } else if (compressed || plain) {
+      const bytes = compressed ? await decompress(fromBase64Url(compressed)) : fromBase64Url(plain!);
+      shape = {
+        kind: 'cloud',
+        name: params.get('name') || "Shared Shape",
+        color: params.get('color') ?? undefined,
+        points: decodeCloud(bytes),
+      };
+    } else {
+      throw new ShareLinkError("The link has no shape in it.");
+    }
+  } catch (e) {
+    if (e instanceof ShareLinkError) throw e;
+    throw new ShareLinkError("The share link is damaged.");
+  }
+
+  const rawMode = params.get('mode');
+  const mode = Object.values(AppMode).find((value) => value === rawMode) ?? AppMode.FORM;
+  // Links from before the hold was shared show the pure mode
+  const hold = Number(params.get('hold') ?? 0);
+  const palette = params.get('palette') ?? 'original';
+  const seed = Number(params.get('seed'));
+  let physics: Partial<SimulationParams> = {};
+  try {
+    physics = sanitizePhysics(JSON.parse(params.get('physics') ?? '{}'));
+  } catch (e) {
+    // Ignore broken physics; the shape is what matters
+  }
+
+  return {
+    shape,
+    mode,
+    hold: isFinite(hold) ? Math.min(MAX_SHAPE_HOLD, Math.max(0, hold)) : 0,
+    palette: isPaletteId(palette) ? palette : 'original',
+    physics,
+    seed: Number.isInteger(seed) && seed > 0 ? seed : 1,
+  };
+};
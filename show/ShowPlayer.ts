@@ -0,0 +1,209 @@
+import { ShowStep, ShowTimeline } from './types';
+
+export interface ShowPlayerConfig {
+  resumeAfterMs: number; // A gesture pauses the show for this long, then it carries on
+  tickMs: number; // How often the position is published while playing
+}
+
+export const DEFAULT_SHOW_PLAYER_CONFIG: ShowPlayerConfig = {
+  resumeAfterMs: 20000,
+  tickMs: 250,
+};
+
+const DEFAULT_TRANSITION_SECONDS = 1.5;
+
+// What the show wants on screen right now. 'scatter' keeps the previous shape blown apart,
+// 'form' shows the step's own shape. A new object means "apply this", even for the same step.
+export interface ShowCue {
+  stepIndex: number;
+  step: ShowStep;
+  phase: 'scatter' | 'form';
+}
+
+export type ShowPlayerState = 'stopped' | 'playing' | 'paused' | 'interrupted';
+
+export interface ShowPlayerStatus {
+  state: ShowPlayerState;
+  positionMs: number;
+  durationMs: number;
+  loop: boolean;
+  cue: ShowCue | null; // Null until played, and again once stopped
+  resumesAt: number | null; // Date.now() time an interrupted show picks up again
+}
+
+const scatterMs = (step: ShowStep) =>
+  step.transition === 'scatter-form' ? (step.transitionTime ?? DEFAULT_TRANSITION_SECONDS) * 1000 : 0;
+
+// Plays a timeline against the wall clock. Doesn't touch the scene itself: listeners read
+// the cue and apply it. Seeking, resuming and looping all go through the same position.
+export class ShowPlayer {
+  readonly timeline: ShowTimeline;
+  readonly config: ShowPlayerConfig;
+  readonly durationMs: number;
+  private stepStarts: number[];
+  private state: ShowPlayerState = 'stopped';
+  private loop: boolean;
+  private baseMs = 0; // Position when the clock last started or stopped
+  private startedAt = 0; // Date.now() when it started
+  private resumesAt: number | null = null;
+  private cue: ShowCue | null = null;
+  private listeners = new Set<() => void>();
+  private status: ShowPlayerStatus;
+  private tickTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(timeline: ShowTimeline, config: Partial<ShowPlayerConfig> = {}) {
+    this.timeline = timeline;
+    this.config = { ...DEFAULT_SHOW_PLAYER_CONFIG, ...config };
+    this.loop = timeline.loop ?? false;
+    this.stepStarts = [];
+    let t = 0;
+    for (const step of timeline.steps) {
+      this.stepStarts.push(t);
+      t += step.duration * 1000;
+    }
+    this.durationMs = t;
+    this.status = this.snapshot();
+  }
+
+  // --- Status (stable object between changes, for useSyncExternalStore) ---
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = () => this.status;
+
+  private snapshot(): ShowPlayerStatus {
+    return {
+      state: this.state,
+      positionMs: Math.round(this.position()),
+      durationMs: this.durationMs,
+      loop: this.loop,
+      cue: this.cue,
+      resumesAt: this.resumesAt,
+    };
+  }
+
+  private position() {
+    if (this.state !== 'playing') return this.baseMs;
+    const elapsed = this.baseMs + Date.now() - this.startedAt;
+    return this.loop ? elapsed % this.durationMs : Math.min(elapsed, this.durationMs);
+  }
+
+  private cueAt(ms: number): ShowCue {
+    let index = this.stepStarts.length - 1;
+    while (index > 0 && this.stepStarts[index] > ms) index--;
+    const step = this.timeline.steps[index];
+    const phase = ms - this.stepStarts[index] < scatterMs(step) ? 'scatter' : 'form';
+    const current = this.cue;
+    return current && current.stepIndex === index && current.phase === phase ? current : { stepIndex: index, step, phase };
+  }
+
+  // Time until the next step or phase starts
+  private untilNextCue(ms: number) {
+    const boundaries = this.timeline.steps.flatMap((step, i) => {
+      const start = this.stepStarts[i];
+      return [start, start + scatterMs(step)];
+    });
+    const next = boundaries.find(b => b > ms) ?? (this.loop ? this.durationMs : Infinity);
+    return next - ms;
+  }
+
+  private refresh() {
+    let ms = this.position();
+    if (this.state === 'playing' && !this.loop && ms >= this.durationMs) {
+      // The last shape stays up; playing again starts over
+      this.state = 'stopped';
+      this.baseMs = ms = this.durationMs;
+    }
+    if (this.state !== 'stopped') this.cue = this.cueAt(ms);
+
+    const next = this.snapshot();
+    const changed = (Object.keys(next) as (keyof ShowPlayerStatus)[]).some(k => next[k] !== this.status[k]);
+    if (changed) {
+      this.status = next;
+      this.listeners.forEach(listener => listener());
+    }
+
+    if (this.tickTimer) clearTimeout(this.tickTimer);
+    this.tickTimer = null;
+    if (this.state === 'playing') {
+      const wait = Math.min(this.config.tickMs, this.untilNextCue(ms));
+      this.tickTimer = setTimeout(() => this.refresh(), Math.max(0, wait) + 5);
+    }
+  }
+
+  private clearResume() {
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = null;
+    this.resumesAt = null;
+  }
+
+  // --- Controls ---
+
+  play() {
+    if (this.state === 'playing') return;
+    if (this.state === 'stopped' && this.baseMs >= this.durationMs) this.baseMs = 0;
+    this.clearResume();
+    this.state = 'playing';
+    this.startedAt = Date.now();
+    // Re-apply the current step, since whoever paused us may have changed the scene
+    this.cue = null;
+    this.refresh();
+  }
+
+  pause() {
+    if (this.state !== 'playing' && this.state !== 'interrupted') return;
+    this.baseMs = this.position();
+    this.clearResume();
+    this.state = 'paused';
+    this.refresh();
+  }
+
+  // Jump to a position; a stopped show shows the step there but stays stopped
+  seek(ms: number) {
+    this.baseMs = Math.min(Math.max(0, ms), this.durationMs - 1);
+    this.startedAt = Date.now();
+    this.cue = null;
+    if (this.state === 'stopped') this.state = 'paused';
+    this.refresh();
+  }
+
+  setLoop(loop: boolean) {
+    this.baseMs = this.position();
+    this.startedAt = Date.now();
+    this.loop = loop;
+    this.refresh();
+  }
+
+  stop() {
+    this.clearResume();
+    this.state = 'stopped';
+    this.baseMs = 0;
+    this.cue = null;
+    this.refresh();
+  }
+
+  // A live gesture took over: hold the show, and pick it up again once hands have been
+  // quiet for resumeAfterMs. Each further gesture restarts the wait.
+  interrupt() {
+    if (this.state !== 'playing' && this.state !== 'interrupted') return;
+    this.baseMs = this.position();
+    this.state = 'interrupted';
+    this.clearResume();
+    this.resumesAt = Date.now() + this.config.resumeAfterMs;
+    this.resumeTimer = setTimeout(() => this.play(), this.config.resumeAfterMs);
+    this.refresh();
+  }
+
+  dispose() {
+    this.clearResume();
+    if (this.tickTimer) clearTimeout(this.tickTimer);
+    this.tickTimer = null;
+    this.listeners.clear();
+  }
+}
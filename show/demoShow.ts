@@ -0,0 +1,17 @@
+import { ShowTimeline } from './types';
+
+// Played by ?show=demo, and a starting point for writing your own
+export const DEMO_SHOW: ShowTimeline = {
+  version: 1,
+  name: "Holiday Lobby",
+  loop: true,
+  steps: [
+    { shape: { type: 'builtin', id: 'tree' }, duration: 12, transition: 'scatter-form', orbitSpeed: 1 },
+    { shape: { type: 'builtin', id: 'present' }, duration: 10, transition: 'morph', palette: 'candy', orbitSpeed: -1.5 },
+    { shape: { type: 'text', text: "Happy|Holidays!" }, duration: 8, transition: 'dissolve', palette: 'gold' },
+    { shape: { type: 'builtin', id: 'snowman' }, duration: 10, transition: 'scatter-form', transitionTime: 2, palette: 'frost', orbitSpeed: 2 },
+    { shape: { type: 'builtin', id: 'wreath' }, duration: 10, transition: 'morph', orbitSpeed: 0.5 },
+    { shape: { type: 'builtin', id: 'countdown_christmas' }, duration: 15, transition: 'dissolve', palette: 'aurora' },
+    { shape: { type: 'builtin', id: 'star' }, duration: 10, transition: 'scatter-form', palette: 'gold', orbitSpeed: 3 },
+  ],
+};
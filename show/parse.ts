@@ -0,0 +1,108 @@
+import { isPaletteId } from '../utils/palette';
+import { ShowShapeRef, ShowStep, ShowTimeline, ShowTransition } from './types';
+
+export class ShowTimelineError extends Error {
+  readonly path: string; // Where in the timeline the problem is, e.g. "steps[2].duration"
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ShowTimelineError';
+    this.path = path;
+  }
+}
+
+const MAX_STEPS = 100;
+const MAX_STEP_SECONDS = 3600;
+const MAX_ORBIT_SPEED = 30;
+
+const TRANSITIONS = ['scatter-form', 'morph', 'dissolve'];
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const text = (raw: Raw, key: string, path: string) => {
+  const v = raw[key];
+  if (typeof v !== 'string' || !v.trim()) throw new ShowTimelineError(`${path}.${key}`, "expected some text");
+  return v;
+};
+
+const optionalNumber = (raw: Raw, key: string, path: string, min: number, max: number) => {
+  const v = raw[key];
+  if (v === undefined) return undefined;
+  if (typeof v !== 'number' || !isFinite(v)) throw new ShowTimelineError(`${path}.${key}`, "expected a number");
+  if (v < min || v > max) throw new ShowTimelineError(`${path}.${key}`, `${v} is out of range`);
+  return v;
+};
+
+const shapeRef = (v: unknown, path: string): ShowShapeRef => {
+  if (!isObject(v)) throw new ShowTimelineError(path, "expected a shape object");
+  switch (v.type) {
+    case 'builtin': {
+      const seed = optionalNumber(v, 'seed', path, 0, 0xffffffff);
+      if (seed !== undefined && !Number.isInteger(seed)) throw new ShowTimelineError(`${path}.seed`, "expected a whole number");
+      return seed === undefined ? { type: 'builtin', id: text(v, 'id', path) } : { type: 'builtin', id: text(v, 'id', path), seed };
+    }
+    case 'saved':
+      return { type: 'saved', name: text(v, 'name', path) };
+    case 'text':
+      return { type: 'text', text: text(v, 'text', path) };
+    case 'prompt':
+      return { type: 'prompt', prompt: text(v, 'prompt', path) };
+    default:
+      throw new ShowTimelineError(`${path}.type`, "expected builtin, saved, text or prompt");
+  }
+};
+
+const step = (v: unknown, path: string): ShowStep => {
+  if (!isObject(v)) throw new ShowTimelineError(path, "expected a step object");
+  const duration = optionalNumber(v, 'duration', path, 0.5, MAX_STEP_SECONDS);
+  if (duration === undefined) throw new ShowTimelineError(`${path}.duration`, "expected a number");
+
+  const transition = v.transition;
+  if (transition !== undefined && (typeof transition !== 'string' || !TRANSITIONS.includes(transition))) {
+    throw new ShowTimelineError(`${path}.transition`, `expected one of ${TRANSITIONS.join(', ')}`);
+  }
+  const palette = v.palette;
+  if (palette !== undefined && (typeof palette !== 'string' || !isPaletteId(palette))) {
+    throw new ShowTimelineError(`${path}.palette`, `"${String(palette)}" is not a palette`);
+  }
+  const transitionTime = optionalNumber(v, 'transitionTime', path, 0, MAX_STEP_SECONDS);
+  if (transitionTime !== undefined && transitionTime >= duration) {
+    throw new ShowTimelineError(`${path}.transitionTime`, "must be shorter than the step");
+  }
+
+  return {
+    shape: shapeRef(v.shape, `${path}.shape`),
+    duration,
+    transition: transition as ShowTransition | undefined,
+    transitionTime,
+    palette: palette as ShowStep['palette'],
+    orbitSpeed: optionalNumber(v, 'orbitSpeed', path, -MAX_ORBIT_SPEED, MAX_ORBIT_SPEED),
+  };
+};
+
+// Validate a timeline (JSON text or an already parsed value)
+export const parseShowTimeline = (input: unknown): ShowTimeline => {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (e) {
+      throw new ShowTimelineError('(root)', "not valid JSON");
+    }
+  }
+  if (!isObject(raw)) throw new ShowTimelineError('(root)', "expected a timeline object");
+  if (raw.version !== 1) throw new ShowTimelineError('version', "expected 1");
+  if (raw.name !== undefined && typeof raw.name !== 'string') throw new ShowTimelineError('name', "expected text");
+  if (raw.loop !== undefined && typeof raw.loop !== 'boolean') throw new ShowTimelineError('loop', "expected true or false");
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new ShowTimelineError('steps', "expected a list of steps");
+  if (raw.steps.length > MAX_STEPS) throw new ShowTimelineError('steps', `more than ${MAX_STEPS} steps`);
+
+  return {
+    version: 1,
+    name: raw.name as string | undefined,
+    loop: raw.loop as boolean | undefined,
+    steps: raw.steps.map((s, i) => step(s, `steps[${i}]`)),
+  };
+};
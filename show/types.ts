@@ -0,0 +1,31 @@
+import { PaletteId } from '../utils/palette';
+
+// A scripted show: shapes one after another, each with its own timing, transition, palette
+// and camera orbit. Times are in seconds, as written in the JSON file.
+
+export type ShowShapeRef =
+  | { type: 'builtin'; id: string; seed?: number } // e.g. "tree", "countdown_christmas"
+  | { type: 'saved'; name: string } // A library shape, by name
+  | { type: 'text'; text: string } // Lines split on "|"
+  | { type: 'prompt'; prompt: string }; // Summoned through the AI provider before the show starts
+
+// 'scatter-form': blow the previous shape apart, then form the new one.
+// 'morph': particles glide to their nearest spot in the new shape.
+// 'dissolve': particles swap places at random on their way to the new shape.
+export type ShowTransition = 'scatter-form' | 'morph' | 'dissolve';
+
+export interface ShowStep {
+  shape: ShowShapeRef;
+  duration: number; // Seconds on screen, transition included
+  transition?: ShowTransition; // Default 'morph'
+  transitionTime?: number; // Seconds the scatter lasts in 'scatter-form', default 1.5
+  palette?: PaletteId; // Default: whatever palette is selected
+  orbitSpeed?: number; // Camera auto-rotation (OrbitControls units, negative turns the other way), default 0
+}
+
+export interface ShowTimeline {
+  version: 1;
+  name?: string;
+  loop?: boolean; // Start over after the last step, default false
+  steps: ShowStep[];
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, Point3D } from '../types';
+import { ParticleSimulation } from './ParticleSimulation';
+
+const CAPACITY = 500;
+
+const ring: Point3D[] = Array.from({ length: 200 }, (_, i) => ({
+  x: Math.cos(i * 0.1),
+  y: Math.sin(i * 0.1),
+  z: 0,
+}));
+
+const create = (seed = 7) => {
+  const simulation = new ParticleSimulation(CAPACITY, { seed });
+  simulation.setTargets(ring, [1, 1, 1]);
+  return simulation;
+};
+
+// Advance by `seconds` using display frames of `delta`
+const run = (simulation: ParticleSimulation, seconds: number, delta: number) => {
+  for (let t = 0; t < seconds - 1e-9; t += delta) simulation.advance(delta);
+  return simulation;
+};
+
+describe('ParticleSimulation', () => {
+  it('is deterministic for a fixed seed', () => {
+    const a = run(create(), 2, 1 / 60);
+    const b = run(create(), 2, 1 / 60);
+    expect(a.positions).toEqual(b.positions);
+    expect(a.velocities).toEqual(b.velocities);
+    expect(a.rotation).toBe(b.rotation);
+  });
+
+  it('differs between seeds', () => {
+    expect(create(1).positions).not.toEqual(create(2).positions);
+  });
+
+  it.each([AppMode.FORM, AppMode.SCATTER])('ends %s in the same state at 30 and 60 fps', (mode) => {
+    const at30 = create();
+    const at60 = create();
+    at30.setBehaviors({ [mode]: 1 });
+    at60.setBehaviors({ [mode]: 1 });
+    for (let frame = 0; frame < 90; frame++) {
+      expect(at30.advance(1 / 30)).toBe(2);
+      at60.advance(1 / 60);
+      at60.advance(1 / 60);
+    }
+    expect(at30.positions).toEqual(at60.positions);
+    expect(at30.time).toBeCloseTo(at60.time, 12);
+    expect(at30.rotation).toBeCloseTo(at60.rotation, 12);
+  });
+
+  it('settles onto its targets', () => {
+    const simulation = run(create(), 5, 1 / 60);
+    let worst = 0;
+    for (let i = 0; i < simulation.count * 3; i++) {
+      worst = Math.max(worst, Math.abs(simulation.positions[i] - simulation.targets[i]));
+    }
+    // Shimmer keeps particles slightly off their points
+    expect(worst).toBeLessThan(0.1);
+  });
+});
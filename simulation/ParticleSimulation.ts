@@ -0,0 +1,445 @@
+import { AppMode, Point3D } from '../types';
+import { createRandom, RandomFn } from '../utils/random';
+import { assignTargets, MorphStyle, permuteTriplets } from './correspondence';
+import { BehaviorEntry, BehaviorFrame, BehaviorParams, BehaviorRun, BehaviorStep, BehaviorWeights } from './behaviors/types';
+import { BEHAVIORS, normalizeWeights } from './behaviors/registry';
+import { SCATTER_DEFAULTS, ScatterParams } from './behaviors/scatter';
+import { FORM_DEFAULTS, FormParams } from './behaviors/form';
+
+// Physics runs at a fixed rate so results do not depend on the display refresh rate
+export const FIXED_TIMESTEP = 1 / 60;
+const MAX_SUBSTEPS = 5;
+
+// The original tuning was per rendered frame at 60fps; constants are expressed in that unit
+const REFERENCE_FPS = 60;
+
+// Tuning of the original two modes, plus how modes blend. Other behaviors run on their own
+// defaults (see behaviors/); a key here with the same name as theirs overrides it.
+export type SimulationParams = ScatterParams & FormParams & {
+  blendSeconds: number; // Time to cross-fade from one mix of behaviors to the next
+};
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+  ...SCATTER_DEFAULTS,
+  ...FORM_DEFAULTS,
+  blendSeconds: 0.4,
+};
+
+// Every param with the range it stays stable in, in the order the physics panel shows them.
+// Values from outside (shared links) are clamped to these too.
+export const SIMULATION_PARAM_CONTROLS: { key: keyof SimulationParams; label: string; min: number; max: number; step: number }[] = [
+  { key: 'springStiffness', label: "Pull", min: 0.5, max: 10, step: 0.5 },
+  { key: 'formDamping', label: "Form damping", min: 0.6, max: 0.98, step: 0.01 },
+  { key: 'shimmer', label: "Shimmer", min: 0, max: 0.15, step: 0.005 },
+  { key: 'spinSpeed', label: "Spin", min: -1, max: 1, step: 0.05 },
+  { key: 'swirlSpeed', label: "Swirl", min: 0, max: 12, step: 0.5 },
+  { key: 'scatterRadius', label: "Scatter radius", min: 1, max: 6, step: 0.1 },
+  { key: 'scatterDamping', label: "Scatter damping", min: 0.8, max: 0.99, step: 0.01 },
+  { key: 'scatterSpinSpeed', label: "Scatter spin", min: -2, max: 2, step: 0.1 },
+  { key: 'blendSeconds', label: "Mode blend", min: 0, max: 3, step: 0.1 },
+];
+
+// Localized disturbance around a line through (x, y, z) along `axis`, in world space.
+// The default +Z axis acts in the screen plane with depth ignored, as the webcam sees it;
+// pointers pass their ray so everything along the line of sight is disturbed.
+export interface ForceField {
+  x: number;
+  y: number;
+  z?: number;
+  axis?: { x: number; y: number; z: number }; // Unit length
+  radius: number;
+  strength: number;
+  mode: 'repel' | 'attract';
+  falloff?: number; // Exponent of (1 - distance / radius), 2 by default
+  vortex?: number; // Swirl around the axis relative to strength, 1 by default
+}
+
+const FIELD_AXIS = { x: 0, y: 0, z: 1 };
+
+// Continuous push from music, 0-1 each; see audio/analyzer.ts
+export interface AudioDrive {
+  expansion: number; // Swells the shape (and the scatter ring) outwards
+  jitter: number; // Random kicks, for a sparkling, buzzing cloud
+}
+
+// How far the loudest expansion pushes targets out, as a fraction of their distance
+const AUDIO_EXPANSION = 0.35;
+// Random velocity kick per reference frame at full jitter
+const AUDIO_JITTER = 0.6;
+
+export interface ParticleSimulationOptions {
+  seed?: number;
+  count?: number; // Initially active particles, defaults to the full capacity
+  params?: Partial<SimulationParams>;
+  positions?: Float32Array; // External storage, e.g. a view on a SharedArrayBuffer
+  colors?: Float32Array;
+}
+
+// Flatten target points into xyz/rgb buffers, wrapping around if fewer points than particles
+export const packTargets = (
+  points: Point3D[],
+  count: number,
+  fallbackColor: [number, number, number],
+  targets = new Float32Array(count * 3),
+  colors = new Float32Array(count * 3)
+) => {
+  for (let i = 0; i < count; i++) {
+    let tx = 0, ty = 0, tz = 0;
+    let [r, g, b] = fallbackColor;
+
+    if (points.length > 0) {
+      const p = points[i % points.length];
+      tx = p.x;
+      ty = p.y;
+      tz = p.z;
+
+      if (p.color) {
+        [r, g, b] = p.color;
+      }
+    }
+
+    targets[i * 3] = tx;
+    targets[i * 3 + 1] = ty;
+    targets[i * 3 + 2] = tz;
+
+    colors[i * 3] = r;
+    colors[i * 3 + 1] = g;
+    colors[i * 3 + 2] = b;
+  }
+  return { targets, colors };
+};
+
+// Headless particle physics on flat typed arrays. No DOM or Three.js dependency,
+// so it can run in a worker or in Node for tests and benchmarks.
+export class ParticleSimulation {
+  readonly capacity: number; // Buffer size in particles
+  count: number; // Active particles, always the first `count` entries
+  readonly positions: Float32Array;
+  readonly velocities: Float32Array; // Units per second
+  readonly targets: Float32Array;
+  readonly colors: Float32Array;
+  readonly holders: Uint32Array; // holders[t] = particle currently assigned to target point t
+
+  params: SimulationParams;
+  fields: ForceField[] = [];
+  audio: AudioDrive | null = null;
+  morphStyle: MorphStyle = 'nearest';
+  time = 0;
+  rotation = 0; // Spin of the whole cloud around Y, applied by the renderer
+
+  private random: RandomFn;
+  private accumulator = 0;
+  private behaviorTarget: BehaviorWeights = { [AppMode.FORM]: 1 };
+  private blend = new Map<AppMode, { weight: number; run: BehaviorRun }>(); // Behaviors currently in the mix
+  private force = new Float32Array(3);
+
+  constructor(capacity: number, options: ParticleSimulationOptions = {}) {
+    this.capacity = capacity;
+    this.count = Math.min(options.count ?? capacity, capacity);
+    this.positions = options.positions ?? new Float32Array(capacity * 3);
+    this.velocities = new Float32Array(capacity * 3);
+    this.targets = new Float32Array(capacity * 3);
+    this.colors = options.colors ?? new Float32Array(capacity * 3);
+    this.holders = new Uint32Array(capacity);
+    for (let i = 0; i < capacity; i++) this.holders[i] = i;
+    this.params = { ...DEFAULT_SIMULATION_PARAMS, ...options.params };
+    this.random = createRandom(options.seed ?? 1);
+    this.scatterInitial();
+    this.blend.set(AppMode.FORM, { weight: 1, run: this.startBehavior(BEHAVIORS[AppMode.FORM]) });
+  }
+
+  // Start in a loose sphere
+  private scatterInitial() {
+    const { positions, random } = this;
+    for (let i = 0; i < this.capacity; i++) {
+      const r = random() * 5;
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
+
+      positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+      positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+      positions[i * 3 + 2] = r * Math.cos(phi);
+    }
+    this.velocities.fill(0);
+  }
+
+  reset(seed: number) {
+    this.random = createRandom(seed);
+    this.time = 0;
+    this.rotation = 0;
+    this.accumulator = 0;
+    this.scatterInitial();
+    this.blend.forEach((entry, mode) => {
+      entry.run = this.startBehavior(BEHAVIORS[mode]);
+    });
+  }
+
+  // Fade towards a new mix of behaviors over params.blendSeconds
+  setBehaviors(weights: BehaviorWeights) {
+    this.behaviorTarget = normalizeWeights(weights);
+  }
+
+  // Current share of each behavior, mid-fade included
+  get behaviors(): BehaviorWeights {
+    const weights: BehaviorWeights = {};
+    this.blend.forEach((entry, mode) => {
+      weights[mode] = entry.weight;
+    });
+    return weights;
+  }
+
+  // Behaviors take any of their params found here instead of their defaults
+  private behaviorOverrides(): BehaviorParams {
+    return Object.fromEntries(Object.entries(this.params));
+  }
+
+  private behaviorStep(dt: number, swell: number): BehaviorStep {
+    return {
+      positions: this.positions,
+      velocities: this.velocities,
+      targets: this.targets,
+      count: this.count,
+      capacity: this.capacity,
+      time: this.time,
+      dt,
+      accel: REFERENCE_FPS * dt,
+      swell,
+      random: this.random,
+    };
+  }
+
+  private startBehavior(behavior: BehaviorEntry) {
+    return behavior.start(this.behaviorStep(0, 1), this.behaviorOverrides());
+  }
+
+  // Move every weight linearly towards its target; newcomers start from fresh state
+  private fadeBehaviors(dt: number) {
+    const { blend, behaviorTarget } = this;
+    const rate = this.params.blendSeconds > 0 ? dt / this.params.blendSeconds : 1;
+    for (const mode of Object.keys(behaviorTarget) as AppMode[]) {
+      if (!blend.has(mode)) blend.set(mode, { weight: 0, run: this.startBehavior(BEHAVIORS[mode]) });
+    }
+    blend.forEach((entry, mode) => {
+      const target = behaviorTarget[mode] ?? 0;
+      entry.weight = target > entry.weight
+        ? Math.min(target, entry.weight + rate)
+        : Math.max(target, entry.weight - rate);
+      if (entry.weight <= 0 && target <= 0) blend.delete(mode);
+    });
+  }
+
+  // Change the number of active particles without disturbing the existing ones.
+  // Newcomers spawn on top of random existing particles instead of the initial sphere.
+  resize(count: number) {
+    const next = Math.max(0, Math.min(Math.round(count), this.capacity));
+    const { positions, velocities, targets, colors, random } = this;
+
+    for (let i = this.count; i < next; i++) {
+      const src = this.count > 0 ? Math.floor(random() * this.count) * 3 : -1;
+      for (let k = 0; k < 3; k++) {
+        positions[i * 3 + k] = src >= 0 ? positions[src + k] + (random() - 0.5) * 0.05 : 0;
+        velocities[i * 3 + k] = src >= 0 ? velocities[src + k] : 0;
+        targets[i * 3 + k] = src >= 0 ? targets[src + k] : 0;
+        colors[i * 3 + k] = src >= 0 ? colors[src + k] : 1;
+      }
+      this.holders[i] = i;
+    }
+    this.count = next;
+  }
+
+  // New shape: pair particles with target points (see correspondence.ts), then store them.
+  // Returns the assignment so callers holding their own colors can reorder them too.
+  setTargets(points: Point3D[], fallbackColor: [number, number, number]): Uint32Array {
+    const { targets, colors } = packTargets(points, this.count, fallbackColor);
+    const order = this.setTargetPositions(targets);
+    permuteTriplets(colors, order, this.colors);
+    return order;
+  }
+
+  // Pre-packed xyz targets, as sent to a worker
+  setTargetPositions(targets: Float32Array): Uint32Array {
+    const order = assignTargets(this.positions, targets, this.count, this.morphStyle, this.random);
+    permuteTriplets(targets, order, this.targets);
+    for (let i = 0; i < this.count; i++) this.holders[order[i]] = i;
+    return order;
+  }
+
+  // Replace target points start..start+n only. The particles that held those points are
+  // re-matched among themselves; every other particle keeps its target untouched.
+  // Returns the particle now holding each patched point.
+  patchTargets(start: number, points: Point3D[], fallbackColor: [number, number, number]): Uint32Array {
+    const n = Math.max(0, Math.min(points.length, this.count - start));
+    const { targets, colors } = packTargets(points, n, fallbackColor);
+    const particles = this.patchTargetPositions(start, targets);
+    for (let k = 0; k < particles.length; k++) {
+      const i = particles[k];
+      this.colors[i * 3] = colors[k * 3];
+      this.colors[i * 3 + 1] = colors[k * 3 + 1];
+      this.colors[i * 3 + 2] = colors[k * 3 + 2];
+    }
+    return particles;
+  }
+
+  // Pre-packed xyz variant of patchTargets
+  patchTargetPositions(start: number, targets: Float32Array): Uint32Array {
+    const n = Math.max(0, Math.min(targets.length / 3, this.count - start));
+    const particles = this.holders.slice(start, start + n);
+    const local = new Float32Array(n * 3);
+    for (let k = 0; k < n; k++) {
+      const i = particles[k];
+      local[k * 3] = this.positions[i * 3];
+      local[k * 3 + 1] = this.positions[i * 3 + 1];
+      local[k * 3 + 2] = this.positions[i * 3 + 2];
+    }
+
+    // Always the short path: a patch is a small local change, never an explosion
+    const order = assignTargets(local, targets, n, 'nearest', this.random);
+    const result = new Uint32Array(n);
+    for (let k = 0; k < n; k++) {
+      const i = particles[k];
+      const t = order[k];
+      this.targets[i * 3] = targets[t * 3];
+      this.targets[i * 3 + 1] = targets[t * 3 + 1];
+      this.targets[i * 3 + 2] = targets[t * 3 + 2];
+      this.holders[start + t] = i;
+      result[t] = i;
+    }
+    return result;
+  }
+
+  // Kick every particle away from the centre at once, e.g. on a beat. `scatter` adds a random
+  // component of that many times the strength, for a burst instead of a clean pulse.
+  pulse(strength: number, scatter = 0) {
+    const { positions, velocities, random } = this;
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const x = positions[idx];
+      const y = positions[idx + 1];
+      const z = positions[idx + 2];
+      const dist = Math.sqrt(x * x + y * y + z * z) || 1;
+      velocities[idx] += (x / dist + (random() - 0.5) * scatter) * strength;
+      velocities[idx + 1] += (y / dist + (random() - 0.5) * scatter) * strength;
+      velocities[idx + 2] += (z / dist + (random() - 0.5) * scatter) * strength;
+    }
+  }
+
+  // Consume a variable frame delta in fixed steps. Returns the number of steps taken.
+  advance(delta: number): number {
+    this.accumulator = Math.min(this.accumulator + delta, FIXED_TIMESTEP * MAX_SUBSTEPS);
+    let steps = 0;
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.step(FIXED_TIMESTEP);
+      this.accumulator -= FIXED_TIMESTEP;
+      steps++;
+    }
+    return steps;
+  }
+
+  step(dt: number) {
+    const { positions, velocities, fields, random, force } = this;
+    this.fadeBehaviors(dt);
+
+    const accel = REFERENCE_FPS * dt; // Reference-frame accelerations scaled to units/s
+    const swell = 1 + (this.audio?.expansion ?? 0) * AUDIO_EXPANSION;
+    const jitter = (this.audio?.jitter ?? 0) * AUDIO_JITTER * accel;
+    const info = this.behaviorStep(dt, swell);
+
+    // Weights may not add up to 1 mid-fade; each behavior gets its share of the total
+    let total = 0;
+    this.blend.forEach((entry) => {
+      total += entry.weight;
+    });
+    const overrides = this.behaviorOverrides();
+    const active: { frame: BehaviorFrame; weight: number }[] = [];
+    this.blend.forEach((entry) => {
+      if (entry.weight > 0) active.push({ frame: entry.run(overrides), weight: entry.weight / total });
+    });
+
+    // Per-frame damping factors converted to this step length, then mixed
+    const frames = dt * REFERENCE_FPS;
+    let damping = 0;
+    let spin = 0;
+    for (const { frame, weight } of active) {
+      damping += Math.pow(frame.damping, frames) * weight;
+      spin += frame.spin * weight;
+      frame.prepare(info);
+    }
+
+    // Fields live in world space; particles live in the spinning local frame
+    const cosR = Math.cos(this.rotation);
+    const sinR = Math.sin(this.rotation);
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const x = positions[idx];
+      const y = positions[idx + 1];
+      const z = positions[idx + 2];
+
+      // --- LOCAL FORCE FIELDS ---
+      for (const field of fields) {
+        if (field.strength <= 0) continue;
+        // Distance from the field's line, in world space
+        const a = field.axis ?? FIELD_AXIS;
+        let dx = x * cosR + z * sinR - field.x;
+        let dy = y - field.y;
+        let dz = -x * sinR + z * cosR - (field.z ?? 0);
+        const along = dx * a.x + dy * a.y + dz * a.z;
+        dx -= along * a.x;
+        dy -= along * a.y;
+        dz -= along * a.z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (dist >= field.radius || dist <= 1e-4) continue;
+
+        const falloff = Math.pow(1 - dist / field.radius, field.falloff ?? 2);
+        const push = (field.mode === 'repel' ? 1 : -1) * field.strength * falloff * 0.5 / dist;
+        const swirl = field.strength * falloff * (field.vortex ?? 1) / dist;
+
+        // Radial push plus a swirl around the axis (axis x offset)
+        const fx = dx * push + (a.y * dz - a.z * dy) * swirl;
+        const fy = dy * push + (a.z * dx - a.x * dz) * swirl;
+        const fz = dz * push + (a.x * dy - a.y * dx) * swirl;
+
+        // Back into the spinning local frame
+        velocities[idx] += (fx * cosR - fz * sinR) * accel;
+        velocities[idx + 1] += fy * accel;
+        velocities[idx + 2] += (fx * sinR + fz * cosR) * accel;
+      }
+
+      // --- BEHAVIORS, each by its weight ---
+      for (const { frame, weight } of active) {
+        force.fill(0);
+        frame.accelerate(i, force, info);
+        velocities[idx] += force[0] * accel * weight;
+        velocities[idx + 1] += force[1] * accel * weight;
+        velocities[idx + 2] += force[2] * accel * weight;
+      }
+
+      if (jitter > 0) {
+        velocities[idx] += (random() - 0.5) * jitter;
+        velocities[idx + 1] += (random() - 0.5) * jitter;
+        velocities[idx + 2] += (random() - 0.5) * jitter;
+      }
+
+      // Damping (critical for stability)
+      velocities[idx] *= damping;
+      velocities[idx + 1] *= damping;
+      velocities[idx + 2] *= damping;
+
+      // Integrate
+      positions[idx] += velocities[idx] * dt;
+      positions[idx + 1] += velocities[idx + 1] * dt;
+      positions[idx + 2] += velocities[idx + 2] * dt;
+    }
+
+    // Landing, launching and other jumps belong to whichever behavior dominates
+    const dominant = active.reduce<(typeof active)[number] | null>(
+      (best, entry) => (!best || entry.weight > best.weight ? entry : best),
+      null
+    );
+    if (dominant && dominant.weight >= 0.5) dominant.frame.settle(info);
+
+    // Slow global rotation for a cinematic feel, as fast as the mix asks
+    this.rotation += spin * dt;
+    this.time += dt;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { PerformanceGovernor } from './PerformanceGovernor';
+
+const FAST = 1 / 60;
+const SLOW = 1 / 30;
+
+// Feed `seconds` worth of frames of one length, returning the last count
+const feed = (governor: PerformanceGovernor, frame: number, seconds: number) => {
+  for (let t = 0; t < seconds; t += frame) governor.sample(frame);
+  return governor.count;
+};
+
+describe('PerformanceGovernor', () => {
+  it('shrinks on slow frames', () => {
+    expect(feed(new PerformanceGovernor(), SLOW, 5)).toBeLessThan(6000);
+  });
+
+  it('grows on fast frames up to the maximum', () => {
+    expect(feed(new PerformanceGovernor(), FAST, 60)).toBe(12000);
+  });
+
+  it('stays under the ceiling a slow spell set, for a while', () => {
+    const governor = new PerformanceGovernor();
+    feed(governor, SLOW, 3);
+    const capped = governor.count;
+    expect(feed(governor, FAST, 10)).toBeLessThan(6000);
+    expect(governor.count).toBeGreaterThanOrEqual(capped);
+  });
+
+  it('lifts the ceiling after sustained fast frames', () => {
+    const governor = new PerformanceGovernor();
+    feed(governor, SLOW, 3);
+    expect(feed(governor, FAST, 60)).toBe(12000);
+  });
+
+  it('ignores hitches', () => {
+    const governor = new PerformanceGovernor();
+    for (let i = 0; i < 200; i++) governor.sample(1);
+    expect(governor.count).toBe(6000);
+  });
+});
@@ -0,0 +1,85 @@
+export interface PerformanceGovernorConfig {
+  minCount: number;
+  maxCount: number;
+  initialCount: number;
+  stepRatio: number; // Fraction of the current count added or removed per adjustment
+  granularity: number; // Counts are rounded to multiples of this
+  shrinkAboveMs: number; // Average frame time that triggers a reduction
+  growBelowMs: number; // Average frame time that allows growth
+  windowFrames: number; // Frames averaged per decision
+  cooldownMs: number; // Settling time after each change
+  ceilingRecoveryMs: number; // Sustained fast frames that lift the ceiling again
+}
+
+export const DEFAULT_GOVERNOR_CONFIG: PerformanceGovernorConfig = {
+  minCount: 1500,
+  maxCount: 12000,
+  initialCount: 6000,
+  stepRatio: 0.15,
+  granularity: 250,
+  shrinkAboveMs: 1000 / 45,
+  growBelowMs: 1000 / 58,
+  windowFrames: 90,
+  cooldownMs: 2500,
+  ceilingRecoveryMs: 20000,
+};
+
+// Watches frame times and grows or shrinks the active particle count within bounds
+export class PerformanceGovernor {
+  readonly config: PerformanceGovernorConfig;
+  private current: number;
+  private ceiling: number; // Lowered whenever a count proved too heavy, stops oscillation
+  private fastMs = 0; // Time the average has stayed under growBelowMs
+  private samples: number[] = [];
+  private elapsedSinceChangeMs = 0;
+
+  constructor(config: Partial<PerformanceGovernorConfig> = {}) {
+    this.config = { ...DEFAULT_GOVERNOR_CONFIG, ...config };
+    this.current = this.clamp(this.config.initialCount);
+    this.ceiling = this.config.maxCount;
+  }
+
+  get count() {
+    return this.current;
+  }
+
+  private clamp(count: number) {
+    const { minCount, maxCount, granularity } = this.config;
+    const rounded = Math.round(count / granularity) * granularity;
+    return Math.max(minCount, Math.min(maxCount, rounded));
+  }
+
+  // Feed one frame delta (seconds). Returns the new count when it changes, otherwise null.
+  sample(deltaSeconds: number): number | null {
+    const { windowFrames, cooldownMs, shrinkAboveMs, growBelowMs, stepRatio, ceilingRecoveryMs } = this.config;
+    const frameMs = deltaSeconds * 1000;
+
+    // Ignore hitches from tab switches and breakpoints
+    if (frameMs > 250) return null;
+
+    this.elapsedSinceChangeMs += frameMs;
+    this.samples.push(frameMs);
+    if (this.samples.length > windowFrames) this.samples.shift();
+    if (this.samples.length < windowFrames || this.elapsedSinceChangeMs < cooldownMs) return null;
+
+    const average = this.samples.reduce((a, b) => a + b, 0) / this.samples.length;
+    this.fastMs = average < growBelowMs ? this.fastMs + frameMs : 0;
+    // A slow spell (a big parse, a background tab) shouldn't cap the count for good
+    if (this.fastMs >= ceilingRecoveryMs) this.ceiling = this.config.maxCount;
+
+    let next = this.current;
+    if (average > shrinkAboveMs) {
+      this.ceiling = Math.max(this.config.minCount, this.current - this.config.granularity);
+      next = this.clamp(this.current * (1 - stepRatio));
+    } else if (average < growBelowMs) {
+      next = Math.min(this.ceiling, this.clamp(this.current * (1 + stepRatio)));
+    }
+
+    if (next === this.current) return null;
+
+    this.current = next;
+    this.samples = [];
+    this.elapsedSinceChangeMs = 0;
+    return next;
+  }
+}
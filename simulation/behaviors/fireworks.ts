@@ -0,0 +1,88 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type FireworksParams = {
+  groups: number; // Particles are split into this many rockets, launched in turn
+  interval: number; // Average seconds between launches
+  launchSpeed: number; // Units/s
+  fuse: number; // Seconds from launch to burst
+  burstSpeed: number; // Units/s
+  gravity: number; // Per reference frame
+  drag: number; // Velocity kept per reference frame
+  floor: number; // Launch height
+  spread: number; // Half width of the launch area
+};
+
+export const FIREWORKS_DEFAULTS: FireworksParams = {
+  groups: 6,
+  interval: 0.5,
+  launchSpeed: 9,
+  fuse: 0.7,
+  burstSpeed: 5,
+  gravity: 0.05,
+  drag: 0.97,
+  floor: -3,
+  spread: 2,
+};
+
+interface Rocket {
+  group: number;
+  burstAt: number;
+}
+
+interface FireworksState {
+  next: number; // Next group to launch
+  launchAt: number;
+  rockets: Rocket[]; // In flight, not yet burst
+}
+
+// Rockets rise from the ground and burst into spheres of sparks that rain down
+export const fireworksBehavior = defineBehavior<FireworksParams, FireworksState>({
+  id: AppMode.FIREWORKS,
+  label: 'Fireworks',
+  defaults: FIREWORKS_DEFAULTS,
+  damping: (params) => params.drag,
+  spin: () => 0,
+  init: ({ time }) => ({ next: 0, launchAt: time, rockets: [] }),
+  accelerate: (_i, out, _state, _step, params) => {
+    out[1] -= params.gravity;
+  },
+  settle: (state, { positions, velocities, count, time, random }, params) => {
+    const groups = Math.max(1, Math.round(params.groups));
+
+    if (time >= state.launchAt) {
+      // Pack the group into a rocket on the ground and send it up
+      const group = state.next % groups;
+      const x = (random() * 2 - 1) * params.spread;
+      const z = (random() * 2 - 1) * params.spread * 0.5;
+      const lean = (random() - 0.5) * 0.3 * params.launchSpeed;
+      for (let i = group; i < count; i += groups) {
+        positions[i * 3] = x + (random() - 0.5) * 0.05;
+        positions[i * 3 + 1] = params.floor + random() * 0.3;
+        positions[i * 3 + 2] = z + (random() - 0.5) * 0.05;
+        velocities[i * 3] = lean;
+        velocities[i * 3 + 1] = params.launchSpeed;
+        velocities[i * 3 + 2] = 0;
+      }
+      state.rockets = state.rockets.filter((rocket) => rocket.group !== group);
+      state.rockets.push({ group, burstAt: time + params.fuse * (0.8 + random() * 0.4) });
+      state.next = group + 1;
+      state.launchAt = time + params.interval * (0.5 + random());
+    }
+
+    state.rockets = state.rockets.filter((rocket) => {
+      if (time < rocket.burstAt) return true;
+      // Burst: every spark off in a random direction, on a rough sphere
+      const speed = params.burstSpeed * (0.7 + random() * 0.6);
+      for (let i = rocket.group; i < count; i += groups) {
+        const u = random() * 2 - 1;
+        const theta = random() * Math.PI * 2;
+        const r = Math.sqrt(1 - u * u) * speed * (0.85 + random() * 0.15);
+        velocities[i * 3] = r * Math.cos(theta);
+        velocities[i * 3 + 1] = u * speed;
+        velocities[i * 3 + 2] = r * Math.sin(theta);
+      }
+      return false;
+    });
+  },
+});
@@ -0,0 +1,135 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type FlockingParams = {
+  neighborRadius: number;
+  maxNeighbors: number; // Enough for a stable flock; caps the cost in dense spots
+  separation: number;
+  alignment: number;
+  cohesion: number;
+  speed: number; // Cruising speed, units/s
+  bounds: number; // Half size of the box the flock turns back from
+  drag: number; // Velocity kept per reference frame
+};
+
+export const FLOCKING_DEFAULTS: FlockingParams = {
+  neighborRadius: 0.45,
+  maxNeighbors: 10,
+  separation: 0.012,
+  alignment: 0.06,
+  cohesion: 0.04,
+  speed: 1.6,
+  bounds: 3,
+  drag: 0.98,
+};
+
+interface FlockState {
+  cells: number; // Per side of the neighbour grid
+  cellOf: Int32Array; // Per particle
+  cellStart: Int32Array; // Per cell, into `sorted`; one extra entry at the end
+  sorted: Int32Array; // Particles ordered by cell
+}
+
+// Grid over the bounds plus a margin, so strays just outside still find their neighbours
+const gridCell = (value: number, params: FlockingParams, cells: number) =>
+  Math.min(cells - 1, Math.max(0, Math.floor((value + params.bounds + params.neighborRadius) / params.neighborRadius)));
+
+// Boids: keep apart, match neighbours' heading, stay with the group
+export const flockingBehavior = defineBehavior<FlockingParams, FlockState>({
+  id: AppMode.FLOCKING,
+  label: 'Flocking',
+  defaults: FLOCKING_DEFAULTS,
+  damping: (params) => params.drag,
+  spin: () => 0,
+  init: ({ capacity }, params) => {
+    const cells = Math.ceil((params.bounds * 2) / params.neighborRadius) + 2;
+    return {
+      cells,
+      cellOf: new Int32Array(capacity),
+      cellStart: new Int32Array(cells * cells * cells + 1),
+      sorted: new Int32Array(capacity),
+    };
+  },
+  // Counting sort of the particles into grid cells
+  prepare: (state, { positions, count }, params) => {
+    const { cells, cellOf, cellStart, sorted } = state;
+    cellStart.fill(0);
+    for (let i = 0; i < count; i++) {
+      const cell =
+        (gridCell(positions[i * 3 + 2], params, cells) * cells + gridCell(positions[i * 3 + 1], params, cells)) * cells +
+        gridCell(positions[i * 3], params, cells);
+      cellOf[i] = cell;
+      cellStart[cell + 1]++;
+    }
+    for (let c = 0; c < cells * cells * cells; c++) cellStart[c + 1] += cellStart[c];
+    const fill = cellStart.slice(0, cells * cells * cells);
+    for (let i = 0; i < count; i++) sorted[fill[cellOf[i]]++] = i;
+  },
+  accelerate: (i, out, state, { positions, velocities }, params) => {
+    const { cells, cellOf, cellStart, sorted } = state;
+    const idx = i * 3;
+    const x = positions[idx], y = positions[idx + 1], z = positions[idx + 2];
+    const vx = velocities[idx], vy = velocities[idx + 1], vz = velocities[idx + 2];
+    const cell = cellOf[i];
+    const cx = cell % cells;
+    const cy = Math.floor(cell / cells) % cells;
+    const cz = Math.floor(cell / (cells * cells));
+    const r2 = params.neighborRadius * params.neighborRadius;
+
+    let neighbors = 0;
+    let sepX = 0, sepY = 0, sepZ = 0;
+    let velX = 0, velY = 0, velZ = 0;
+    let posX = 0, posY = 0, posZ = 0;
+    search: for (let dz = -1; dz <= 1; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx, ny = cy + dy, nz = cz + dz;
+          if (nx < 0 || ny < 0 || nz < 0 || nx >= cells || ny >= cells || nz >= cells) continue;
+          const c = (nz * cells + ny) * cells + nx;
+          for (let k = cellStart[c]; k < cellStart[c + 1]; k++) {
+            const j = sorted[k];
+            if (j === i) continue;
+            const ox = x - positions[j * 3], oy = y - positions[j * 3 + 1], oz = z - positions[j * 3 + 2];
+            const d2 = ox * ox + oy * oy + oz * oz;
+            if (d2 >= r2 || d2 < 1e-8) continue;
+            sepX += ox / d2;
+            sepY += oy / d2;
+            sepZ += oz / d2;
+            velX += velocities[j * 3];
+            velY += velocities[j * 3 + 1];
+            velZ += velocities[j * 3 + 2];
+            posX += positions[j * 3];
+            posY += positions[j * 3 + 1];
+            posZ += positions[j * 3 + 2];
+            if (++neighbors >= params.maxNeighbors) break search;
+          }
+        }
+      }
+    }
+
+    if (neighbors > 0) {
+      out[0] += sepX * params.separation + (velX / neighbors - vx) * params.alignment + (posX / neighbors - x) * params.cohesion;
+      out[1] += sepY * params.separation + (velY / neighbors - vy) * params.alignment + (posY / neighbors - y) * params.cohesion;
+      out[2] += sepZ * params.separation + (velZ / neighbors - vz) * params.alignment + (posZ / neighbors - z) * params.cohesion;
+    }
+
+    // Turn back at the edges of the box, softly
+    const edge = params.bounds;
+    if (Math.abs(x) > edge) out[0] -= (x - Math.sign(x) * edge) * 0.2;
+    if (Math.abs(y) > edge * 0.7) out[1] -= (y - Math.sign(y) * edge * 0.7) * 0.2;
+    if (Math.abs(z) > edge) out[2] -= (z - Math.sign(z) * edge) * 0.2;
+
+    // Hold cruising speed: push along the heading when slow, brake when fast
+    const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+    if (speed > 1e-4) {
+      const push = (params.speed - speed) / speed * (1 - params.drag + 0.02);
+      out[0] += vx * push;
+      out[1] += vy * push;
+      out[2] += vz * push;
+    } else {
+      out[0] += Math.sin(i * 12.9898) * 0.1;
+      out[1] += Math.sin(i * 78.233) * 0.1;
+      out[2] += Math.sin(i * 37.719) * 0.1;
+    }
+  },
+});
@@ -0,0 +1,44 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type FormParams = {
+  springStiffness: number; // Pull towards the target while forming
+  formDamping: number; // Velocity kept per reference frame while forming
+  shimmer: number; // Noise amplitude around targets
+  spinSpeed: number; // Container rotation, rad/s, while formed
+};
+
+export const FORM_DEFAULTS: FormParams = {
+  springStiffness: 4.0,
+  formDamping: 0.85,
+  shimmer: 0.02,
+  spinSpeed: 0.1,
+};
+
+// Springs every particle to its point of the shape
+export const formBehavior = defineBehavior<FormParams, null>({
+  id: AppMode.FORM,
+  label: 'Shape',
+  defaults: FORM_DEFAULTS,
+  damping: (params) => params.formDamping,
+  spin: (params) => params.spinSpeed,
+  init: () => null,
+  accelerate: (i, out, _state, { positions, targets, time, swell }, params) => {
+    const idx = i * 3;
+    const x = positions[idx];
+    const y = positions[idx + 1];
+    const z = positions[idx + 2];
+
+    // Shimmer: noise on the target so the shape is not perfectly static
+    const amp = params.shimmer;
+    const nx = Math.sin(time * 3 + y) * amp;
+    const ny = Math.cos(time * 2 + z) * amp;
+    const nz = Math.sin(time * 4 + x) * amp;
+
+    // Spring-like attraction towards the target, swollen by the bass
+    const k = params.springStiffness;
+    out[0] += ((targets[idx] * swell + nx) - x) * k;
+    out[1] += ((targets[idx + 1] * swell + ny) - y) * k;
+    out[2] += ((targets[idx + 2] * swell + nz) - z) * k;
+  },
+});
@@ -0,0 +1,85 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type GalaxyParams = {
+  arms: number;
+  radius: number; // Of the disc
+  twist: number; // Radians the arms wind per unit of radius
+  armWidth: number; // Angular scatter around an arm, radians
+  thickness: number; // Half height of the disc at its centre
+  bulge: number; // Fraction of particles in the central bulge
+  orbitSpeed: number; // Angular speed at radius 1, rad/s; inner stars go faster
+  tilt: number; // Radians the disc leans towards the viewer
+  pull: number; // Spring towards each particle's orbit
+  drag: number; // Velocity kept per reference frame
+};
+
+export const GALAXY_DEFAULTS: GalaxyParams = {
+  arms: 3,
+  radius: 3.2,
+  twist: 1.6,
+  armWidth: 0.35,
+  thickness: 0.12,
+  bulge: 0.15,
+  orbitSpeed: 0.6,
+  tilt: 0.45,
+  pull: 1.5,
+  drag: 0.85,
+};
+
+interface GalaxyState {
+  // Per particle: orbit radius, starting angle and height above the disc
+  radius: Float32Array;
+  angle: Float32Array;
+  height: Float32Array;
+}
+
+// A spiral galaxy with differential rotation: every particle orbits on its own circle
+export const galaxyBehavior = defineBehavior<GalaxyParams, GalaxyState>({
+  id: AppMode.GALAXY,
+  label: 'Galaxy',
+  defaults: GALAXY_DEFAULTS,
+  damping: (params) => params.drag,
+  spin: () => 0,
+  init: ({ capacity, random }, params) => {
+    const radius = new Float32Array(capacity);
+    const angle = new Float32Array(capacity);
+    const height = new Float32Array(capacity);
+    const arms = Math.max(1, Math.round(params.arms));
+    for (let i = 0; i < capacity; i++) {
+      if (random() < params.bulge) {
+        // Dense, puffy core
+        const r = Math.pow(random(), 2) * params.radius * 0.25;
+        radius[i] = r;
+        angle[i] = random() * Math.PI * 2;
+        height[i] = (random() * 2 - 1) * params.thickness * 3 * (1 - r / (params.radius * 0.25));
+        continue;
+      }
+      // Arms thin out towards the edge, and so does the disc
+      const r = params.radius * (0.1 + 0.9 * Math.sqrt(random()));
+      const spread = (random() + random() - 1) * params.armWidth;
+      radius[i] = r;
+      angle[i] = (i % arms) * (Math.PI * 2 / arms) + r * params.twist + spread;
+      height[i] = (random() * 2 - 1) * params.thickness * (1 - (r / params.radius) * 0.7);
+    }
+    return { radius, angle, height };
+  },
+  accelerate: (i, out, state, { positions, time, swell }, params) => {
+    const idx = i * 3;
+    const r = state.radius[i] * swell;
+    // Flat-ish rotation curve: inner orbits take less time
+    const theta = state.angle[i] + (time * params.orbitSpeed) / Math.sqrt(0.3 + state.radius[i]);
+    const px = Math.cos(theta) * r;
+    const pz = Math.sin(theta) * r;
+    const py = state.height[i];
+    // Tilt the disc around the X axis
+    const cosT = Math.cos(params.tilt);
+    const sinT = Math.sin(params.tilt);
+    const ty = py * cosT - pz * sinT;
+    const tz = py * sinT + pz * cosT;
+
+    out[0] += (px - positions[idx]) * params.pull;
+    out[1] += (ty - positions[idx + 1]) * params.pull;
+    out[2] += (tz - positions[idx + 2]) * params.pull;
+  },
+});
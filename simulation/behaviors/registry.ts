@@ -0,0 +1,40 @@
+import { AppMode } from '../../types';
+import { BehaviorEntry, BehaviorWeights } from './types';
+import { scatterBehavior } from './scatter';
+import { formBehavior } from './form';
+import { snowfallBehavior } from './snowfall';
+import { fireworksBehavior } from './fireworks';
+import { galaxyBehavior } from './galaxy';
+import { flockingBehavior } from './flocking';
+
+// Every mode the particles can be in
+export const BEHAVIORS: Record<AppMode, BehaviorEntry> = {
+  [AppMode.FORM]: formBehavior,
+  [AppMode.SCATTER]: scatterBehavior,
+  [AppMode.SNOWFALL]: snowfallBehavior,
+  [AppMode.FIREWORKS]: fireworksBehavior,
+  [AppMode.GALAXY]: galaxyBehavior,
+  [AppMode.FLOCKING]: flockingBehavior,
+};
+
+export const BEHAVIOR_OPTIONS: { id: AppMode; label: string }[] = Object.values(BEHAVIORS).map(({ id, label }) => ({
+  id,
+  label,
+}));
+
+// `mode` alone, or mixed with the shape so it keeps `formShare` of its pull
+export const modeWeights = (mode: AppMode, formShare = 0): BehaviorWeights => {
+  if (mode === AppMode.FORM || formShare <= 0) return { [mode]: 1 };
+  if (formShare >= 1) return { [AppMode.FORM]: 1 };
+  return { [mode]: 1 - formShare, [AppMode.FORM]: formShare };
+};
+
+// Scale to a total of 1, dropping unknown and empty entries; nothing at all means the shape
+export const normalizeWeights = (weights: BehaviorWeights): BehaviorWeights => {
+  const entries = Object.values(AppMode)
+    .map((mode) => [mode, weights[mode] ?? 0] as const)
+    .filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (!(total > 0)) return { [AppMode.FORM]: 1 };
+  return Object.fromEntries(entries.map(([mode, weight]) => [mode, weight / total]));
+};
@@ -0,0 +1,49 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type ScatterParams = {
+  swirlSpeed: number; // Tangential push while scattering
+  scatterRadius: number; // Radius of the scatter ring
+  scatterDamping: number; // Velocity kept per reference frame while scattering
+  scatterSpinSpeed: number; // Container rotation, rad/s, while scattering
+};
+
+export const SCATTER_DEFAULTS: ScatterParams = {
+  swirlSpeed: 5.0,
+  scatterRadius: 3.5,
+  scatterDamping: 0.92,
+  scatterSpinSpeed: 0.5,
+};
+
+// A swirling vortex around a breathing ring
+export const scatterBehavior = defineBehavior<ScatterParams, null>({
+  id: AppMode.SCATTER,
+  label: 'Scatter',
+  defaults: SCATTER_DEFAULTS,
+  damping: (params) => params.scatterDamping,
+  spin: (params) => params.scatterSpinSpeed,
+  init: () => null,
+  accelerate: (i, out, _state, { positions, time, swell }, params) => {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+
+    // 1. Cylindrical coordinates
+    const distXZ = Math.sqrt(x * x + z * z);
+    const angle = Math.atan2(z, x);
+
+    // 2. Swirl Force (Tangential), direction (-z, x) around the Y axis
+    out[0] += -Math.sin(angle) * params.swirlSpeed;
+    out[2] += Math.cos(angle) * params.swirlSpeed;
+
+    // 3. Expansion Force (Radial) towards a breathing ring
+    const targetRadius = params.scatterRadius * swell + Math.sin(time * 2 + y) * 0.5;
+    const radialForce = (targetRadius - distXZ) * 2.0;
+    out[0] += Math.cos(angle) * radialForce;
+    out[2] += Math.sin(angle) * radialForce;
+
+    // 4. Vertical Float
+    const targetY = Math.sin(time * 1.5 + distXZ) * 1.5;
+    out[1] += (targetY - y) * 1.0;
+  },
+});
@@ -0,0 +1,111 @@
+import { AppMode } from '../../types';
+import { defineBehavior } from './types';
+
+export type SnowfallParams = {
+  fallSpeed: number; // Terminal speed, units/s
+  sway: number; // Sideways drift, units/s
+  drag: number; // Velocity kept per reference frame
+  area: number; // Half size of the square the snow falls on
+  top: number; // Height flakes respawn at
+  ground: number;
+  cellSize: number; // Resolution of the snow cover
+  flakeHeight: number; // How much each landed flake raises its cell
+  maxDepth: number; // Full cells melt new flakes away instead of piling up
+  restSeconds: number; // Average time a flake lies before it melts and falls again
+};
+
+export const SNOWFALL_DEFAULTS: SnowfallParams = {
+  fallSpeed: 0.7,
+  sway: 0.25,
+  drag: 0.95,
+  area: 3,
+  top: 3,
+  ground: -2.2,
+  cellSize: 0.25,
+  flakeHeight: 0.012,
+  maxDepth: 0.5,
+  restSeconds: 25,
+};
+
+interface SnowState {
+  cells: number; // Per side
+  depth: Float32Array; // Snow cover per cell
+  landedAt: Float32Array; // Per particle: time it landed, or -1 while falling
+  restFor: Float32Array; // Per particle: how long it lies once landed
+  cellOf: Int32Array; // Per particle: cell it lies in
+}
+
+// Flakes drift down and pile up into a snow cover, then melt and fall again
+export const snowfallBehavior = defineBehavior<SnowfallParams, SnowState>({
+  id: AppMode.SNOWFALL,
+  label: 'Snowfall',
+  defaults: SNOWFALL_DEFAULTS,
+  damping: (params) => params.drag,
+  spin: () => 0.02,
+  init: ({ capacity, random }, params) => {
+    const cells = Math.max(1, Math.ceil((params.area * 2) / params.cellSize));
+    const restFor = new Float32Array(capacity);
+    for (let i = 0; i < capacity; i++) restFor[i] = params.restSeconds * (0.5 + random());
+    return {
+      cells,
+      depth: new Float32Array(cells * cells),
+      landedAt: new Float32Array(capacity).fill(-1),
+      restFor,
+      cellOf: new Int32Array(capacity),
+    };
+  },
+  accelerate: (i, out, state, { positions, time }, params) => {
+    if (state.landedAt[i] >= 0) return;
+    const x = positions[i * 3];
+    const z = positions[i * 3 + 2];
+    // Forces of (1 - drag) times a speed settle at that speed
+    const settle = 1 - params.drag;
+    out[0] += Math.sin(time * 0.7 + i * 1.7) * params.sway * settle;
+    out[1] -= params.fallSpeed * settle;
+    out[2] += Math.cos(time * 0.5 + i * 2.3) * params.sway * settle;
+    // Back over the ground if blown off it
+    if (Math.abs(x) > params.area) out[0] -= Math.sign(x) * 0.1;
+    if (Math.abs(z) > params.area) out[2] -= Math.sign(z) * 0.1;
+  },
+  settle: (state, { positions, velocities, count, time, random }, params) => {
+    const { cells, depth, landedAt, restFor, cellOf } = state;
+    const respawn = (i: number) => {
+      positions[i * 3] = (random() * 2 - 1) * params.area;
+      positions[i * 3 + 1] = params.top + random() * 0.5;
+      positions[i * 3 + 2] = (random() * 2 - 1) * params.area;
+      velocities[i * 3] = velocities[i * 3 + 1] = velocities[i * 3 + 2] = 0;
+      landedAt[i] = -1;
+    };
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      if (landedAt[i] >= 0) {
+        // Lying flakes stay put until they melt
+        velocities[idx] = velocities[idx + 1] = velocities[idx + 2] = 0;
+        if (time - landedAt[i] > restFor[i]) {
+          depth[cellOf[i]] = Math.max(0, depth[cellOf[i]] - params.flakeHeight);
+          respawn(i);
+        }
+        continue;
+      }
+
+      const x = positions[idx];
+      const z = positions[idx + 2];
+      const cx = Math.min(cells - 1, Math.max(0, Math.floor((x + params.area) / params.cellSize)));
+      const cz = Math.min(cells - 1, Math.max(0, Math.floor((z + params.area) / params.cellSize)));
+      const cell = cz * cells + cx;
+      const surface = params.ground + depth[cell];
+      if (positions[idx + 1] > surface) continue;
+
+      if (depth[cell] >= params.maxDepth) {
+        respawn(i);
+        continue;
+      }
+      positions[idx + 1] = surface;
+      velocities[idx] = velocities[idx + 1] = velocities[idx + 2] = 0;
+      depth[cell] += params.flakeHeight;
+      landedAt[i] = time;
+      cellOf[i] = cell;
+    }
+  },
+});
@@ -0,0 +1,93 @@
+import { AppMode } from '../../types';
+import { RandomFn } from '../../utils/random';
+
+// A particle behavior: how the cloud moves in one mode. The simulation blends the accelerations
+// of every behavior with a weight, so modes can cross-fade or be mixed on purpose.
+// Behaviors work in the cloud's spinning local frame, like the simulation's buffers.
+
+// Numeric knobs. Any of them also found in SimulationParams take its value from there.
+export type BehaviorParams = Record<string, number>;
+
+// Everything a behavior may read (and in `settle`, write) during one simulation step
+export interface BehaviorStep {
+  positions: Float32Array;
+  velocities: Float32Array; // Units per second
+  targets: Float32Array; // Shape points, for behaviors that care
+  count: number; // Active particles
+  capacity: number; // Buffer size in particles; per-particle state should be this big
+  time: number;
+  dt: number;
+  accel: number; // Reference-frame accelerations (per 1/60 s) times this are this step's velocity change
+  swell: number; // Music expansion, 1 = none
+  random: RandomFn;
+}
+
+export interface ParticleBehavior<P extends BehaviorParams = BehaviorParams, S = unknown> {
+  id: AppMode;
+  label: string;
+  defaults: P;
+  damping: (params: P) => number; // Velocity kept per reference frame
+  spin: (params: P) => number; // Rotation of the whole cloud around Y, rad/s
+  // Fresh state whenever the behavior fades in from nothing
+  init: (step: BehaviorStep, params: P) => S;
+  // Once per step before the particles, for shared bookkeeping (neighbour grids, timers)
+  prepare?: (state: S, step: BehaviorStep, params: P) => void;
+  // Acceleration of particle `i` per reference frame, written into `out` (x, y, z; starts zeroed)
+  accelerate: (i: number, out: Float32Array, state: S, step: BehaviorStep, params: P) => void;
+  // Once per step after integration; may move particles directly (landing, launching).
+  // Such jumps can't be blended, so only the dominant behavior (weight at least 0.5) settles.
+  settle?: (state: S, step: BehaviorStep, params: P) => void;
+}
+
+// Share of each behavior in the mix; missing behaviors weigh nothing
+export type BehaviorWeights = Partial<Record<AppMode, number>>;
+
+// This step's hooks of a running behavior, with its parameters resolved and its state bound
+export interface BehaviorFrame {
+  damping: number;
+  spin: number;
+  prepare: (step: BehaviorStep) => void;
+  accelerate: (i: number, out: Float32Array, step: BehaviorStep) => void;
+  settle: (step: BehaviorStep) => void;
+}
+
+// A behavior that has faded in: holds its state and takes simulation params every step
+export type BehaviorRun = (overrides: BehaviorParams) => BehaviorFrame;
+
+// A behavior as registries hold it. Its parameter and state types stay paired inside the closures,
+// so behaviors of all kinds fit in one registry.
+export interface BehaviorEntry {
+  id: AppMode;
+  label: string;
+  defaults: BehaviorParams;
+  // Fresh state whenever the behavior fades in from nothing
+  start: (step: BehaviorStep, overrides: BehaviorParams) => BehaviorRun;
+}
+
+export const defineBehavior = <P extends BehaviorParams, S>(behavior: ParticleBehavior<P, S>): BehaviorEntry => {
+  const { id, label, defaults } = behavior;
+  // Defaults, overridden by params of the same name
+  const resolve = (overrides: BehaviorParams): P => ({
+    ...defaults,
+    ...Object.fromEntries(Object.keys(defaults).filter((key) => overrides[key] !== undefined).map((key) => [key, overrides[key]])),
+  });
+
+  return {
+    id,
+    label,
+    defaults,
+    start: (step, overrides) => {
+      const state = behavior.init(step, resolve(overrides));
+      return (overrides) => {
+        const params = resolve(overrides);
+        return {
+          damping: behavior.damping(params),
+          spin: behavior.spin(params),
+          prepare: (step) => behavior.prepare?.(state, step, params),
+          accelerate: (i, out, step) => behavior.accelerate(i, out, state, step, params),
+          settle: (step) => behavior.settle?.(state, step, params),
+        };
+      };
+    },
+  };
+};
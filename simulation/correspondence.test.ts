@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, RandomFn } from '../utils/random';
+import { assignTargets } from './correspondence';
+
+const COUNT = 2000;
+
+const randomCloud = (random: RandomFn) => {
+  const xyz = new Float32Array(COUNT * 3);
+  for (let i = 0; i < xyz.length; i++) xyz[i] = random() * 3 - 1.5;
+  return xyz;
+};
+
+const random = createRandom(21);
+const POSITIONS = randomCloud(random);
+const TARGETS = randomCloud(random);
+
+// Total squared distance when particle i moves to target order[i]
+const travel = (order: Uint32Array) => {
+  let total = 0;
+  for (let i = 0; i < COUNT; i++) {
+    for (let k = 0; k < 3; k++) total += (POSITIONS[i * 3 + k] - TARGETS[order[i] * 3 + k]) ** 2;
+  }
+  return total;
+};
+
+const identity = Uint32Array.from({ length: COUNT }, (_, i) => i);
+
+describe('assignTargets', () => {
+  it('returns a permutation of the targets', () => {
+    for (const style of ['nearest', 'chaos'] as const) {
+      const order = assignTargets(POSITIONS, TARGETS, COUNT, style, createRandom(1));
+      expect(Array.from(order).sort((a, b) => a - b)).toEqual(Array.from(identity));
+    }
+  });
+
+  it("travels much less with 'nearest' than in index order or with 'chaos'", () => {
+    const nearest = travel(assignTargets(POSITIONS, TARGETS, COUNT, 'nearest', createRandom(1)));
+    const chaos = travel(assignTargets(POSITIONS, TARGETS, COUNT, 'chaos', createRandom(1)));
+    expect(nearest).toBeLessThan(travel(identity) * 0.2);
+    expect(nearest).toBeLessThan(chaos * 0.2);
+  });
+
+  it('is deterministic for a seeded random', () => {
+    for (const style of ['nearest', 'chaos'] as const) {
+      const a = assignTargets(POSITIONS, TARGETS, COUNT, style, createRandom(5));
+      const b = assignTargets(POSITIONS, TARGETS, COUNT, style, createRandom(5));
+      expect(a).toEqual(b);
+    }
+  });
+});
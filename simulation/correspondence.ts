@@ -0,0 +1,115 @@
+import { RandomFn } from '../utils/random';
+
+// 'nearest' minimizes total travel between shapes, 'chaos' is the deliberate explosion
+export type MorphStyle = 'nearest' | 'chaos';
+
+const REFINE_PASSES = 6;
+const REFINE_WINDOW = 24;
+
+// Spread the lower 10 bits of v so there are two zero bits between each
+const part1By2 = (v: number) => {
+  v &= 0x3ff;
+  v = (v | (v << 16)) & 0x30000ff;
+  v = (v | (v << 8)) & 0x300f00f;
+  v = (v | (v << 4)) & 0x30c30c3;
+  v = (v | (v << 2)) & 0x9249249;
+  return v;
+};
+
+const mortonKeys = (xyz: Float32Array, count: number, min: number[], scale: number[]) => {
+  const keys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const x = Math.floor((xyz[i * 3] - min[0]) * scale[0]);
+    const y = Math.floor((xyz[i * 3 + 1] - min[1]) * scale[1]);
+    const z = Math.floor((xyz[i * 3 + 2] - min[2]) * scale[2]);
+    keys[i] = (part1By2(x) | (part1By2(y) << 1) | (part1By2(z) << 2)) >>> 0;
+  }
+  return keys;
+};
+
+const sortedIndices = (keys: Float64Array) => {
+  const idx = new Uint32Array(keys.length);
+  for (let i = 0; i < idx.length; i++) idx[i] = i;
+  return idx.sort((a, b) => keys[a] - keys[b]);
+};
+
+const dist2 = (a: Float32Array, i: number, b: Float32Array, j: number) => {
+  const dx = a[i * 3] - b[j * 3];
+  const dy = a[i * 3 + 1] - b[j * 3 + 1];
+  const dz = a[i * 3 + 2] - b[j * 3 + 2];
+  return dx * dx + dy * dy + dz * dz;
+};
+
+// Pair every particle with one target point. Returns `order` where particle i should
+// move to target order[i]. The 'nearest' style approximates optimal transport: both clouds
+// are ranked along a shared Z-order curve, then improved by local pairwise swaps.
+export const assignTargets = (
+  positions: Float32Array,
+  targets: Float32Array,
+  count: number,
+  style: MorphStyle,
+  random: RandomFn
+): Uint32Array => {
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+
+  if (style === 'chaos') {
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const tmp = order[i];
+      order[i] = order[j];
+      order[j] = tmp;
+    }
+    return order;
+  }
+
+  if (count < 2) return order;
+
+  // Shared bounding box so both curves live in the same space
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const xyz of [positions, targets]) {
+    for (let i = 0; i < count; i++) {
+      for (let k = 0; k < 3; k++) {
+        const v = xyz[i * 3 + k];
+        if (v < min[k]) min[k] = v;
+        if (v > max[k]) max[k] = v;
+      }
+    }
+  }
+  const scale = min.map((m, k) => 1023 / Math.max(max[k] - m, 1e-6));
+
+  const particleRank = sortedIndices(mortonKeys(positions, count, min, scale));
+  const targetRank = sortedIndices(mortonKeys(targets, count, min, scale));
+  for (let r = 0; r < count; r++) order[particleRank[r]] = targetRank[r];
+
+  // 2-opt style refinement between particles that are close along the curve
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    for (let r = 0; r < count - 1; r++) {
+      const s = Math.min(count - 1, r + 1 + Math.floor(random() * REFINE_WINDOW));
+      const i = particleRank[r];
+      const j = particleRank[s];
+      const ti = order[i];
+      const tj = order[j];
+      const before = dist2(positions, i, targets, ti) + dist2(positions, j, targets, tj);
+      const after = dist2(positions, i, targets, tj) + dist2(positions, j, targets, ti);
+      if (after < before) {
+        order[i] = tj;
+        order[j] = ti;
+      }
+    }
+  }
+
+  return order;
+};
+
+// out[i] = source[order[i]] for xyz/rgb triplets
+export const permuteTriplets = (source: Float32Array, order: Uint32Array, out: Float32Array) => {
+  for (let i = 0; i < order.length; i++) {
+    const j = order[i];
+    out[i * 3] = source[j * 3];
+    out[i * 3 + 1] = source[j * 3 + 1];
+    out[i * 3 + 2] = source[j * 3 + 2];
+  }
+  return out;
+};
@@ -0,0 +1,40 @@
+import { AudioDrive, ForceField, SimulationParams } from './ParticleSimulation';
+import { MorphStyle } from './correspondence';
+import { BehaviorWeights } from './behaviors/types';
+
+// Main thread -> simulation worker
+export type SimulationRequest =
+  | {
+      type: 'init';
+      capacity: number;
+      count: number;
+      seed: number;
+      params?: Partial<SimulationParams>;
+      sharedPositions?: SharedArrayBuffer; // Present when the worker writes straight into shared memory
+    }
+  | { type: 'resize'; count: number }
+  | { type: 'targets'; targets: Float32Array; morphStyle: MorphStyle }
+  | { type: 'patch'; start: number; targets: Float32Array } // Re-target a range of target points only
+  | { type: 'behaviors'; weights: BehaviorWeights }
+  | { type: 'fields'; fields: ForceField[] }
+  | { type: 'audio'; audio: AudioDrive | null }
+  | { type: 'pulse'; strength: number; scatter: number }
+  | { type: 'params'; params: Partial<SimulationParams> }
+  | { type: 'tick'; delta: number; buffer?: ArrayBuffer } // Transfer mode hands over the spent buffer
+  | { type: 'dispose' };
+
+// Simulation worker -> main thread
+export type SimulationResponse =
+  | { type: 'ready' }
+  | { type: 'frame'; rotation: number; buffer?: ArrayBuffer } // Transfer mode returns the filled buffer
+  | { type: 'assignment'; order: Uint32Array } // Which target each particle took, for reordering colors
+  | { type: 'patched'; particles: Uint32Array } // Which particle holds each patched target point
+  | { type: 'error'; message: string };
+
+export interface SimulationPort<Out> {
+  postMessage: (message: Out, transfer?: Transferable[]) => void;
+}
+
+export const post = <Out>(port: SimulationPort<Out>, message: Out, transfer: Transferable[] = []) => {
+  port.postMessage(message, transfer);
+};
@@ -0,0 +1,64 @@
+import { ParticleSimulation } from './ParticleSimulation';
+import { post, SimulationPort, SimulationRequest, SimulationResponse } from './protocol';
+
+const scope = self as unknown as SimulationPort<SimulationResponse> & {
+  onmessage: ((event: MessageEvent<SimulationRequest>) => void) | null;
+  close: () => void;
+};
+
+let simulation: ParticleSimulation | null = null;
+
+scope.onmessage = (event) => {
+  const msg = event.data;
+
+  try {
+    if (msg.type === 'init') {
+      const positions = msg.sharedPositions ? new Float32Array(msg.sharedPositions) : undefined;
+      simulation = new ParticleSimulation(msg.capacity, { seed: msg.seed, count: msg.count, params: msg.params, positions });
+      post(scope, { type: 'ready' });
+      return;
+    }
+
+    if (msg.type === 'dispose') {
+      simulation = null;
+      scope.close();
+      return;
+    }
+
+    if (!simulation) return;
+
+    if (msg.type === 'resize') {
+      simulation.resize(msg.count);
+    } else if (msg.type === 'targets') {
+      // The matching is O(n log n) over thousands of points, one reason it lives here
+      simulation.morphStyle = msg.morphStyle;
+      const order = simulation.setTargetPositions(msg.targets);
+      post(scope, { type: 'assignment', order }, [order.buffer]);
+    } else if (msg.type === 'patch') {
+      const particles = simulation.patchTargetPositions(msg.start, msg.targets);
+      post(scope, { type: 'patched', particles }, [particles.buffer]);
+    } else if (msg.type === 'behaviors') {
+      simulation.setBehaviors(msg.weights);
+    } else if (msg.type === 'fields') {
+      simulation.fields = msg.fields;
+    } else if (msg.type === 'audio') {
+      simulation.audio = msg.audio;
+    } else if (msg.type === 'pulse') {
+      simulation.pulse(msg.strength, msg.scatter);
+    } else if (msg.type === 'params') {
+      simulation.params = { ...simulation.params, ...msg.params };
+    } else if (msg.type === 'tick') {
+      simulation.advance(msg.delta);
+
+      if (msg.buffer) {
+        new Float32Array(msg.buffer).set(simulation.positions);
+        post(scope, { type: 'frame', rotation: simulation.rotation, buffer: msg.buffer }, [msg.buffer]);
+      } else {
+        // Shared mode: positions already live in shared memory
+        post(scope, { type: 'frame', rotation: simulation.rotation });
+      }
+    }
+  } catch (e) {
+    post(scope, { type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,308 @@
+import { Point3D } from '../types';
+import { AudioDrive, ForceField, packTargets, ParticleSimulation, SimulationParams } from './ParticleSimulation';
+import { post, SimulationRequest, SimulationResponse } from './protocol';
+import { MorphStyle, permuteTriplets } from './correspondence';
+import { BehaviorWeights } from './behaviors/types';
+
+export type SimulationDriverKind = 'main' | 'worker-shared' | 'worker-transfer';
+
+// Render-side handle on a running simulation, wherever it actually runs
+export interface SimulationDriver {
+  readonly kind: SimulationDriverKind;
+  readonly capacity: number;
+  readonly count: number;
+  readonly rotation: number;
+  readonly colorsVersion: number; // Bumped whenever the color render buffer changed
+  resize: (count: number) => void;
+  setTargets: (points: Point3D[], fallbackColor: [number, number, number], morphStyle?: MorphStyle) => void;
+  // Replace target points start..start+points.length, leaving the other particles alone
+  patchTargets: (start: number, points: Point3D[], fallbackColor: [number, number, number]) => void;
+  setBehaviors: (weights: BehaviorWeights) => void; // Cross-fades to the new mix
+  setFields: (fields: ForceField[]) => void;
+  setAudio: (audio: AudioDrive | null) => void;
+  pulse: (strength: number, scatter?: number) => void; // One-off kick outwards
+  setParams: (params: Partial<SimulationParams>) => void;
+  // Advance by a frame delta. Returns true when new positions were written to the render buffer.
+  tick: (delta: number) => boolean;
+  // Resolves once every step and re-targeting sent so far has landed in the render buffers,
+  // for frame-exact offline rendering
+  whenIdle: () => Promise<void>;
+  dispose: () => void;
+}
+
+export interface SimulationDriverOptions {
+  capacity: number; // Size of the render buffers in particles
+  count: number; // Initially active particles
+  seed: number;
+  positions: Float32Array; // Render buffer, kept up to date by the driver
+  colors: Float32Array; // Render buffer, written on every target change
+  preferWorker?: boolean;
+  onFallback?: (reason: string) => void;
+}
+
+const createMainThreadDriver = (options: SimulationDriverOptions, keepPositions = false): SimulationDriver => {
+  const { capacity, count, seed, positions, colors } = options;
+  const snapshot = keepPositions ? positions.slice() : null;
+  const simulation = new ParticleSimulation(capacity, { seed, count, positions, colors });
+  if (snapshot) positions.set(snapshot);
+  let colorsVersion = 0;
+
+  return {
+    kind: 'main',
+    capacity,
+    get count() {
+      return simulation.count;
+    },
+    resize: (next) => simulation.resize(next),
+    get rotation() {
+      return simulation.rotation;
+    },
+    get colorsVersion() {
+      return colorsVersion;
+    },
+    setTargets: (points, fallbackColor, morphStyle = 'nearest') => {
+      simulation.morphStyle = morphStyle;
+      simulation.setTargets(points, fallbackColor);
+      colorsVersion++;
+    },
+    patchTargets: (start, points, fallbackColor) => {
+      simulation.patchTargets(start, points, fallbackColor);
+      colorsVersion++;
+    },
+    setBehaviors: (weights) => simulation.setBehaviors(weights),
+    setFields: (fields) => {
+      simulation.fields = fields;
+    },
+    setAudio: (audio) => {
+      simulation.audio = audio;
+    },
+    pulse: (strength, scatter = 0) => simulation.pulse(strength, scatter),
+    setParams: (params) => {
+      simulation.params = { ...simulation.params, ...params };
+    },
+    tick: (delta) => simulation.advance(delta) > 0,
+    whenIdle: () => Promise.resolve(),
+    dispose: () => {},
+  };
+};
+
+const canUseWorker = () => typeof Worker !== 'undefined';
+
+// SharedArrayBuffer is only usable on cross-origin isolated pages
+const canShareMemory = () =>
+  typeof SharedArrayBuffer !== 'undefined' && (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated === true;
+
+// Runs the simulation in a dedicated worker and falls back to the main thread if the worker
+// cannot start or fails later. Last known targets/behaviors/fields are replayed on fallback.
+export const createSimulationDriver = (options: SimulationDriverOptions): SimulationDriver => {
+  const { capacity, seed, positions, colors, preferWorker = true, onFallback } = options;
+  let count = options.count;
+
+  if (!preferWorker || !canUseWorker()) return createMainThreadDriver(options);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    onFallback?.(e instanceof Error ? e.message : String(e));
+    return createMainThreadDriver(options);
+  }
+
+  const shared = canShareMemory();
+  const sharedPositions = shared ? new SharedArrayBuffer(capacity * 3 * Float32Array.BYTES_PER_ELEMENT) : undefined;
+  const sharedView = sharedPositions ? new Float32Array(sharedPositions) : null;
+
+  // Transfer mode ping-pongs one carrier buffer: while it is in the worker, we render the last copy
+  let carrier: ArrayBuffer | null = shared ? null : new ArrayBuffer(capacity * 3 * Float32Array.BYTES_PER_ELEMENT);
+
+  let fallback: SimulationDriver | null = null;
+  let inFlight = false;
+  let pendingDelta = 0;
+  let fresh = false;
+  let rotation = 0;
+  let colorsVersion = 0;
+  // Packed colors waiting for the worker to tell us which particle got which target
+  const pendingColors: Float32Array[] = [];
+  const pendingPatchColors: Float32Array[] = [];
+  let lastTargets: { points: Point3D[]; fallbackColor: [number, number, number]; morphStyle: MorphStyle } | null = null;
+  let lastBehaviors: BehaviorWeights | null = null;
+  let lastFields: ForceField[] = [];
+  let lastAudio: AudioDrive | null = null;
+  let lastParams: Partial<SimulationParams> = {};
+  let idleWaiters: (() => void)[] = [];
+
+  const isIdle = () => !inFlight && pendingColors.length === 0 && pendingPatchColors.length === 0;
+  const notifyIdle = () => {
+    if (!isIdle()) return;
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  const send = (message: SimulationRequest, transfer: Transferable[] = []) => post(worker, message, transfer);
+
+  const switchToMainThread = (reason: string) => {
+    if (fallback) return;
+    worker.terminate();
+    onFallback?.(reason);
+
+    fallback = createMainThreadDriver({ ...options, count }, true);
+    fallback.setParams(lastParams);
+    if (lastTargets) fallback.setTargets(lastTargets.points, lastTargets.fallbackColor, lastTargets.morphStyle);
+    if (lastBehaviors) fallback.setBehaviors(lastBehaviors);
+    fallback.setFields(lastFields);
+    fallback.setAudio(lastAudio);
+    // Nothing more is coming from the worker
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+    const msg = event.data;
+    if (msg.type === 'frame') {
+      inFlight = false;
+      rotation = msg.rotation;
+      if (msg.buffer) {
+        positions.set(new Float32Array(msg.buffer));
+        carrier = msg.buffer;
+      } else if (sharedView) {
+        positions.set(sharedView);
+      }
+      fresh = true;
+    } else if (msg.type === 'assignment') {
+      const packed = pendingColors.shift();
+      if (packed) {
+        permuteTriplets(packed, msg.order, colors);
+        colorsVersion++;
+      }
+    } else if (msg.type === 'patched') {
+      const packed = pendingPatchColors.shift();
+      if (packed) {
+        msg.particles.forEach((i, k) => {
+          colors[i * 3] = packed[k * 3];
+          colors[i * 3 + 1] = packed[k * 3 + 1];
+          colors[i * 3 + 2] = packed[k * 3 + 2];
+        });
+        colorsVersion++;
+      }
+    } else if (msg.type === 'error') {
+      switchToMainThread(msg.message);
+    }
+    notifyIdle();
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    switchToMainThread(event.message || 'Simulation worker failed');
+  };
+
+  // Seed the render buffer locally so the first frames show the same initial sphere
+  new ParticleSimulation(capacity, { seed, positions });
+  send({ type: 'init', capacity, count, seed, sharedPositions });
+
+  return {
+    get kind() {
+      return fallback ? fallback.kind : shared ? 'worker-shared' : 'worker-transfer';
+    },
+    capacity,
+    get count() {
+      return fallback ? fallback.count : count;
+    },
+    get rotation() {
+      return fallback ? fallback.rotation : rotation;
+    },
+    get colorsVersion() {
+      // Offset keeps the version moving forward across a fallback switch
+      return fallback ? colorsVersion + 1 + fallback.colorsVersion : colorsVersion;
+    },
+    resize: (next) => {
+      if (fallback) return fallback.resize(next);
+      count = Math.max(0, Math.min(Math.round(next), capacity));
+      send({ type: 'resize', count });
+    },
+    setTargets: (points, fallbackColor, morphStyle = 'nearest') => {
+      lastTargets = { points, fallbackColor, morphStyle };
+      if (fallback) return fallback.setTargets(points, fallbackColor, morphStyle);
+
+      // Colors stay on this side; they are reordered once the worker reports its matching
+      const packed = packTargets(points, count, fallbackColor);
+      pendingColors.push(packed.colors);
+      send({ type: 'targets', targets: packed.targets, morphStyle }, [packed.targets.buffer]);
+    },
+    patchTargets: (start, points, fallbackColor) => {
+      // Keep the replay copy current so a fallback restores the patched shape
+      if (lastTargets) {
+        const merged = lastTargets.points.slice();
+        points.forEach((p, k) => {
+          if (start + k < merged.length) merged[start + k] = p;
+        });
+        lastTargets = { ...lastTargets, points: merged };
+      }
+      if (fallback) return fallback.patchTargets(start, points, fallbackColor);
+
+      const n = Math.max(0, Math.min(points.length, count - start));
+      const packed = packTargets(points, n, fallbackColor);
+      pendingPatchColors.push(packed.colors);
+      send({ type: 'patch', start, targets: packed.targets }, [packed.targets.buffer]);
+    },
+    setBehaviors: (weights) => {
+      lastBehaviors = weights;
+      if (fallback) return fallback.setBehaviors(weights);
+      send({ type: 'behaviors', weights });
+    },
+    setFields: (fields) => {
+      // Called every frame; with no pointer or motion there is nothing new to post
+      const unchanged = fields.length === 0 && lastFields.length === 0;
+      lastFields = fields;
+      if (fallback) return fallback.setFields(fields);
+      if (!unchanged) send({ type: 'fields', fields });
+    },
+    setAudio: (audio) => {
+      lastAudio = audio;
+      if (fallback) return fallback.setAudio(audio);
+      send({ type: 'audio', audio });
+    },
+    pulse: (strength, scatter = 0) => {
+      if (fallback) return fallback.pulse(strength, scatter);
+      send({ type: 'pulse', strength, scatter });
+    },
+    setParams: (params) => {
+      lastParams = { ...lastParams, ...params };
+      if (fallback) return fallback.setParams(params);
+      send({ type: 'params', params });
+    },
+    tick: (delta) => {
+      if (fallback) return fallback.tick(delta);
+
+      pendingDelta += delta;
+      if (!inFlight) {
+        inFlight = true;
+        if (carrier) {
+          send({ type: 'tick', delta: pendingDelta, buffer: carrier }, [carrier]);
+          carrier = null;
+        } else {
+          send({ type: 'tick', delta: pendingDelta });
+        }
+        pendingDelta = 0;
+      }
+
+      const updated = fresh;
+      fresh = false;
+      return updated;
+    },
+    whenIdle: () => {
+      if (fallback) return fallback.whenIdle();
+      if (isIdle()) return Promise.resolve();
+      return new Promise<void>((resolve) => idleWaiters.push(resolve));
+    },
+    dispose: () => {
+      if (fallback) return fallback.dispose();
+      send({ type: 'dispose' });
+      worker.terminate();
+      inFlight = false;
+      pendingColors.length = 0;
+      pendingPatchColors.length = 0;
+      notifyIdle();
+    },
+  };
+};
@@ -1,6 +1,10 @@
 export enum AppMode {
   SCATTER = 'SCATTER',
-  FORM = 'FORM'
+  FORM = 'FORM',
+  SNOWFALL = 'SNOWFALL',
+  FIREWORKS = 'FIREWORKS',
+  GALAXY = 'GALAXY',
+  FLOCKING = 'FLOCKING'
 }
 
 export interface Point3D {
@@ -16,6 +20,84 @@ export interface ShapeDefinition {
   points: Point3D[];
   color?: string; // Fallback color
   description: string;
+  createSource?: (seed?: number) => ShapeSource; // Time-driven shapes; `points` is then only a snapshot
+  seed?: number; // Seed `points` were sampled with
+  generate?: ShapeGenerator; // Samples the shape again, so it can be rerolled with a new seed
 }
 
-export type ShapeGenerator = (count: number) => Point3D[];
\ No newline at end of file
+// `random` defaults to Math.random; pass a seeded one for reproducible points
+export type ShapeGenerator = (count: number, random?: () => number) => Point3D[];
+
+// Replacement for target points start..start+points.length
+export interface TargetPatch {
+  start: number;
+  points: Point3D[];
+}
+
+// A shape whose targets change over time, e.g. a countdown. `build` lays out all targets,
+// `update` returns only what changed since the last call so the rest stays put.
+export interface ShapeSource {
+  build: (count: number, now: number) => Point3D[];
+  update: (now: number) => TargetPatch[];
+  readonly mode: AppMode | null; // Overrides the user's mode while set
+}
+
+export type MotionRegionLabel =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Where the webcam saw motion, in normalized 0-1 coordinates mirrored to match the preview
+export interface MotionRegion {
+  centroid: { x: number; y: number };
+  bbox: { minX: number; minY: number; maxX: number; maxY: number };
+  dominantRegion: MotionRegionLabel;
+  coverage: number; // Fraction of pixels that moved
+}
+
+export type GestureLabel = 'OPEN_HAND' | 'FIST' | 'POINTING_UP' | 'NONE';
+
+export interface GestureResult {
+  gesture: GestureLabel;
+  confidence: number; // 0 to 1
+}
+
+// Continuous hand controls from the webcam, smoothed, alongside the discrete gestures
+export interface HandControls {
+  hands: number; // Hands tracked; 0 hands control nothing and the mouse takes over
+  pinch: number; // One hand: thumb-index gap relative to hand size, 0 closed to 1 wide open
+  orbit: number; // Radians: horizontal hand position plus roll (one hand), or the midpoint of two
+  stretch: number; // Two hands: their distance relative to where they started, 1 = unchanged
+}
+
+// Downscaled RGBA camera frame handed to gesture recognizers
+export interface VisionFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  timestamp: number;
+  toBase64Jpeg: () => string; // Lazily encodes a larger JPEG for cloud models
+}
+
+export type GestureRecognizerId = 'local' | 'ai';
+
+export interface GestureRecognizer {
+  id: GestureRecognizerId;
+  label: string;
+  frameIntervalMs: number; // How often the webcam should deliver frames
+  recognize: (frame: VisionFrame) => Promise<GestureResult>;
+  reset?: () => void;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+// Backend for the AI features. Shape replies are raw and unvalidated (see services/shapePipeline.ts);
+// HTTP failures are thrown as AIProviderError, anything else as-is.
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isConfigured: () => boolean; // False when a key or endpoint is missing
+  requestShapeDocument: (prompt: string) => Promise<unknown>; // A shape DSL document
+  requestShapeChunk: (prompt: string, chunk: number, chunks: number, pointCount: number) => Promise<unknown>; // { points }
+  classifyGesture: (frame: VisionFrame) => Promise<GestureResult>;
+}
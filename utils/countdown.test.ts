@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { CountdownSource, createCountdownShape } from './countdown';
+import { createRandom } from './random';
+
+const OPTIONS = { id: 'test', name: 'Test', target: new Date(2030, 0, 1), greeting: 'Hi' };
+const NOW = new Date(2029, 11, 31, 23, 59, 50).getTime();
+// Four seconds after the target the finale is showing firework bursts
+const FINALE = OPTIONS.target.getTime() + 4000;
+
+describe('CountdownSource', () => {
+  it('builds the same digits and fireworks for the same seed', () => {
+    for (const now of [NOW, FINALE]) {
+      expect(new CountdownSource(OPTIONS, 7).build(1000, now)).toEqual(new CountdownSource(OPTIONS, 7).build(1000, now));
+    }
+  });
+
+  it('builds different layouts for different seeds', () => {
+    for (const now of [NOW, FINALE]) {
+      expect(new CountdownSource(OPTIONS, 7).build(1000, now)).not.toEqual(new CountdownSource(OPTIONS, 8).build(1000, now));
+    }
+  });
+
+  it('records a seed and a seeded generator on the shape', () => {
+    const shape = createCountdownShape(OPTIONS, 5);
+    expect(shape.seed).toBe(5);
+    expect(shape.generate!(500, createRandom(3))).toEqual(shape.generate!(500, createRandom(3)));
+  });
+});
@@ -0,0 +1,287 @@
+import { AppMode, Point3D, ShapeDefinition, ShapeSource, TargetPatch } from '../types';
+import { generateTextPoints } from './math';
+import { createRandom, RandomFn } from './random';
+
+export interface CountdownOptions {
+  id: string;
+  name: string;
+  target: Date;
+  greeting: string; // Shown after the finale; "|" starts a new line
+}
+
+// Finale timeline, in ms after the target time
+const FINALE_SCATTER_MS = 2500;
+const FINALE_BURST_MS = 1500;
+const FINALE_BURSTS = 4;
+const FINALE_GREETING_MS = FINALE_SCATTER_MS + FINALE_BURST_MS * FINALE_BURSTS;
+
+const SNAPSHOT_COUNT = 2000;
+
+// Seven-segment layout: a top, b top-right, c bottom-right, d bottom, e bottom-left, f top-left, g middle
+const DIGIT_WIDTH = 0.6;
+const DIGIT_HEIGHT = 1.0;
+const SEGMENTS: Record<string, [number, number, number, number]> = {
+  a: [-0.5, 0.5, 0.5, 0.5],
+  b: [0.5, 0.5, 0.5, 0],
+  c: [0.5, 0, 0.5, -0.5],
+  d: [-0.5, -0.5, 0.5, -0.5],
+  e: [-0.5, 0, -0.5, -0.5],
+  f: [-0.5, 0.5, -0.5, 0],
+  g: [-0.5, 0, 0.5, 0],
+};
+const DIGIT_SEGMENTS = ['abcdef', 'bc', 'abdeg', 'abcdg', 'bcfg', 'acdfg', 'acdefg', 'abc', 'abcdefg', 'abcdfg'];
+
+// Days on the top row, HH:MM:SS below; everything scaled into the shared ±1.5 box
+const LAYOUT_SCALE = 0.55;
+const DIGIT_ADVANCE = 0.8;
+const COLON_ADVANCE = 0.45;
+
+type Color3 = [number, number, number];
+
+interface Slot {
+  kind: 'digit' | 'colon';
+  x: number;
+  y: number;
+  color: Color3;
+  digit: number; // Index into the countdown string, digits only
+}
+
+const buildSlots = (): Slot[] => {
+  const slots: Slot[] = [];
+  const days: Color3 = [1, 0.8, 0.3];
+  const clock: Color3 = [0.95, 0.2, 0.25];
+  const seconds: Color3 = [0.3, 0.95, 0.5];
+  const colon: Color3 = [1, 1, 1];
+
+  [-1, 0, 1].forEach((k, i) => slots.push({ kind: 'digit', x: k * DIGIT_ADVANCE, y: 0.75, color: days, digit: i }));
+
+  const row = 'dd:dd:dd';
+  const width = [...row].reduce((w, ch) => w + (ch === ':' ? COLON_ADVANCE : DIGIT_ADVANCE), 0);
+  let x = -width / 2;
+  let digit = 3;
+  for (const ch of row) {
+    const advance = ch === ':' ? COLON_ADVANCE : DIGIT_ADVANCE;
+    if (ch === ':') {
+      slots.push({ kind: 'colon', x: x + advance / 2, y: -0.65, color: colon, digit: -1 });
+    } else {
+      slots.push({ kind: 'digit', x: x + advance / 2, y: -0.65, color: digit >= 7 ? seconds : clock, digit });
+      digit++;
+    }
+    x += advance;
+  }
+
+  return slots.map(s => ({ ...s, x: s.x * LAYOUT_SCALE, y: s.y * LAYOUT_SCALE }));
+};
+
+const SLOTS = buildSlots();
+
+const jitter = (amount: number, random: RandomFn) => (random() - 0.5) * amount;
+
+const shade = (color: Color3, random: RandomFn): Color3 => {
+  const k = 0.85 + random() * 0.3;
+  return [Math.min(1, color[0] * k), Math.min(1, color[1] * k), Math.min(1, color[2] * k)];
+};
+
+const slotPoints = (slot: Slot, value: string, count: number, random: RandomFn): Point3D[] => {
+  const points: Point3D[] = [];
+  const s = LAYOUT_SCALE;
+
+  if (slot.kind === 'colon') {
+    for (let i = 0; i < count; i++) {
+      const r = Math.sqrt(random()) * 0.07;
+      const a = random() * Math.PI * 2;
+      points.push({
+        x: slot.x + Math.cos(a) * r * s,
+        y: slot.y + ((i % 2 ? 0.22 : -0.22) + Math.sin(a) * r) * s,
+        z: jitter(0.1, random) * s,
+        color: shade(slot.color, random),
+      });
+    }
+    return points;
+  }
+
+  const lit = [...DIGIT_SEGMENTS[Number(value[slot.digit])]];
+  for (let i = 0; i < count; i++) {
+    const [x0, y0, x1, y1] = SEGMENTS[lit[Math.floor(random() * lit.length)]];
+    const t = random();
+    points.push({
+      x: slot.x + ((x0 + (x1 - x0) * t) * DIGIT_WIDTH + jitter(0.12, random)) * s,
+      y: slot.y + ((y0 + (y1 - y0) * t) * DIGIT_HEIGHT + jitter(0.12, random)) * s,
+      z: jitter(0.12, random) * s,
+      color: shade(slot.color, random),
+    });
+  }
+  return points;
+};
+
+// A handful of spherical shells at random spots, each in its own color
+const burstPoints = (count: number, random: RandomFn): Point3D[] => {
+  const shells = Array.from({ length: 3 }, () => ({
+    x: jitter(2.4, random),
+    y: jitter(1.6, random),
+    radius: 0.4 + random() * 0.4,
+    color: [random(), random(), random()].map(c => 0.4 + c * 0.6) as Color3,
+  }));
+
+  const points: Point3D[] = [];
+  for (let i = 0; i < count; i++) {
+    const shell = shells[i % shells.length];
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+    // Most sparks on the shell, some trailing inside
+    const r = shell.radius * (random() < 0.8 ? 1 : Math.pow(random(), 0.3));
+    points.push({
+      x: shell.x + r * Math.sin(phi) * Math.cos(theta),
+      y: shell.y + r * Math.sin(phi) * Math.sin(theta),
+      z: r * Math.cos(phi),
+      color: shade(shell.color, random),
+    });
+  }
+  return points;
+};
+
+// Remaining time as DDDHHMMSS, clamped at 999 days
+const countdownDigits = (remainingMs: number) => {
+  const total = Math.max(0, Math.ceil(remainingMs / 1000));
+  const days = Math.min(999, Math.floor(total / 86400));
+  const pad = (v: number, n: number) => String(v).padStart(n, '0');
+  return pad(days, 3) + pad(Math.floor(total / 3600) % 24, 2) + pad(Math.floor(total / 60) % 60, 2) + pad(total % 60, 2);
+};
+
+type Phase = 'count' | 'scatter' | 'fireworks' | 'greeting';
+
+// Countdown display. Every slot (digit or colon) owns a fixed range of target points, so each
+// second only the ranges of digits that changed are patched. At zero a scripted finale runs:
+// scatter, a few firework bursts, then the greeting. The seed makes every layout reproducible:
+// the same seed, count and time give the same points.
+export class CountdownSource implements ShapeSource {
+  private readonly options: CountdownOptions;
+  private readonly seed: number;
+  private random: RandomFn;
+  private ranges: { start: number; count: number }[] = [];
+  private count = 0;
+  private phase: Phase = 'count';
+  private shown = ''; // Digits or finale step currently on display
+  private greeting: Point3D[] | null = null;
+
+  constructor(options: CountdownOptions, seed = 1) {
+    this.options = options;
+    this.seed = seed;
+    this.random = createRandom(seed);
+  }
+
+  get mode(): AppMode | null {
+    if (this.phase === 'scatter') return AppMode.SCATTER;
+    if (this.phase === 'fireworks') return AppMode.FORM;
+    return null;
+  }
+
+  build(count: number, now: number): Point3D[] {
+    this.count = count;
+    this.greeting = null;
+    this.random = createRandom(this.seed);
+
+    // Colons get a smaller share than digits
+    const weights = SLOTS.map(s => (s.kind === 'colon' ? 0.3 : 1));
+    const total = weights.reduce((a, b) => a + b, 0);
+    let start = 0;
+    let acc = 0;
+    this.ranges = weights.map(w => {
+      acc += w;
+      const end = Math.round((acc / total) * count);
+      const range = { start, count: end - start };
+      start = end;
+      return range;
+    });
+
+    this.shown = '';
+    const [step, points] = this.render(now);
+    this.shown = step;
+    return points;
+  }
+
+  update(now: number): TargetPatch[] {
+    if (this.count === 0) return [];
+    const elapsed = now - this.options.target.getTime();
+
+    if (elapsed < 0) {
+      const digits = countdownDigits(-elapsed);
+      if (digits === this.shown) return [];
+      const previous = this.shown;
+      this.phase = 'count';
+      this.shown = digits;
+
+      // Only the digits that changed; colons never do
+      const patches: TargetPatch[] = [];
+      SLOTS.forEach((slot, i) => {
+        if (slot.kind !== 'digit' || previous[slot.digit] === digits[slot.digit]) return;
+        patches.push({ start: this.ranges[i].start, points: slotPoints(slot, digits, this.ranges[i].count, this.random) });
+      });
+      return patches;
+    }
+
+    const step = this.finaleStep(elapsed);
+    if (step === this.shown) return [];
+    const [, points] = this.render(now);
+    this.shown = step;
+    return points.length > 0 ? [{ start: 0, points }] : [];
+  }
+
+  private finaleStep(elapsed: number) {
+    if (elapsed < FINALE_SCATTER_MS) return 'scatter';
+    if (elapsed < FINALE_GREETING_MS) return `fireworks-${Math.floor((elapsed - FINALE_SCATTER_MS) / FINALE_BURST_MS)}`;
+    return 'greeting';
+  }
+
+  // Full target set for the given time, with the key of what it shows.
+  // Scatter keeps the current targets, so it returns no points after the first build.
+  private render(now: number): [string, Point3D[]] {
+    const elapsed = now - this.options.target.getTime();
+    const zeros = countdownDigits(0);
+
+    if (elapsed < 0) {
+      this.phase = 'count';
+      const digits = countdownDigits(-elapsed);
+      return [digits, this.layout(digits)];
+    }
+
+    const step = this.finaleStep(elapsed);
+    if (step === 'scatter') {
+      this.phase = 'scatter';
+      return [step, this.shown ? [] : this.layout(zeros)];
+    }
+    if (step.startsWith('fireworks')) {
+      this.phase = 'fireworks';
+      return [step, burstPoints(this.count, this.random)];
+    }
+
+    this.phase = 'greeting';
+    if (!this.greeting) this.greeting = generateTextPoints(this.options.greeting, this.count, {}, this.random);
+    return [step, this.greeting.length > 0 ? this.greeting : this.layout(zeros)];
+  }
+
+  private layout(digits: string): Point3D[] {
+    return SLOTS.flatMap((slot, i) => slotPoints(slot, digits, this.ranges[i].count, this.random));
+  }
+}
+
+// Next local midnight of month/day (0-based month), or today if that is the day itself
+export const nextOccurrence = (month: number, day: number, now = new Date()) => {
+  const date = new Date(now.getFullYear(), month, day);
+  const dayAfter = new Date(now.getFullYear(), month, day + 1);
+  if (now >= dayAfter) date.setFullYear(now.getFullYear() + 1);
+  return date;
+};
+
+// `points` is a snapshot of the current layout; rerolling re-samples it and seeds new sources
+export const createCountdownShape = (options: CountdownOptions, seed = 1): ShapeDefinition => ({
+  id: options.id,
+  name: options.name,
+  points: new CountdownSource(options, seed).build(SNAPSHOT_COUNT, Date.now()),
+  color: '#ffffff',
+  description: `Counting down to ${options.target.toLocaleDateString()}`,
+  seed,
+  generate: (count, random = Math.random) =>
+    new CountdownSource(options, Math.floor(random() * 0xffffffff)).build(count, Date.now()),
+  createSource: (sourceSeed = seed) => new CountdownSource(options, sourceSeed),
+});
@@ -0,0 +1,14 @@
+// Save a blob through a temporary link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke later; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// A shape or scene name as a file name
+export const fileSlug = (name: string, fallback = 'shape') =>
+  name.replace(/[^\w-]+/g, '-').toLowerCase() || fallback;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { GestureLabel } from '../types';
+import { GestureEvent, GestureStateMachine } from './gestureStateMachine';
+
+const FRAME_MS = 33;
+
+// Feed one frame per label (optionally with a confidence), returning every event in order
+const feed = (machine: GestureStateMachine, frames: (GestureLabel | [GestureLabel, number])[], start = 0) => {
+  const events: GestureEvent[] = [];
+  frames.forEach((frame, i) => {
+    const [gesture, confidence] = Array.isArray(frame) ? frame : [frame, 0.9];
+    events.push(...machine.push({ gesture, confidence, timestamp: start + i * FRAME_MS }));
+  });
+  return events;
+};
+
+const repeat = <T,>(value: T, times: number): T[] => Array(times).fill(value);
+
+describe('GestureStateMachine', () => {
+  it('ignores a single misread frame', () => {
+    const machine = new GestureStateMachine();
+    const events = feed(machine, ['NONE', 'FIST', 'NONE', 'NONE', 'OPEN_HAND', 'NONE']);
+    expect(events).toEqual([]);
+    expect(machine.current).toBe('NONE');
+  });
+
+  it('keeps an active gesture through a single dropped frame', () => {
+    const machine = new GestureStateMachine();
+    const events = feed(machine, [...repeat<GestureLabel>('FIST', 4), 'OPEN_HAND', ['FIST', 0.45], 'FIST']);
+    expect(events.map((event) => event.type)).toEqual(['enter']);
+    expect(machine.current).toBe('FIST');
+  });
+
+  it('enters after enough frames, holds, then exits', () => {
+    const machine = new GestureStateMachine({ holdIntervalMs: 100 });
+    const events = feed(machine, [...repeat<GestureLabel>('FIST', 14), ...repeat<GestureLabel>('NONE', 3)]);
+    expect(events.map((event) => event.type)).toEqual(['enter', 'hold', 'hold', 'exit']);
+    expect(events[0]).toMatchObject({ gesture: 'FIST', timestamp: 3 * FRAME_MS });
+    expect(events[3]).toMatchObject({ gesture: 'FIST', timestamp: 16 * FRAME_MS, durationMs: 13 * FRAME_MS });
+    expect(machine.current).toBe('NONE');
+  });
+
+  it('hands over from one gesture to the next with an exit before the enter', () => {
+    const machine = new GestureStateMachine();
+    const events = feed(machine, [...repeat<GestureLabel>('FIST', 4), ...repeat<GestureLabel>('OPEN_HAND', 4)]);
+    expect(events.map((event) => [event.type, event.gesture])).toEqual([
+      ['enter', 'FIST'],
+      ['exit', 'FIST'],
+      ['enter', 'OPEN_HAND'],
+    ]);
+  });
+
+  it('does not repeat a one-shot gesture within its cooldown', () => {
+    const machine = new GestureStateMachine({ cooldownMs: { POINTING_UP: 1500 } });
+    const point = [...repeat<GestureLabel>('POINTING_UP', 4), ...repeat<GestureLabel>('NONE', 3)];
+    const first = feed(machine, point, 0);
+    expect(first.map((event) => event.type)).toEqual(['enter', 'exit']);
+
+    // Pointing again right away is tracked but not reported
+    const second = feed(machine, point, 500);
+    expect(second).toEqual([]);
+
+    const third = feed(machine, point, 2000);
+    expect(third.map((event) => event.type)).toEqual(['enter', 'exit']);
+  });
+});
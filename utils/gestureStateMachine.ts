@@ -0,0 +1,114 @@
+import { GestureLabel, GestureResult } from '../types';
+
+export interface GestureSample extends GestureResult {
+  timestamp: number; // ms
+}
+
+export type GestureEvent =
+  | { type: 'enter'; gesture: GestureLabel; confidence: number; timestamp: number }
+  | { type: 'hold'; gesture: GestureLabel; confidence: number; timestamp: number; durationMs: number }
+  | { type: 'exit'; gesture: GestureLabel; timestamp: number; durationMs: number };
+
+export interface GestureStateConfig {
+  enterFrames: number; // Consecutive confident frames before a gesture becomes active
+  exitFrames: number; // Consecutive non-matching frames before it is released
+  enterConfidence: number;
+  holdConfidence: number; // Lower bar while already active (hysteresis)
+  holdIntervalMs: number; // Cadence of 'hold' events
+  cooldownMs: Partial<Record<GestureLabel, number>>; // Minimum time between two 'enter' events of one gesture
+}
+
+export const DEFAULT_GESTURE_STATE_CONFIG: GestureStateConfig = {
+  enterFrames: 4,
+  exitFrames: 3,
+  enterConfidence: 0.6,
+  holdConfidence: 0.4,
+  holdIntervalMs: 500,
+  cooldownMs: { POINTING_UP: 1500 },
+};
+
+// Turns noisy per-frame classifications into stable enter/hold/exit events
+export class GestureStateMachine {
+  private config: GestureStateConfig;
+  private active: GestureLabel = 'NONE';
+  private activeSince = 0;
+  private lastHoldAt = 0;
+  private silent = false; // Activated during a cooldown: tracked but not reported
+  private missFrames = 0;
+  private candidate: GestureLabel = 'NONE';
+  private candidateFrames = 0;
+  private lastEnterAt = new Map<GestureLabel, number>();
+
+  constructor(config: Partial<GestureStateConfig> = {}) {
+    this.config = { ...DEFAULT_GESTURE_STATE_CONFIG, ...config };
+  }
+
+  get current(): GestureLabel {
+    return this.silent ? 'NONE' : this.active;
+  }
+
+  push(sample: GestureSample): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    const { enterFrames, exitFrames, enterConfidence, holdConfidence, holdIntervalMs } = this.config;
+    const { gesture, confidence, timestamp } = sample;
+
+    // Track a candidate independently so a new gesture can take over as soon as the old one lets go
+    if (gesture !== 'NONE' && confidence >= enterConfidence) {
+      if (gesture === this.candidate) this.candidateFrames++;
+      else {
+        this.candidate = gesture;
+        this.candidateFrames = 1;
+      }
+    } else {
+      this.candidate = 'NONE';
+      this.candidateFrames = 0;
+    }
+
+    if (this.active !== 'NONE') {
+      if (gesture === this.active && confidence >= holdConfidence) {
+        this.missFrames = 0;
+        if (!this.silent && timestamp - this.lastHoldAt >= holdIntervalMs) {
+          this.lastHoldAt = timestamp;
+          events.push({ type: 'hold', gesture, confidence, timestamp, durationMs: timestamp - this.activeSince });
+        }
+        return events;
+      }
+
+      this.missFrames++;
+      if (this.missFrames < exitFrames) return events;
+
+      if (!this.silent) {
+        events.push({ type: 'exit', gesture: this.active, timestamp, durationMs: timestamp - this.activeSince });
+      }
+      this.active = 'NONE';
+      this.silent = false;
+    }
+
+    if (this.candidate !== 'NONE' && this.candidateFrames >= enterFrames) {
+      const cooldown = this.config.cooldownMs[this.candidate] ?? 0;
+      const lastEnter = this.lastEnterAt.get(this.candidate);
+
+      this.active = this.candidate;
+      this.activeSince = timestamp;
+      this.lastHoldAt = timestamp;
+      this.missFrames = 0;
+      this.silent = lastEnter !== undefined && timestamp - lastEnter < cooldown;
+
+      if (!this.silent) {
+        this.lastEnterAt.set(this.active, timestamp);
+        events.push({ type: 'enter', gesture: this.active, confidence, timestamp });
+      }
+    }
+
+    return events;
+  }
+
+  reset() {
+    this.active = 'NONE';
+    this.silent = false;
+    this.missFrames = 0;
+    this.candidate = 'NONE';
+    this.candidateFrames = 0;
+    this.lastEnterAt.clear();
+  }
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GestureResult } from '../types';
+import { createRandom } from './random';
+import { analyzeHandFrame, isSkin, luma, RasterFrame } from './handAnalysis';
+
+// Fixtures are hand silhouettes at half the vision resolution (80x60), '#' for skin.
+// They are painted at 160x120 with sensor-like noise over a dim room.
+const SCALE = 2;
+const SKIN: [number, number, number] = [205, 150, 125];
+const ROOM: [number, number, number] = [60, 70, 80];
+const NOISE = 12;
+
+const loadFrame = (name: string, seed = 1): RasterFrame => {
+  const rows = readFileSync(new URL(`./__fixtures__/hands/${name}.txt`, import.meta.url), 'utf8').trimEnd().split('\n');
+  const width = rows[0].length * SCALE;
+  const height = rows.length * SCALE;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const random = createRandom(seed);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = rows[Math.floor(y / SCALE)][Math.floor(x / SCALE)] === '#' ? SKIN : ROOM;
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) data[i + c] = color[c] + (random() - 0.5) * NOISE;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const classify = (name: string, seed?: number): GestureResult => analyzeHandFrame(loadFrame(name, seed)).result;
+
+describe('analyzeHandFrame', () => {
+  it('paints fixtures the skin model accepts', () => {
+    expect(isSkin(...SKIN)).toBe(true);
+    expect(isSkin(...ROOM)).toBe(false);
+  });
+
+  it.each([
+    ['open-hand', 'OPEN_HAND'],
+    ['fist', 'FIST'],
+    ['pointing-up', 'POINTING_UP'],
+    ['none', 'NONE'],
+  ] as const)('classifies %s as %s', (name, gesture) => {
+    for (const seed of [1, 2, 3]) {
+      const result = classify(name, seed);
+      expect(result.gesture).toBe(gesture);
+      if (gesture !== 'NONE') expect(result.confidence).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('ignores a hand that is part of the background', () => {
+    const frame = loadFrame('open-hand');
+    const { data } = frame;
+    const background = new Float32Array(frame.width * frame.height);
+    for (let i = 0; i < background.length; i++) background[i] = luma(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    expect(analyzeHandFrame(frame, background).result.gesture).toBe('NONE');
+  });
+});
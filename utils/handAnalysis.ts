@@ -0,0 +1,478 @@
+import { GestureResult } from '../types';
+
+// Minimal RGBA raster, satisfied by ImageData, VisionFrame and recorded fixtures
+export interface RasterFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface HandBlob {
+  label: number;
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  centroid: PixelPoint;
+}
+
+export interface ConvexityDefect {
+  start: PixelPoint;
+  end: PixelPoint;
+  far: PixelPoint;
+  depth: number;
+  angle: number; // Radians at the far point
+}
+
+export interface HandFeatures {
+  blob: HandBlob;
+  contour: PixelPoint[];
+  hull: PixelPoint[];
+  defects: ConvexityDefect[];
+  fingerGaps: number;
+  solidity: number; // Blob area / hull area
+  aspect: number; // Bounding box height / width
+  topWidthRatio: number; // Width of the top slice of the blob relative to its bounding box
+}
+
+export interface HandAnalysis {
+  mask: Uint8Array;
+  features: HandFeatures | null;
+  result: GestureResult;
+}
+
+export interface HandAnalysisOptions {
+  minAreaRatio: number; // Blobs smaller than this fraction of the frame are ignored
+  maxAreaRatio: number; // Blobs larger than this are probably lighting, not a hand
+  foregroundThreshold: number; // Luma difference from the background model
+  defectDepthRatio: number; // Defect depth relative to the blob size to count as a finger gap
+  defectMaxAngle: number;
+}
+
+export const DEFAULT_HAND_OPTIONS: HandAnalysisOptions = {
+  minAreaRatio: 0.02,
+  maxAreaRatio: 0.6,
+  foregroundThreshold: 18,
+  defectDepthRatio: 0.12,
+  defectMaxAngle: Math.PI * 0.55,
+};
+
+const NO_GESTURE: GestureResult = { gesture: 'NONE', confidence: 0 };
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Classic YCbCr skin box, tolerant enough for most webcams and skin tones
+export const isSkin = (r: number, g: number, b: number) => {
+  const y = luma(r, g, b);
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cr > 135 && cr < 180 && cb > 85 && cb < 135;
+};
+
+// Skin mask, optionally restricted to pixels that differ from a luma background model
+export const segmentHand = (
+  frame: RasterFrame,
+  background: Float32Array | null,
+  options: HandAnalysisOptions = DEFAULT_HAND_OPTIONS
+): Uint8Array => {
+  const { width, height, data } = frame;
+  const raw = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    if (!isSkin(r, g, b)) continue;
+    if (background && Math.abs(luma(r, g, b) - background[i]) < options.foregroundThreshold) continue;
+    raw[i] = 1;
+  }
+
+  // Morphological opening (3x3 erode then dilate) removes speckle noise
+  return dilate(erode(raw, width, height), width, height);
+};
+
+const erode = (mask: Uint8Array, width: number, height: number) => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let keep = 1;
+      for (let dy = -1; dy <= 1 && keep; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (!mask[(y + dy) * width + x + dx]) { keep = 0; break; }
+        }
+      }
+      out[y * width + x] = keep;
+    }
+  }
+  return out;
+};
+
+const dilate = (mask: Uint8Array, width: number, height: number) => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// 4-connected component labelling. Returns blobs sorted by area, largest first.
+export const findBlobs = (mask: Uint8Array, width: number, height: number) => {
+  const labels = new Int32Array(mask.length);
+  const blobs: HandBlob[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = blobs.length + 1;
+    let area = 0, sumX = 0, sumY = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      area++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      if (x > 0 && mask[idx - 1] && !labels[idx - 1]) { labels[idx - 1] = label; stack.push(idx - 1); }
+      if (x < width - 1 && mask[idx + 1] && !labels[idx + 1]) { labels[idx + 1] = label; stack.push(idx + 1); }
+      if (y > 0 && mask[idx - width] && !labels[idx - width]) { labels[idx - width] = label; stack.push(idx - width); }
+      if (y < height - 1 && mask[idx + width] && !labels[idx + width]) { labels[idx + width] = label; stack.push(idx + width); }
+    }
+
+    blobs.push({ label, area, minX, minY, maxX, maxY, centroid: { x: sumX / area, y: sumY / area } });
+  }
+
+  blobs.sort((a, b) => b.area - a.area);
+  return { labels, blobs };
+};
+
+// Clockwise 8-neighbourhood, screen coordinates (y down)
+const DIRS: [number, number][] = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+
+const dirIndex = (dx: number, dy: number) => DIRS.findIndex(([x, y]) => x === dx && y === dy);
+
+// Moore-neighbour boundary tracing of a single labelled blob
+export const traceContour = (labels: Int32Array, width: number, height: number, blob: HandBlob): PixelPoint[] => {
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === blob.label;
+
+  // Topmost-leftmost pixel; we arrived at it from the west
+  let sx = -1, sy = -1;
+  for (let y = blob.minY; y <= blob.maxY && sx < 0; y++) {
+    for (let x = blob.minX; x <= blob.maxX; x++) {
+      if (inside(x, y)) { sx = x; sy = y; break; }
+    }
+  }
+  if (sx < 0) return [];
+
+  const contour: PixelPoint[] = [{ x: sx, y: sy }];
+  let cx = sx, cy = sy;
+  let back = 4;
+  const maxSteps = blob.area * 4 + 8;
+
+  for (let step = 0; step < maxSteps; step++) {
+    let found = -1;
+    for (let k = 1; k <= 8; k++) {
+      const d = (back + k) % 8;
+      if (inside(cx + DIRS[d][0], cy + DIRS[d][1])) { found = d; break; }
+    }
+    if (found < 0) break; // Isolated pixel
+
+    // New backtrack: the last empty neighbour we checked, seen from the new pixel
+    const prev = DIRS[(found + 7) % 8];
+    const nx = cx + DIRS[found][0];
+    const ny = cy + DIRS[found][1];
+    back = dirIndex(cx + prev[0] - nx, cy + prev[1] - ny);
+    if (back < 0) back = (found + 4) % 8;
+    cx = nx;
+    cy = ny;
+
+    if (cx === sx && cy === sy) break;
+    contour.push({ x: cx, y: cy });
+  }
+
+  return contour;
+};
+
+const cross = (o: PixelPoint, a: PixelPoint, b: PixelPoint) =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain. Returns indices into the input array.
+export const convexHullIndices = (points: PixelPoint[]): number[] => {
+  if (points.length < 3) return points.map((_, i) => i);
+
+  const order = points.map((_, i) => i).sort((a, b) => points[a].x - points[b].x || points[a].y - points[b].y);
+  const lower: number[] = [];
+  for (const i of order) {
+    while (lower.length >= 2 && cross(points[lower[lower.length - 2]], points[lower[lower.length - 1]], points[i]) <= 0) lower.pop();
+    lower.push(i);
+  }
+  const upper: number[] = [];
+  for (let k = order.length - 1; k >= 0; k--) {
+    const i = order[k];
+    while (upper.length >= 2 && cross(points[upper[upper.length - 2]], points[upper[upper.length - 1]], points[i]) <= 0) upper.pop();
+    upper.push(i);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+};
+
+export const polygonArea = (points: PixelPoint[]) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+// For every hull edge, the contour point that dips furthest inside it
+export const convexityDefects = (contour: PixelPoint[], hullIndices: number[]): ConvexityDefect[] => {
+  const defects: ConvexityDefect[] = [];
+  const sorted = [...hullIndices].sort((a, b) => a - b);
+  const n = contour.length;
+
+  for (let h = 0; h < sorted.length; h++) {
+    const startIdx = sorted[h];
+    const endIdx = sorted[(h + 1) % sorted.length];
+    const span = (endIdx - startIdx + n) % n;
+    if (span < 2) continue;
+
+    const start = contour[startIdx];
+    const end = contour[endIdx];
+    const edgeLen = Math.hypot(end.x - start.x, end.y - start.y);
+    if (edgeLen === 0) continue;
+
+    let depth = 0;
+    let far = start;
+    for (let k = 1; k < span; k++) {
+      const p = contour[(startIdx + k) % n];
+      const d = Math.abs(cross(start, end, p)) / edgeLen;
+      if (d > depth) { depth = d; far = p; }
+    }
+    if (depth === 0) continue;
+
+    const ax = start.x - far.x, ay = start.y - far.y;
+    const bx = end.x - far.x, by = end.y - far.y;
+    const denom = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    const angle = denom > 0 ? Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / denom))) : Math.PI;
+
+    defects.push({ start, end, far, depth, angle });
+  }
+
+  return defects;
+};
+
+export const extractHandFeatures = (
+  labels: Int32Array,
+  width: number,
+  height: number,
+  blob: HandBlob,
+  options: HandAnalysisOptions = DEFAULT_HAND_OPTIONS
+): HandFeatures | null => {
+  const contour = traceContour(labels, width, height, blob);
+  if (contour.length < 8) return null;
+
+  const hullIdx = convexHullIndices(contour);
+  const hull = hullIdx.map(i => contour[i]);
+  const hullArea = polygonArea(hull);
+  const defects = convexityDefects(contour, hullIdx);
+
+  const boxW = blob.maxX - blob.minX + 1;
+  const boxH = blob.maxY - blob.minY + 1;
+  const size = Math.max(boxW, boxH);
+  const fingerGaps = defects.filter(d => d.depth > size * options.defectDepthRatio && d.angle < options.defectMaxAngle).length;
+
+  // How wide is the blob across its top fifth? A raised finger is narrow there.
+  const sliceEnd = blob.minY + Math.max(1, Math.round(boxH * 0.2));
+  let sliceMin = blob.maxX, sliceMax = blob.minX;
+  for (let y = blob.minY; y < sliceEnd; y++) {
+    for (let x = blob.minX; x <= blob.maxX; x++) {
+      if (labels[y * width + x] !== blob.label) continue;
+      if (x < sliceMin) sliceMin = x;
+      if (x > sliceMax) sliceMax = x;
+    }
+  }
+  const topWidthRatio = sliceMax >= sliceMin ? (sliceMax - sliceMin + 1) / boxW : 1;
+
+  return {
+    blob,
+    contour,
+    hull,
+    defects,
+    fingerGaps,
+    solidity: hullArea > 0 ? Math.min(1, blob.area / hullArea) : 1,
+    aspect: boxH / boxW,
+    topWidthRatio,
+  };
+};
+
+export const classifyHandFeatures = (features: HandFeatures | null): GestureResult => {
+  if (!features) return NO_GESTURE;
+  const { fingerGaps, solidity, aspect, topWidthRatio } = features;
+
+  // Three or more deep valleys between fingers: spread hand
+  if (fingerGaps >= 3) {
+    return { gesture: 'OPEN_HAND', confidence: clamp01(0.6 + 0.1 * (fingerGaps - 3) + (0.8 - solidity) * 0.5) };
+  }
+
+  // Tall blob with a narrow top: a single raised finger
+  if (fingerGaps <= 2 && aspect > 1.2 && topWidthRatio < 0.45) {
+    return { gesture: 'POINTING_UP', confidence: clamp01(0.5 + (0.45 - topWidthRatio) + (aspect - 1.2) * 0.3) };
+  }
+
+  // Compact, nearly convex blob: closed fist
+  if (fingerGaps <= 1 && solidity > 0.8) {
+    return { gesture: 'FIST', confidence: clamp01(0.5 + (solidity - 0.8) * 2.5 - Math.abs(aspect - 1) * 0.2) };
+  }
+
+  return NO_GESTURE;
+};
+
+// Full pipeline for one frame: segmentation -> largest blob -> contour/hull -> gesture
+export const analyzeHandFrame = (
+  frame: RasterFrame,
+  background: Float32Array | null = null,
+  options: HandAnalysisOptions = DEFAULT_HAND_OPTIONS
+): HandAnalysis => {
+  const { width, height } = frame;
+  const mask = segmentHand(frame, background, options);
+  const { labels, blobs } = findBlobs(mask, width, height);
+
+  const pixelCount = width * height;
+  const blob = blobs.find(b => b.area >= pixelCount * options.minAreaRatio && b.area <= pixelCount * options.maxAreaRatio);
+  if (!blob) return { mask, features: null, result: NO_GESTURE };
+
+  const features = extractHandFeatures(labels, width, height, blob, options);
+  return { mask, features, result: classifyHandFeatures(features) };
+};
+
+// Running luma background. Skin pixels adapt much slower so a held pose survives,
+// while a face that was present from the start stays part of the background.
+export const updateBackground = (
+  background: Float32Array | null,
+  frame: RasterFrame,
+  rate = 0.05,
+  skinRate = 0.005
+): Float32Array => {
+  const { width, height, data } = frame;
+  const next = background ?? new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    const y = luma(r, g, b);
+    if (!background) next[i] = y;
+    else next[i] += (y - next[i]) * (isSkin(r, g, b) ? skinRate : rate);
+  }
+  return next;
+};
+
+// --- Continuous hand poses ---
+
+// Where a hand is and how it is held, for continuous controls rather than gesture labels
+export interface HandPose {
+  center: PixelPoint; // 0..1, mirrored like the webcam preview
+  roll: number; // Radians off vertical, positive leaning right as seen in the preview; 0 without a clear axis
+  pinch: number; // Widest finger gap (thumb to index, usually) relative to hand size; 0 when closed
+}
+
+// A second hand has to be a real rival to the first, not a speck of skin-colored noise
+const SECOND_HAND_MIN_AREA = 0.3;
+
+// Principal axis from second-order moments, faded out as the blob gets rounder (a fist has no roll)
+const blobRoll = (labels: Int32Array, width: number, blob: HandBlob) => {
+  let mu20 = 0, mu02 = 0, mu11 = 0;
+  const { x: cx, y: cy } = blob.centroid;
+  for (let y = blob.minY; y <= blob.maxY; y++) {
+    for (let x = blob.minX; x <= blob.maxX; x++) {
+      if (labels[y * width + x] !== blob.label) continue;
+      const dx = x - cx, dy = y - cy;
+      mu20 += dx * dx;
+      mu02 += dy * dy;
+      mu11 += dx * dy;
+    }
+  }
+  const spread = Math.sqrt((mu20 - mu02) ** 2 + 4 * mu11 * mu11);
+  const major = mu20 + mu02 + spread;
+  const minor = mu20 + mu02 - spread;
+  if (minor <= 0) return 0;
+  const elongation = Math.sqrt(major / minor);
+
+  // Axis angle in image coordinates (y down), turned into an offset from vertical
+  const axis = 0.5 * Math.atan2(2 * mu11, mu20 - mu02);
+  const roll = axis > 0 ? axis - Math.PI / 2 : axis + Math.PI / 2;
+  // Mirrored, like the preview
+  return -roll * clamp01((elongation - 1.2) / 0.5);
+};
+
+const handPose = (
+  labels: Int32Array,
+  width: number,
+  height: number,
+  blob: HandBlob,
+  options: HandAnalysisOptions
+): HandPose | null => {
+  const features = extractHandFeatures(labels, width, height, blob, options);
+  if (!features) return null;
+
+  const size = Math.max(blob.maxX - blob.minX + 1, blob.maxY - blob.minY + 1);
+  let pinch = 0;
+  for (const defect of features.defects) {
+    if (defect.depth < size * options.defectDepthRatio) continue;
+    pinch = Math.max(pinch, Math.hypot(defect.end.x - defect.start.x, defect.end.y - defect.start.y) / size);
+  }
+
+  return {
+    center: { x: 1 - (blob.centroid.x + 0.5) / width, y: (blob.centroid.y + 0.5) / height },
+    roll: blobRoll(labels, width, blob),
+    pinch: clamp01(pinch),
+  };
+};
+
+// Up to `maxHands` hands, left to right as seen in the preview
+export const analyzeHands = (
+  frame: RasterFrame,
+  background: Float32Array | null = null,
+  maxHands = 2,
+  options: HandAnalysisOptions = DEFAULT_HAND_OPTIONS
+): HandPose[] => {
+  const { width, height } = frame;
+  const mask = segmentHand(frame, background, options);
+  const { labels, blobs } = findBlobs(mask, width, height);
+
+  const pixelCount = width * height;
+  const candidates = blobs.filter(b => b.area >= pixelCount * options.minAreaRatio && b.area <= pixelCount * options.maxAreaRatio);
+  const hands = candidates
+    .filter((b, i) => i === 0 || b.area >= candidates[0].area * SECOND_HAND_MIN_AREA)
+    .slice(0, maxHands)
+    .map(blob => handPose(labels, width, height, blob, options))
+    .filter((pose): pose is HandPose => pose !== null);
+  return hands.sort((a, b) => a.center.x - b.center.x);
+};
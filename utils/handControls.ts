@@ -0,0 +1,142 @@
+import { HandControls } from '../types';
+import { HandPose } from './handAnalysis';
+
+export type HandControlEvent = 'open' | 'close';
+
+export interface HandControlStatus {
+  hands: number;
+}
+
+export interface HandControlConfig {
+  smoothingMs: number; // Time constant of the exponential smoothing
+  lostAfterMs: number; // Dropouts shorter than this hold the last values
+  orbitRange: number; // Radians of orbit across the full width of the frame
+  rollGain: number; // Radians of orbit per radian of hand roll
+  stretchRange: [number, number];
+  openStretch: number; // Two hands pulled this far apart open a scatter...
+  closeStretch: number; // ...and brought back within this close it again
+}
+
+export const DEFAULT_HAND_CONTROL_CONFIG: HandControlConfig = {
+  smoothingMs: 120,
+  lostAfterMs: 300,
+  orbitRange: Math.PI,
+  rollGain: 1,
+  stretchRange: [0.5, 3],
+  openStretch: 2,
+  closeStretch: 1.3,
+};
+
+export const NO_HAND_CONTROLS: HandControls = { hands: 0, pinch: 0, orbit: 0, stretch: 1 };
+
+// Turns per-frame hand poses into steady controls. Poses arrive at webcam rate and are read
+// at render rate, so smoothing happens on read.
+export class HandControlTracker {
+  private config: HandControlConfig;
+  private target: HandControls = NO_HAND_CONTROLS;
+  private smoothed: HandControls = NO_HAND_CONTROLS;
+  private seenAt = [-Infinity, -Infinity]; // Last time one, and two, hands were seen
+  private spreadBaseline = 0;
+  private opened = false;
+  private sampledAt: number | null = null;
+  private status: HandControlStatus = { hands: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor(config: Partial<HandControlConfig> = {}) {
+    this.config = { ...DEFAULT_HAND_CONTROL_CONFIG, ...config };
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = () => this.status;
+
+  push(hands: HandPose[], timestamp: number): HandControlEvent | null {
+    if (hands.length > 0) this.seenAt[0] = timestamp;
+    if (hands.length > 1) this.seenAt[1] = timestamp;
+    const count = this.countAt(timestamp);
+    // A hand missing for a frame or two keeps the last values
+    if (count === 0 || hands.length < count) {
+      this.setHands(count);
+      return null;
+    }
+
+    const { orbitRange, rollGain, stretchRange, openStretch, closeStretch } = this.config;
+    let event: HandControlEvent | null = null;
+    let target: HandControls;
+    if (count === 1) {
+      const [hand] = hands;
+      target = { hands: 1, pinch: hand.pinch, orbit: (hand.center.x - 0.5) * orbitRange + hand.roll * rollGain, stretch: 1 };
+    } else {
+      const [left, right] = hands;
+      const spread = Math.hypot(right.center.x - left.center.x, right.center.y - left.center.y);
+      if (this.spreadBaseline === 0) this.spreadBaseline = Math.max(spread, 0.05);
+      const stretch = Math.min(stretchRange[1], Math.max(stretchRange[0], spread / this.spreadBaseline));
+      target = { hands: 2, pinch: this.target.pinch, orbit: ((left.center.x + right.center.x) / 2 - 0.5) * orbitRange, stretch };
+
+      if (!this.opened && stretch >= openStretch) {
+        this.opened = true;
+        event = 'open';
+      } else if (this.opened && stretch <= closeStretch) {
+        this.opened = false;
+        event = 'close';
+      }
+    }
+
+    // A new hand count measures from a new baseline; don't glide over from the old one.
+    // Stretch eases back to 1 instead of snapping.
+    if (count !== this.status.hands) this.smoothed = { ...target, stretch: this.smoothed.stretch };
+    this.target = target;
+    this.setHands(count);
+    return event;
+  }
+
+  // Smoothed controls at `now` (performance.now() time); safe to call more than once a frame
+  sample(now: number): HandControls {
+    const dt = this.sampledAt === null ? 0 : Math.max(0, now - this.sampledAt);
+    this.sampledAt = now;
+    const count = this.countAt(now);
+    this.setHands(count);
+    if (count === 0) this.target = NO_HAND_CONTROLS;
+
+    const k = 1 - Math.exp(-dt / this.config.smoothingMs);
+    const { target, smoothed } = this;
+    this.smoothed = {
+      hands: count,
+      pinch: smoothed.pinch + (target.pinch - smoothed.pinch) * k,
+      orbit: smoothed.orbit + (target.orbit - smoothed.orbit) * k,
+      stretch: smoothed.stretch + (target.stretch - smoothed.stretch) * k,
+    };
+    return this.smoothed;
+  }
+
+  reset() {
+    this.target = NO_HAND_CONTROLS;
+    this.smoothed = NO_HAND_CONTROLS;
+    this.seenAt = [-Infinity, -Infinity];
+    this.sampledAt = null;
+    this.setHands(0);
+  }
+
+  private countAt(time: number) {
+    const { lostAfterMs } = this.config;
+    if (time - this.seenAt[1] <= lostAfterMs) return 2;
+    if (time - this.seenAt[0] <= lostAfterMs) return 1;
+    return 0;
+  }
+
+  private setHands(hands: number) {
+    if (hands === this.status.hands) return;
+    // Stretching always starts over from the distance two hands are found at
+    if (hands < 2) {
+      this.spreadBaseline = 0;
+      this.opened = false;
+    }
+    this.status = { hands };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,120 @@
+import { Point3D } from '../types';
+
+// RGBA pixels, row-major, as returned by CanvasRenderingContext2D.getImageData
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// 'alpha' suits logos with transparency, 'luminance' suits photos; 'auto' picks by content
+export type ImageWeighting = 'alpha' | 'luminance' | 'auto';
+
+export interface ImageSampleOptions {
+  weighting?: ImageWeighting;
+  depth?: number; // Extrusion thickness as a fraction of the longer image side, 0 = flat
+  bevel?: number; // Width of the rounded rim as a fraction of the longer side, 0 = straight walls
+  random?: () => number;
+}
+
+const MIN_ALPHA = 16;
+
+const hasTransparency = (image: RasterImage) => {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] < 250) return true;
+  }
+  return false;
+};
+
+const pixelWeights = (image: RasterImage, weighting: ImageWeighting) => {
+  const mode = weighting === 'auto' ? (hasTransparency(image) ? 'alpha' : 'luminance') : weighting;
+  const { data } = image;
+  const weights = new Float32Array(image.width * image.height);
+  for (let i = 0; i < weights.length; i++) {
+    const a = data[i * 4 + 3];
+    if (a < MIN_ALPHA) continue;
+    if (mode === 'alpha') {
+      weights[i] = a / 255;
+    } else {
+      const luma = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+      weights[i] = luma * (a / 255);
+    }
+  }
+  return weights;
+};
+
+// Two-pass chamfer distance (in pixels) from every covered pixel to the nearest empty one
+const edgeDistance = (weights: Float32Array, width: number, height: number) => {
+  const dist = new Float32Array(weights.length);
+  const far = width + height;
+  for (let i = 0; i < dist.length; i++) dist[i] = weights[i] > 0 ? far : 0;
+
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : dist[y * width + x]);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      dist[i] = Math.min(dist[i], at(x - 1, y) + 1, at(x, y - 1) + 1, at(x - 1, y - 1) + Math.SQRT2, at(x + 1, y - 1) + Math.SQRT2);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      dist[i] = Math.min(dist[i], at(x + 1, y) + 1, at(x, y + 1) + 1, at(x + 1, y + 1) + Math.SQRT2, at(x - 1, y + 1) + Math.SQRT2);
+    }
+  }
+  return dist;
+};
+
+// Weighted random pixels, jittered inside the pixel, in pixel units with y pointing up.
+// Depth spreads points along z; with a bevel the slab gets thinner towards the outline.
+export const sampleImage = (image: RasterImage, count: number, options: ImageSampleOptions = {}): Point3D[] => {
+  const { width, height, data } = image;
+  const random = options.random ?? Math.random;
+  const weights = pixelWeights(image, options.weighting ?? 'auto');
+
+  const cdf = new Float64Array(weights.length);
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) {
+    total += weights[i];
+    cdf[i] = total;
+  }
+
+  const points: Point3D[] = [];
+  if (total === 0) return points;
+
+  const longest = Math.max(width, height);
+  const halfDepth = ((options.depth ?? 0) * longest) / 2;
+  const bevel = (options.bevel ?? 0) * longest;
+  const dist = halfDepth > 0 && bevel > 0 ? edgeDistance(weights, width, height) : null;
+
+  for (let n = 0; n < count; n++) {
+    const r = random() * total;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const x = lo % width;
+    const y = Math.floor(lo / width);
+    // Quarter-circle profile: full thickness inside, tapering over the bevel width
+    let thickness = halfDepth;
+    if (dist) {
+      const t = Math.min(1, dist[lo] / bevel);
+      thickness *= Math.sqrt(1 - (1 - t) * (1 - t));
+    }
+
+    points.push({
+      x: x + random(),
+      y: height - (y + random()),
+      z: (random() * 2 - 1) * thickness,
+      color: [data[lo * 4] / 255, data[lo * 4 + 1] / 255, data[lo * 4 + 2] / 255],
+    });
+  }
+
+  return points;
+};
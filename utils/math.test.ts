@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ShapeGenerator } from '../types';
+import {
+  generateCandyCanePoints,
+  generatePresentPoints,
+  generateSantaHatPoints,
+  generateSnowmanPoints,
+  generateStarPoints,
+  generateTreePoints,
+  generateWreathPoints,
+  parseTextPrompt,
+  sampleSeeded,
+} from './math';
+
+describe('parseTextPrompt', () => {
+  it('keeps plain text as is', () => {
+    expect(parseTextPrompt('Merry Christmas | Team')).toEqual({ text: 'Merry Christmas | Team', options: {} });
+  });
+
+  it('reads style flags after the text', () => {
+    expect(parseTextPrompt('Noel --font Cinzel --weight 400 --depth 0.1 --colors #ff0000, #00FF00')).toEqual({
+      text: 'Noel',
+      options: { font: 'Cinzel', weight: 400, depth: 0.1, gradient: ['#ff0000', '#00FF00'] },
+    });
+  });
+
+  it('takes multi-word and quoted font names', () => {
+    expect(parseTextPrompt('Hi --font "Mountains of Christmas" --weight bold').options).toEqual({
+      font: 'Mountains of Christmas',
+      weight: 'bold',
+    });
+  });
+
+  it('leaves malformed flags in the text', () => {
+    expect(parseTextPrompt('Hi --depth deep --colors red')).toEqual({ text: 'Hi --depth deep --colors red', options: {} });
+  });
+});
+
+// The generators behind the seven HOLIDAY_SHAPES built-ins
+const HOLIDAY_GENERATORS: [string, ShapeGenerator][] = [
+  ['tree', generateTreePoints],
+  ['present', generatePresentPoints],
+  ['wreath', generateWreathPoints],
+  ['cane', generateCandyCanePoints],
+  ['santa_hat', generateSantaHatPoints],
+  ['snowman', generateSnowmanPoints],
+  ['star', generateStarPoints],
+];
+
+describe('sampleSeeded', () => {
+  it.each(HOLIDAY_GENERATORS)('reproduces the %s for a seed and varies it for another', (_, generate) => {
+    const points = sampleSeeded(generate, 500, 7);
+    expect(points).toHaveLength(500);
+    expect(sampleSeeded(generate, 500, 7)).toEqual(points);
+    expect(sampleSeeded(generate, 500, 8)).not.toEqual(points);
+  });
+});
@@ -0,0 +1,262 @@
+import { Point3D } from '../types';
+
+export type Color3 = [number, number, number];
+
+// (u, v) -> RGB 0-1, e.g. backed by a decoded texture
+export type TextureSampler = (u: number, v: number) => Color3;
+
+// Flat triangle soup: every 9 floats of `positions` are one triangle
+export interface MeshPart {
+  positions: Float32Array;
+  colors?: Float32Array; // Per-vertex RGB, same layout as positions
+  uvs?: Float32Array; // Per-vertex UV, 6 floats per triangle
+  texture?: TextureSampler;
+  baseColor?: Color3; // Material color, multiplied with vertex/texture color
+}
+
+export interface MeshSampleOptions {
+  volumeFraction?: number; // Share of points placed inside the mesh instead of on the surface
+  random?: () => number;
+}
+
+// Bounding box of the shared scene the built-in generators use
+export const SHAPE_HALF_EXTENT = 1.5;
+
+const VOLUME_GRID = 48;
+
+const triangleArea = (p: Float32Array, t: number) => {
+  const o = t * 9;
+  const ax = p[o + 3] - p[o], ay = p[o + 4] - p[o + 1], az = p[o + 5] - p[o + 2];
+  const bx = p[o + 6] - p[o], by = p[o + 7] - p[o + 1], bz = p[o + 8] - p[o + 2];
+  const cx = ay * bz - az * by;
+  const cy = az * bx - ax * bz;
+  const cz = ax * by - ay * bx;
+  return Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+};
+
+// Color of a point given by barycentric weights on triangle t of a part
+const colorAt = (part: MeshPart, t: number, w0: number, w1: number, w2: number): Color3 | undefined => {
+  let color: Color3 | undefined;
+
+  if (part.texture && part.uvs) {
+    const o = t * 6;
+    const u = part.uvs[o] * w0 + part.uvs[o + 2] * w1 + part.uvs[o + 4] * w2;
+    const v = part.uvs[o + 1] * w0 + part.uvs[o + 3] * w1 + part.uvs[o + 5] * w2;
+    color = part.texture(u, v);
+  } else if (part.colors) {
+    const o = t * 9;
+    const c = part.colors;
+    color = [
+      c[o] * w0 + c[o + 3] * w1 + c[o + 6] * w2,
+      c[o + 1] * w0 + c[o + 4] * w1 + c[o + 7] * w2,
+      c[o + 2] * w0 + c[o + 5] * w1 + c[o + 8] * w2,
+    ];
+  }
+
+  if (part.baseColor) {
+    const [r, g, b] = part.baseColor;
+    color = color ? [color[0] * r, color[1] * g, color[2] * b] : [r, g, b];
+  }
+  return color;
+};
+
+// Area-weighted uniform sampling of the surface
+export const sampleSurface = (parts: MeshPart[], count: number, random: () => number = Math.random): Point3D[] => {
+  const cdf: number[] = [];
+  const refs: [number, number][] = [];
+  let total = 0;
+
+  parts.forEach((part, pi) => {
+    const triCount = Math.floor(part.positions.length / 9);
+    for (let t = 0; t < triCount; t++) {
+      const area = triangleArea(part.positions, t);
+      if (area <= 0) continue;
+      total += area;
+      cdf.push(total);
+      refs.push([pi, t]);
+    }
+  });
+
+  const points: Point3D[] = [];
+  if (total === 0) return points;
+
+  for (let i = 0; i < count; i++) {
+    // Binary search the cumulative area
+    const r = random() * total;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+    const [pi, t] = refs[lo];
+    const part = parts[pi];
+
+    // Uniform barycentric coordinates
+    const s = Math.sqrt(random());
+    const b = random();
+    const w0 = 1 - s, w1 = s * (1 - b), w2 = s * b;
+    const p = part.positions;
+    const o = t * 9;
+
+    points.push({
+      x: p[o] * w0 + p[o + 3] * w1 + p[o + 6] * w2,
+      y: p[o + 1] * w0 + p[o + 4] * w1 + p[o + 7] * w2,
+      z: p[o + 2] * w0 + p[o + 5] * w1 + p[o + 8] * w2,
+      color: colorAt(part, t, w0, w1, w2),
+    });
+  }
+
+  return points;
+};
+
+interface RayInterval {
+  from: number;
+  to: number;
+  color?: Color3;
+}
+
+// Interior sampling: cast one ray along +X per cell of a YZ grid, pair up the crossings
+// (even-odd rule) into inside intervals, then pick random points in those intervals.
+// Inside points take the color of the surface where their interval starts.
+export const sampleVolume = (parts: MeshPart[], count: number, random: () => number = Math.random): Point3D[] => {
+  let minY = Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (const part of parts) {
+    for (let i = 0; i < part.positions.length; i += 3) {
+      const y = part.positions[i + 1], z = part.positions[i + 2];
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (z < minZ) minZ = z;
+      if (z > maxZ) maxZ = z;
+    }
+  }
+  if (!isFinite(minY)) return [];
+
+  const cellY = Math.max(maxY - minY, 1e-6) / VOLUME_GRID;
+  const cellZ = Math.max(maxZ - minZ, 1e-6) / VOLUME_GRID;
+
+  // Bin triangles by the grid cells their YZ bounding box covers
+  const bins: [number, number][][] = Array.from({ length: VOLUME_GRID * VOLUME_GRID }, () => []);
+  parts.forEach((part, pi) => {
+    const p = part.positions;
+    for (let t = 0; t < p.length / 9; t++) {
+      const o = t * 9;
+      const y0 = Math.min(p[o + 1], p[o + 4], p[o + 7]), y1 = Math.max(p[o + 1], p[o + 4], p[o + 7]);
+      const z0 = Math.min(p[o + 2], p[o + 5], p[o + 8]), z1 = Math.max(p[o + 2], p[o + 5], p[o + 8]);
+      const j0 = Math.max(0, Math.floor((y0 - minY) / cellY)), j1 = Math.min(VOLUME_GRID - 1, Math.floor((y1 - minY) / cellY));
+      const k0 = Math.max(0, Math.floor((z0 - minZ) / cellZ)), k1 = Math.min(VOLUME_GRID - 1, Math.floor((z1 - minZ) / cellZ));
+      for (let j = j0; j <= j1; j++) {
+        for (let k = k0; k <= k1; k++) bins[j * VOLUME_GRID + k].push([pi, t]);
+      }
+    }
+  });
+
+  const cells: { j: number; k: number; intervals: RayInterval[]; length: number }[] = [];
+  let totalLength = 0;
+
+  for (let j = 0; j < VOLUME_GRID; j++) {
+    for (let k = 0; k < VOLUME_GRID; k++) {
+      // Slightly off-centre to avoid hitting shared edges exactly
+      const ry = minY + (j + 0.5013) * cellY;
+      const rz = minZ + (k + 0.4987) * cellZ;
+      const hits: { x: number; color?: Color3 }[] = [];
+
+      for (const [pi, t] of bins[j * VOLUME_GRID + k]) {
+        const part = parts[pi];
+        const p = part.positions;
+        const o = t * 9;
+        // 2D barycentric test in the YZ plane
+        const ay = p[o + 1], az = p[o + 2];
+        const by = p[o + 4], bz = p[o + 5];
+        const cy = p[o + 7], cz = p[o + 8];
+        const det = (by - ay) * (cz - az) - (bz - az) * (cy - ay);
+        if (Math.abs(det) < 1e-12) continue;
+        const w1 = ((ry - ay) * (cz - az) - (rz - az) * (cy - ay)) / det;
+        const w2 = ((by - ay) * (rz - az) - (bz - az) * (ry - ay)) / det;
+        const w0 = 1 - w1 - w2;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        hits.push({ x: p[o] * w0 + p[o + 3] * w1 + p[o + 6] * w2, color: colorAt(part, t, w0, w1, w2) });
+      }
+
+      if (hits.length < 2) continue;
+      hits.sort((a, b) => a.x - b.x);
+
+      const intervals: RayInterval[] = [];
+      let length = 0;
+      for (let h = 0; h + 1 < hits.length; h += 2) {
+        const from = hits[h].x;
+        const to = hits[h + 1].x;
+        if (to <= from) continue;
+        intervals.push({ from, to, color: hits[h].color });
+        length += to - from;
+      }
+      if (length === 0) continue;
+
+      cells.push({ j, k, intervals, length });
+      totalLength += length;
+    }
+  }
+
+  const points: Point3D[] = [];
+  if (totalLength === 0) return points;
+
+  for (let i = 0; i < count; i++) {
+    // Pick a cell proportional to its inside length, then a spot along it
+    let r = random() * totalLength;
+    let cell = cells[cells.length - 1];
+    for (const c of cells) {
+      if (r < c.length) { cell = c; break; }
+      r -= c.length;
+    }
+    let interval = cell.intervals[cell.intervals.length - 1];
+    let along = random() * cell.length;
+    for (const iv of cell.intervals) {
+      if (along < iv.to - iv.from) { interval = iv; break; }
+      along -= iv.to - iv.from;
+    }
+
+    points.push({
+      x: Math.min(interval.to, interval.from + along),
+      y: minY + (cell.j + random()) * cellY,
+      z: minZ + (cell.k + random()) * cellZ,
+      color: interval.color,
+    });
+  }
+
+  return points;
+};
+
+// Exactly `count` points: surface plus an optional share of the interior
+export const sampleMesh = (parts: MeshPart[], count: number, options: MeshSampleOptions = {}): Point3D[] => {
+  const random = options.random ?? Math.random;
+  const volumeCount = Math.round(count * Math.min(1, Math.max(0, options.volumeFraction ?? 0)));
+  const inside = volumeCount > 0 ? sampleVolume(parts, volumeCount, random) : [];
+  // Open meshes have no interior; the surface makes up the difference
+  return sampleSurface(parts, count - inside.length, random).concat(inside);
+};
+
+// Center on the bounding box and scale uniformly into the ±1.5 box of the built-in shapes
+export const normalizePoints = (points: Point3D[], halfExtent = SHAPE_HALF_EXTENT): Point3D[] => {
+  if (points.length === 0) return points;
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const p of points) {
+    const v = [p.x, p.y, p.z];
+    for (let k = 0; k < 3; k++) {
+      if (v[k] < min[k]) min[k] = v[k];
+      if (v[k] > max[k]) max[k] = v[k];
+    }
+  }
+
+  const center = min.map((m, k) => (m + max[k]) / 2);
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2;
+  const scale = extent > 0 ? halfExtent / extent : 1;
+
+  return points.map(p => ({
+    ...p,
+    x: (p.x - center[0]) * scale,
+    y: (p.y - center[1]) * scale,
+    z: (p.z - center[2]) * scale,
+  }));
+};
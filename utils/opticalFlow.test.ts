@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { estimateBlockFlow, FlowVector, SwipeDetector } from './opticalFlow';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const FRAME_MS = 33;
+
+// Fixed noise texture, seen through a window moved by (ox, oy): content at (x, y) appears at (x + ox, y + oy)
+const texture = (x: number, y: number) => {
+  const h = Math.imul(x * 374761393 + y * 668265263, 1274126177);
+  return (h ^ (h >>> 13)) & 0xff;
+};
+
+const frame = (ox: number, oy: number) => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const v = texture(x - ox, y - oy);
+      data.set([v, v, v, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return data;
+};
+
+// Blocks whose content was inside the frame before, so a match exists
+const interior = (v: FlowVector) => v.x > 8 && v.x < WIDTH - 8 && v.y > 8 && v.y < HEIGHT - 8;
+
+// Flow of a steady pan by `step` pixels per frame, starting at `start` ms
+const pan = (detector: SwipeDetector, frames: number, step: number, start = 0) => {
+  const prev = frame(0, 0);
+  const curr = frame(step, 0);
+  const flow = estimateBlockFlow(prev, curr, WIDTH, HEIGHT);
+  return Array.from({ length: frames }, (_, i) => detector.push(flow, WIDTH, HEIGHT, start + i * FRAME_MS));
+};
+
+describe('estimateBlockFlow', () => {
+  it('finds a 2 pixel translation', () => {
+    const vectors = estimateBlockFlow(frame(0, 0), frame(2, -2), WIDTH, HEIGHT);
+    const inside = vectors.filter(interior);
+    expect(inside.length).toBeGreaterThan(10);
+    for (const v of inside) expect([v.dx, v.dy]).toEqual([2, -2]);
+  });
+
+  it('skips frames that did not change', () => {
+    expect(estimateBlockFlow(frame(1, 1), frame(1, 1), WIDTH, HEIGHT)).toEqual([]);
+  });
+});
+
+describe('SwipeDetector', () => {
+  it('reports swipes mirrored like the preview', () => {
+    const mirrored = pan(new SwipeDetector(), 8, 4).find(Boolean);
+    expect(mirrored?.direction).toBe('left');
+    const plain = pan(new SwipeDetector({ mirrored: false }), 8, 4).find(Boolean);
+    expect(plain?.direction).toBe('right');
+    expect(pan(new SwipeDetector({ mirrored: false }), 8, -4).find(Boolean)?.direction).toBe('left');
+  });
+
+  it('ignores motion too short to be a swipe', () => {
+    expect(pan(new SwipeDetector(), 2, 4).filter(Boolean)).toEqual([]);
+  });
+
+  it('waits out the cooldown between swipes', () => {
+    const swipes = pan(new SwipeDetector({ cooldownMs: 900 }), 90, 4).filter((event) => event !== null);
+    expect(swipes.length).toBeGreaterThan(1);
+    for (let i = 1; i < swipes.length; i++) {
+      expect(swipes[i].timestamp - swipes[i - 1].timestamp).toBeGreaterThanOrEqual(900);
+    }
+  });
+});
@@ -0,0 +1,158 @@
+export interface FlowVector {
+  x: number; // Block centre, pixels
+  y: number;
+  dx: number; // Displacement since the previous frame, pixels
+  dy: number;
+}
+
+export interface BlockFlowOptions {
+  blockSize: number;
+  searchRadius: number;
+  minChange: number; // Mean absolute difference below which a block is considered static
+}
+
+export const DEFAULT_BLOCK_FLOW_OPTIONS: BlockFlowOptions = {
+  blockSize: 8,
+  searchRadius: 4,
+  minChange: 12,
+};
+
+// Green channel of an RGBA buffer, matching the cheap grayscale used for motion detection
+const g = (data: Uint8ClampedArray, width: number, x: number, y: number) => data[(y * width + x) * 4 + 1];
+
+// Coarse optical flow by exhaustive block matching (sum of absolute differences).
+// Only blocks that changed between frames are matched, static background is skipped.
+export const estimateBlockFlow = (
+  prev: Uint8ClampedArray,
+  curr: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: BlockFlowOptions = DEFAULT_BLOCK_FLOW_OPTIONS
+): FlowVector[] => {
+  const { blockSize, searchRadius, minChange } = options;
+  const vectors: FlowVector[] = [];
+  const blockPixels = blockSize * blockSize;
+
+  for (let by = 0; by + blockSize <= height; by += blockSize) {
+    for (let bx = 0; bx + blockSize <= width; bx += blockSize) {
+      let zeroSad = 0;
+      for (let y = 0; y < blockSize; y++) {
+        for (let x = 0; x < blockSize; x++) {
+          zeroSad += Math.abs(g(curr, width, bx + x, by + y) - g(prev, width, bx + x, by + y));
+        }
+      }
+      if (zeroSad / blockPixels < minChange) continue;
+
+      // Find where this block's content was in the previous frame
+      let bestSad = zeroSad;
+      let bestOx = 0, bestOy = 0;
+      for (let oy = -searchRadius; oy <= searchRadius; oy++) {
+        const py = by + oy;
+        if (py < 0 || py + blockSize > height) continue;
+        for (let ox = -searchRadius; ox <= searchRadius; ox++) {
+          const px = bx + ox;
+          if (px < 0 || px + blockSize > width || (ox === 0 && oy === 0)) continue;
+
+          let sad = 0;
+          for (let y = 0; y < blockSize && sad <= bestSad; y++) {
+            for (let x = 0; x < blockSize; x++) {
+              sad += Math.abs(g(curr, width, bx + x, by + y) - g(prev, width, px + x, py + y));
+            }
+          }
+          // Ties (flat texture) go to the smallest displacement
+          if (sad < bestSad || (sad === bestSad && Math.abs(ox) + Math.abs(oy) < Math.abs(bestOx) + Math.abs(bestOy))) {
+            bestSad = sad;
+            bestOx = ox;
+            bestOy = oy;
+          }
+        }
+      }
+
+      if (bestOx === 0 && bestOy === 0) continue;
+      vectors.push({ x: bx + blockSize / 2, y: by + blockSize / 2, dx: -bestOx, dy: -bestOy });
+    }
+  }
+
+  return vectors;
+};
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface SwipeEvent {
+  direction: SwipeDirection;
+  velocity: number; // Frame fractions per second
+  dx: number; // Accumulated displacement, fraction of the frame
+  dy: number;
+  timestamp: number;
+}
+
+export interface SwipeDetectorConfig {
+  windowMs: number; // Flow is accumulated over this sliding window
+  minDistance: number; // Fraction of the frame the motion has to cover
+  dominance: number; // Main axis must beat the other axis by this factor
+  minBlocks: number; // Moving blocks per frame for the frame to count
+  cooldownMs: number;
+  mirrored: boolean; // Flip x to match a mirrored preview
+}
+
+export const DEFAULT_SWIPE_CONFIG: SwipeDetectorConfig = {
+  windowMs: 350,
+  minDistance: 0.3,
+  dominance: 1.8,
+  minBlocks: 3,
+  cooldownMs: 900,
+  mirrored: true,
+};
+
+// Accumulates per-frame mean flow into fast, mostly one-directional strokes
+export class SwipeDetector {
+  private config: SwipeDetectorConfig;
+  private samples: { dx: number; dy: number; timestamp: number }[] = [];
+  private lastSwipeAt = -Infinity;
+
+  constructor(config: Partial<SwipeDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_SWIPE_CONFIG, ...config };
+  }
+
+  push(flow: FlowVector[], width: number, height: number, timestamp: number): SwipeEvent | null {
+    const { windowMs, minDistance, dominance, minBlocks, cooldownMs, mirrored } = this.config;
+
+    let dx = 0, dy = 0;
+    if (flow.length >= minBlocks) {
+      for (const v of flow) {
+        dx += v.dx;
+        dy += v.dy;
+      }
+      dx = (dx / flow.length / width) * (mirrored ? -1 : 1);
+      dy = dy / flow.length / height;
+    }
+
+    this.samples.push({ dx, dy, timestamp });
+    while (this.samples.length > 0 && timestamp - this.samples[0].timestamp > windowMs) this.samples.shift();
+
+    if (timestamp - this.lastSwipeAt < cooldownMs) return null;
+
+    let sumX = 0, sumY = 0;
+    for (const s of this.samples) {
+      sumX += s.dx;
+      sumY += s.dy;
+    }
+
+    const absX = Math.abs(sumX);
+    const absY = Math.abs(sumY);
+    let direction: SwipeDirection | null = null;
+    if (absX >= minDistance && absX > absY * dominance) direction = sumX > 0 ? 'right' : 'left';
+    else if (absY >= minDistance && absY > absX * dominance) direction = sumY > 0 ? 'down' : 'up';
+    if (!direction) return null;
+
+    const duration = Math.max(1, timestamp - this.samples[0].timestamp) / 1000;
+    this.lastSwipeAt = timestamp;
+    this.samples = [];
+    return { direction, velocity: Math.hypot(sumX, sumY) / duration, dx: sumX, dy: sumY, timestamp };
+  }
+
+  reset() {
+    this.samples = [];
+    this.lastSwipeAt = -Infinity;
+  }
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { isPaletteId } from './palette';
+
+describe('isPaletteId', () => {
+  it('accepts palettes', () => {
+    expect(isPaletteId('gold')).toBe(true);
+    expect(isPaletteId('original')).toBe(true);
+  });
+
+  it('rejects inherited object keys', () => {
+    for (const key of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) expect(isPaletteId(key)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { Point3D } from '../types';
+
+export type PaletteId = 'original' | 'gold' | 'frost' | 'candy' | 'aurora';
+
+// Stops run from the darkest to the brightest parts of a shape
+export const PALETTES: Record<PaletteId, { label: string; stops: string[] | null }> = {
+  original: { label: "Original Colors", stops: null },
+  gold: { label: "Gold", stops: ['#5a2d00', '#ffb300', '#fff3c4'] },
+  frost: { label: "Frost", stops: ['#0b2a6b', '#3fa9ff', '#e8f7ff'] },
+  candy: { label: "Candy", stops: ['#b0002a', '#ff4d6d', '#ffffff'] },
+  aurora: { label: "Aurora", stops: ['#1b0b4d', '#16c79a', '#c3f73a'] },
+};
+
+// Own keys only, so "constructor" or "__proto__" from a link or timeline are rejected
+export const isPaletteId = (value: string): value is PaletteId => Object.prototype.hasOwnProperty.call(PALETTES, value);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return [((v >> 16) & 255) / 255, ((v >> 8) & 255) / 255, (v & 255) / 255];
+};
+
+// Recolor a shape by mapping each point's brightness onto the palette, so ornaments,
+// stripes and highlights stay distinguishable
+export const applyPalette = (points: Point3D[], palette: PaletteId, fallbackColor: string = '#ffffff'): Point3D[] => {
+  const stops = PALETTES[palette].stops;
+  if (!stops) return points;
+
+  const rgbStops = stops.map(hexToRgb);
+  const fallback = hexToRgb(fallbackColor.startsWith('#') ? fallbackColor : '#ffffff');
+
+  return points.map(p => {
+    const [r, g, b] = p.color ?? fallback;
+    const t = Math.min(1, Math.max(0, 0.299 * r + 0.587 * g + 0.114 * b));
+    const f = t * (rgbStops.length - 1);
+    const i = Math.min(rgbStops.length - 2, Math.floor(f));
+    const k = f - i;
+    const a = rgbStops[i];
+    const c = rgbStops[i + 1];
+    return { ...p, color: [a[0] + (c[0] - a[0]) * k, a[1] + (c[1] - a[1]) * k, a[2] + (c[2] - a[2]) * k] };
+  });
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Point3D } from '../types';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToPositions,
+  dequantizePoints,
+  positionsToBytes,
+  quantizePoints,
+} from './pointCodec';
+import { createRandom } from './random';
+
+const random = createRandom(11);
+const CLOUD: Point3D[] = Array.from({ length: 2000 }, () => ({
+  x: random() * 4 - 2,
+  y: random() * 3 - 1.5,
+  z: random() * 0.5,
+  color: [random(), random(), random()],
+}));
+
+describe('quantizePoints', () => {
+  it('dequantizes within half a step of the bounding box', () => {
+    const q = quantizePoints(CLOUD);
+    const points = dequantizePoints(q);
+    expect(points).toHaveLength(CLOUD.length);
+    const tolerance = [0, 1, 2].map((k) => (q.max[k] - q.min[k]) / 65535 / 2 + 1e-9);
+    points.forEach((p, i) => {
+      const source = CLOUD[i];
+      expect(Math.abs(p.x - source.x)).toBeLessThanOrEqual(tolerance[0]);
+      expect(Math.abs(p.y - source.y)).toBeLessThanOrEqual(tolerance[1]);
+      expect(Math.abs(p.z - source.z)).toBeLessThanOrEqual(tolerance[2]);
+      for (let k = 0; k < 3; k++) expect(Math.abs(p.color![k] - source.color![k])).toBeLessThanOrEqual(0.5 / 255 + 1e-9);
+    });
+  });
+
+  it('handles flat, empty and uncolored clouds', () => {
+    const flat = dequantizePoints(quantizePoints([{ x: 1, y: 2, z: 0 }, { x: 3, y: 2, z: 0 }]));
+    expect(flat).toEqual([{ x: 1, y: 2, z: 0, color: undefined }, { x: 3, y: 2, z: 0, color: undefined }]);
+    expect(quantizePoints([{ x: 1, y: 2, z: 3 }]).colors).toBeNull();
+    expect(dequantizePoints(quantizePoints([]))).toEqual([]);
+  });
+
+  it('survives the byte and base64 encodings', () => {
+    const { positions } = quantizePoints(CLOUD);
+    expect(bytesToPositions(base64ToBytes(bytesToBase64(positionsToBytes(positions))))).toEqual(positions);
+  });
+});
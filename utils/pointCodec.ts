@@ -0,0 +1,94 @@
+import { Point3D } from '../types';
+
+// Compact point cloud: positions as 16-bit fractions of the bounding box, colors as bytes.
+// About 9 bytes per point instead of a few dozen for JSON numbers.
+export interface QuantizedPoints {
+  count: number;
+  min: [number, number, number];
+  max: [number, number, number];
+  positions: Uint16Array; // xyz per point
+  colors: Uint8Array | null; // rgb per point, null when no point carries a color
+}
+
+const QUANT_MAX = 65535;
+
+export const quantizePoints = (points: Point3D[]): QuantizedPoints => {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (const p of points) {
+    const v = [p.x, p.y, p.z];
+    for (let k = 0; k < 3; k++) {
+      if (v[k] < min[k]) min[k] = v[k];
+      if (v[k] > max[k]) max[k] = v[k];
+    }
+  }
+  if (points.length === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  const positions = new Uint16Array(points.length * 3);
+  const hasColors = points.some(p => p.color);
+  const colors = hasColors ? new Uint8Array(points.length * 3) : null;
+
+  points.forEach((p, i) => {
+    const v = [p.x, p.y, p.z];
+    for (let k = 0; k < 3; k++) {
+      const span = max[k] - min[k];
+      positions[i * 3 + k] = span > 0 ? Math.round(((v[k] - min[k]) / span) * QUANT_MAX) : 0;
+    }
+    if (colors) {
+      const [r, g, b] = p.color ?? [1, 1, 1];
+      colors[i * 3] = Math.round(Math.min(1, Math.max(0, r)) * 255);
+      colors[i * 3 + 1] = Math.round(Math.min(1, Math.max(0, g)) * 255);
+      colors[i * 3 + 2] = Math.round(Math.min(1, Math.max(0, b)) * 255);
+    }
+  });
+
+  return { count: points.length, min, max, positions, colors };
+};
+
+export const dequantizePoints = (q: QuantizedPoints): Point3D[] => {
+  const points: Point3D[] = [];
+  for (let i = 0; i < q.count; i++) {
+    const v = [0, 1, 2].map(k => q.min[k] + (q.positions[i * 3 + k] / QUANT_MAX) * (q.max[k] - q.min[k]));
+    points.push({
+      x: v[0],
+      y: v[1],
+      z: v[2],
+      color: q.colors ? [q.colors[i * 3] / 255, q.colors[i * 3 + 1] / 255, q.colors[i * 3 + 2] / 255] : undefined,
+    });
+  }
+  return points;
+};
+
+// Little-endian bytes of the positions, independent of the platform's byte order
+export const positionsToBytes = (positions: Uint16Array): Uint8Array => {
+  const bytes = new Uint8Array(positions.length * 2);
+  const view = new DataView(bytes.buffer);
+  positions.forEach((v, i) => view.setUint16(i * 2, v, true));
+  return bytes;
+};
+
+export const bytesToPositions = (bytes: Uint8Array): Uint16Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const positions = new Uint16Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < positions.length; i++) positions[i] = view.getUint16(i * 2, true);
+  return positions;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, String.fromCharCode has an argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import { ForceField } from '../simulation/ParticleSimulation';
+import { SparkleTrail } from './sparkleTrail';
+
+export type WandForce = 'repel' | 'vortex' | 'attract';
+
+export const WAND_FORCES: { id: WandForce; label: string }[] = [
+  { id: 'repel', label: 'Push' },
+  { id: 'vortex', label: 'Swirl' },
+  { id: 'attract', label: 'Pull' },
+];
+
+export interface WandSettings {
+  force: WandForce;
+  radius: number; // World units around the pointer's ray
+  falloff: number; // Exponent: low is wide and soft, high keeps the force near the ray
+  strength: number;
+}
+
+export const DEFAULT_WAND_SETTINGS: WandSettings = {
+  force: 'repel',
+  radius: 0.45,
+  falloff: 2,
+  strength: 6,
+};
+
+// Push direction and how much swirl goes with it
+const FORCE_FIELDS: Record<WandForce, Pick<ForceField, 'mode' | 'vortex'>> = {
+  repel: { mode: 'repel', vortex: 0.3 },
+  vortex: { mode: 'attract', vortex: 3 }, // A slight pull keeps the whirl tight
+  attract: { mode: 'attract', vortex: 0.3 },
+};
+
+// A quick stroke hits harder than a resting pointer
+const SPEED_BOOST = { rest: 0.4, perUnit: 0.5, max: 2 };
+
+const TRAIL_CAPACITY = 1200;
+
+interface WandPointer {
+  ndc: THREE.Vector2;
+  point: THREE.Vector3 | null; // Where the ray crossed the mid-plane last frame
+  speed: number; // Smoothed, world units per second
+}
+
+// The mouse, a pen and every touch as local forces on the particles, each leaving a trail of
+// sparkles. A mouse works while hovering; touches and pens while down.
+export class PointerWand {
+  settings: WandSettings = DEFAULT_WAND_SETTINGS;
+  fields: ForceField[] = [];
+  readonly trail = new SparkleTrail(TRAIL_CAPACITY);
+  private pointers = new Map<number, WandPointer>();
+  private element: HTMLElement | null = null;
+  private raycaster = new THREE.Raycaster();
+  private plane = new THREE.Plane();
+  private view = new THREE.Vector3();
+
+  attach(element: HTMLElement) {
+    this.detach();
+    this.element = element;
+    element.addEventListener('pointerdown', this.onPointer);
+    element.addEventListener('pointermove', this.onPointer);
+    element.addEventListener('pointerup', this.onRelease);
+    element.addEventListener('pointercancel', this.onRelease);
+    element.addEventListener('pointerleave', this.onLeave);
+  }
+
+  detach() {
+    const element = this.element;
+    if (element) {
+      element.removeEventListener('pointerdown', this.onPointer);
+      element.removeEventListener('pointermove', this.onPointer);
+      element.removeEventListener('pointerup', this.onRelease);
+      element.removeEventListener('pointercancel', this.onRelease);
+      element.removeEventListener('pointerleave', this.onLeave);
+    }
+    this.element = null;
+    this.pointers.clear();
+    this.fields = [];
+    this.trail.clear();
+  }
+
+  // Cast every pointer into the scene, rebuild the fields and advance the sparkles
+  update(camera: THREE.Camera, dt: number) {
+    const { settings, raycaster, plane } = this;
+    // Strokes are drawn on the plane through the middle of the shape, facing the camera
+    plane.setFromNormalAndCoplanarPoint(camera.getWorldDirection(this.view), new THREE.Vector3());
+
+    const fields: ForceField[] = [];
+    this.pointers.forEach((pointer) => {
+      raycaster.setFromCamera(pointer.ndc, camera);
+      const hit = raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+      if (!hit) return;
+
+      if (pointer.point && dt > 0) {
+        const speed = hit.distanceTo(pointer.point) / dt;
+        pointer.speed += (speed - pointer.speed) * Math.min(1, dt * 12);
+        this.trail.emitAlong(pointer.point, hit);
+      } else {
+        this.trail.emit(hit);
+      }
+      pointer.point = hit;
+
+      // The field runs along the ray, so the stroke cuts through the whole depth of the shape
+      const { direction } = raycaster.ray;
+      const boost = Math.min(SPEED_BOOST.max, SPEED_BOOST.rest + pointer.speed * SPEED_BOOST.perUnit);
+      fields.push({
+        x: hit.x,
+        y: hit.y,
+        z: hit.z,
+        axis: { x: direction.x, y: direction.y, z: direction.z },
+        radius: settings.radius,
+        strength: settings.strength * boost,
+        falloff: settings.falloff,
+        ...FORCE_FIELDS[settings.force],
+      });
+    });
+    this.fields = fields;
+    this.trail.step(dt);
+  }
+
+  private toNdc(event: PointerEvent, target: THREE.Vector2) {
+    const rect = this.element!.getBoundingClientRect();
+    return target.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  }
+
+  private onPointer = (event: PointerEvent) => {
+    const existing = this.pointers.get(event.pointerId);
+    if (existing) {
+      this.toNdc(event, existing.ndc);
+      return;
+    }
+    // Touches and pens only count while pressed
+    if (event.pointerType !== 'mouse' && event.type !== 'pointerdown') return;
+    this.pointers.set(event.pointerId, { ndc: this.toNdc(event, new THREE.Vector2()), point: null, speed: 0 });
+  };
+
+  private onRelease = (event: PointerEvent) => {
+    if (event.pointerType !== 'mouse') this.pointers.delete(event.pointerId);
+  };
+
+  private onLeave = (event: PointerEvent) => {
+    this.pointers.delete(event.pointerId);
+  };
+}
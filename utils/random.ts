@@ -0,0 +1,15 @@
+export type RandomFn = () => number;
+
+// Mulberry32: tiny, fast, good enough for visual randomness. Same seed, same sequence.
+export const createRandom = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff) >>> 0;
@@ -0,0 +1,117 @@
+import { RandomFn } from './random';
+
+// Warm gold with the odd icy blue, as rgb 0-1
+const SPARKLE_COLORS: [number, number, number][] = [
+  [1, 0.96, 0.78],
+  [1, 0.82, 0.45],
+  [0.62, 0.9, 1],
+];
+
+export interface TrailPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SparkleTrailOptions {
+  spacing: number; // One sparkle per this much distance travelled
+  lifeSeconds: [number, number];
+  drift: number; // Random initial speed
+  gravity: number; // Downward pull, units/s²
+  drag: number; // Fraction of velocity kept per second
+}
+
+export const DEFAULT_SPARKLE_TRAIL_OPTIONS: SparkleTrailOptions = {
+  spacing: 0.025,
+  lifeSeconds: [0.5, 1.2],
+  drift: 0.25,
+  gravity: 0.35,
+  drag: 0.2,
+};
+
+// Short-lived sparkles in a ring buffer; the oldest are recycled when it is full.
+// Meant for additive blending: colors fade to black as sparkles die, so dead ones vanish.
+export class SparkleTrail {
+  readonly capacity: number;
+  readonly positions: Float32Array;
+  readonly colors: Float32Array;
+  private velocities: Float32Array;
+  private ages: Float32Array;
+  private lives: Float32Array;
+  private tints: Uint8Array;
+  private next = 0;
+  private options: SparkleTrailOptions;
+  private random: RandomFn;
+
+  constructor(capacity: number, options: Partial<SparkleTrailOptions> = {}, random: RandomFn = Math.random) {
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 3);
+    this.velocities = new Float32Array(capacity * 3);
+    this.ages = new Float32Array(capacity);
+    this.lives = new Float32Array(capacity).fill(1);
+    this.ages.fill(1);
+    this.tints = new Uint8Array(capacity);
+    this.options = { ...DEFAULT_SPARKLE_TRAIL_OPTIONS, ...options };
+    this.random = random;
+  }
+
+  emit(point: TrailPoint) {
+    const { random } = this;
+    const { lifeSeconds, drift } = this.options;
+    const i = this.next;
+    this.next = (this.next + 1) % this.capacity;
+
+    this.positions[i * 3] = point.x;
+    this.positions[i * 3 + 1] = point.y;
+    this.positions[i * 3 + 2] = point.z;
+    this.velocities[i * 3] = (random() - 0.5) * 2 * drift;
+    this.velocities[i * 3 + 1] = (random() - 0.5) * 2 * drift;
+    this.velocities[i * 3 + 2] = (random() - 0.5) * 2 * drift;
+    this.ages[i] = 0;
+    this.lives[i] = lifeSeconds[0] + random() * (lifeSeconds[1] - lifeSeconds[0]);
+    this.tints[i] = random() < 0.15 ? 2 : random() < 0.5 ? 1 : 0;
+  }
+
+  // Evenly along a stroke, at least one per call so a resting pointer still glitters
+  emitAlong(from: TrailPoint, to: TrailPoint) {
+    const dx = to.x - from.x, dy = to.y - from.y, dz = to.z - from.z;
+    const steps = Math.min(64, Math.max(1, Math.round(Math.sqrt(dx * dx + dy * dy + dz * dz) / this.options.spacing)));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      this.emit({ x: from.x + dx * t, y: from.y + dy * t, z: from.z + dz * t });
+    }
+  }
+
+  step(dt: number) {
+    const { positions, velocities, colors, ages, lives, tints } = this;
+    const { gravity, drag } = this.options;
+    const keep = Math.pow(drag, dt);
+    for (let i = 0; i < this.capacity; i++) {
+      const idx = i * 3;
+      if (ages[i] >= lives[i]) {
+        colors[idx] = colors[idx + 1] = colors[idx + 2] = 0;
+        continue;
+      }
+      ages[i] += dt;
+      velocities[idx + 1] -= gravity * dt;
+      for (let c = 0; c < 3; c++) {
+        velocities[idx + c] *= keep;
+        positions[idx + c] += velocities[idx + c] * dt;
+      }
+      // Bright at birth, fading out with a little twinkle
+      const life = Math.max(0, 1 - ages[i] / lives[i]);
+      const glow = life * life * (0.75 + 0.25 * Math.sin(ages[i] * 40 + i));
+      const tint = SPARKLE_COLORS[tints[i]];
+      colors[idx] = tint[0] * glow;
+      colors[idx + 1] = tint[1] * glow;
+      colors[idx + 2] = tint[2] * glow;
+    }
+  }
+
+  clear() {
+    this.ages.fill(1);
+    this.lives.fill(1);
+    this.colors.fill(0);
+  }
+}